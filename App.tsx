@@ -1,96 +1,881 @@
-
-import React, { useState, useRef } from 'react';
-import { FilterParams, ProcessingState } from './types';
-import { extractRGB, combineRGB, applyMutualStructureFilter } from './services/filters';
+import React, { useEffect, useState, useRef } from 'react';
+import { AlgorithmMode, AnalysisProviderName, AnalysisResult, BackendName, BackendPreference, ComparisonItem, EnhanceParams, FilterMetrics, FilterParams, FilterProgress, ImageDataGray, ImageDataRGB, KernelName, KernelSettings, KernelValue, MapScale, Preset, PyramidLevel, PyramidParams, PreviewProxy, ProcessingState, Registration, RegistrationModel, RegistrationNudge, SequenceViewFrame, StructureMapName, SweepAxes, SweepCell, TemporalParams } from './types';
+import { combineRGB, resampleChannel, resampleRGB } from './services/filters';
+import { runFilterInWorker, runUpsampleInWorker } from './services/filterRunner';
+import { encodeGrayPFM, encodeGrayPNG, encodePFM, encodePNG } from './services/codecs';
+import { loadImageGray, loadImageRGB, previewURL } from './services/imageLoader';
+import { estimateRegistration, NO_NUDGE, nudgeMatrix, registrationOverlay, scaleRegistration, warpRGB } from './services/registration';
+import { grayToDisplay } from './services/upsample';
+import { enhanceDetail } from './services/enhance';
+import { createPreviewProxy, PREVIEW_DEBOUNCE_MS, proxyParams } from './services/preview';
+import { BUILT_IN_PRESETS, DEFAULT_PARAMS, exportPresets, loadPresets, parsePresets, savePresets } from './services/presets';
+import { SWEEP_MAX_SIZE, sweepGrid } from './services/sweep';
+import { createSession, paramsFromHash, paramsToHash, readSession, resultHash } from './services/session';
+import { estimateParams } from './services/autoParams';
+import { DEFAULT_TEMPORAL, filterSequence, FrameSource } from './services/sequence';
+import { DEFAULT_VIDEO_FPS, frameSourceFor, stillSource } from './services/frameSources';
+import { createZip } from './services/zip';
+import { AnalysisProvider, describeInputs, loadAnalysisChoice, localProvider, saveAnalysisChoice } from './services/analysis';
 import { GeminiService } from './services/geminiService';
+import { getKernel, KERNELS } from './services/kernels';
+import { applyColormap, STRUCTURE_MAPS, structureMapScale } from './services/structureMaps';
+import { DEFAULT_PYRAMID } from './services/pyramid';
+import { MsjfError } from './services/errors';
 import ImagePicker from './components/ImagePicker';
-import ImageSlider from './components/ImageSlider';
+import ComparisonWorkbench from './components/ComparisonWorkbench';
+import MetricsPanel from './components/MetricsPanel';
+import AnalysisPanel from './components/AnalysisPanel';
+import PresetPanel from './components/PresetPanel';
+import SweepPanel from './components/SweepPanel';
+import SweepSheet from './components/SweepSheet';
+import SequencePanel from './components/SequencePanel';
+import SequenceViewer from './components/SequenceViewer';
+import EnhancementPanel from './components/EnhancementPanel';
+import MaskPanel from './components/MaskPanel';
+import MaskEditor from './components/MaskEditor';
+import RegistrationPanel from './components/RegistrationPanel';
+import KernelParamsPanel from './components/KernelParamsPanel';
+import PyramidPanel from './components/PyramidPanel';
+
+const DIRECTION_LABELS: Record<FilterProgress['direction'], string> = {
+  'guidance-to-target': 'G→T',
+  'target-to-guidance': 'T→G',
+  'confidence': 'Blend'
+};
+
+/** Coarser pyramid levels kept as layers; `MAX_PYRAMID_LEVELS` - 1 of them at most. */
+type LevelOutput = 'level1' | 'level2' | 'level3' | 'level4';
+
+type ViewOutput = 'target' | 'guidance' | 'base' | 'detail' | 'enhanced' | LevelOutput | StructureMapName;
+
+const OUTPUT_FILES: Record<ViewOutput, string> = {
+  target: 'ms_filtered_result.png',
+  guidance: 'ms_filtered_guidance.png',
+  base: 'ms_base_layer.png',
+  detail: 'ms_detail_layer.png',
+  enhanced: 'ms_enhanced.png',
+  level1: 'ms_pyramid_level1.png',
+  level2: 'ms_pyramid_level2.png',
+  level3: 'ms_pyramid_level3.png',
+  level4: 'ms_pyramid_level4.png',
+  a: 'ms_coefficient_a.png',
+  varI: 'ms_guidance_variance.png',
+  covIP: 'ms_covariance.png',
+  mutual: 'ms_mutual_structure.png'
+};
+
+const isStructureMap = (output: ViewOutput): output is StructureMapName => output in STRUCTURE_MAPS;
+
+/** Output button group: result layers, pyramid levels, then structure maps. */
+const outputGroup = (output: ViewOutput) => (isStructureMap(output) ? 2 : output.startsWith('level') ? 1 : 0);
+
+type ExportFormat = '16-bit' | 'pfm';
+
+/** A completed run kept in the comparison history. */
+interface RunRecord {
+  id: number;
+  params: FilterParams;
+  /** Set for baseline kernels, whose values replace `params`. */
+  kernel?: KernelSettings;
+  /** Set for pyramid runs, whose levels replace `params.radius` and `params.epsilon`. */
+  pyramid?: PyramidLevel[];
+  outputs: Partial<Record<ViewOutput, string>>;
+  /** Absent for upsampling runs. */
+  metrics?: FilterMetrics;
+}
+
+/** A filtered sequence frame, with its 16-bit PNG kept for export. */
+interface SequenceRecord extends SequenceViewFrame {
+  png: Uint8Array;
+}
+
+/** Runs kept for comparison; older ones are dropped to bound memory. */
+const MAX_RUNS = 8;
+
+/** The input a result layer is compared against by default. */
+const inputFor = (output: ViewOutput) => (output === 'guidance' ? 'input:guidance' : 'input:target');
+
+/**
+ * Encodes a full-precision output layer; single-channel layers (upsampled
+ * maps) keep their own units instead of the display stretch.
+ */
+function encodeLayer(layer: ImageDataRGB | ImageDataGray, format: ExportFormat): Blob {
+  const bytes = 'data' in layer
+    ? (format === 'pfm' ? encodeGrayPFM(layer) : encodeGrayPNG(layer, 16))
+    : (format === 'pfm' ? encodePFM(layer) : encodePNG(layer, 16));
+  return new Blob([bytes], { type: format === 'pfm' ? 'application/octet-stream' : 'image/png' });
+}
+
+/** Analysis providers this build can offer; remote ones need an API key. */
+const ANALYSIS_PROVIDERS: AnalysisProvider[] = [localProvider, ...(GeminiService.isConfigured() ? [new GeminiService()] : [])];
+
+/** Parameters and mode linked in the URL hash, read once at startup. */
+const linked = paramsFromHash(window.location.hash);
 
 const App: React.FC = () => {
   const [targetImage, setTargetImage] = useState<string | null>(null);
   const [guidanceImage, setGuidanceImage] = useState<string | null>(null);
-  const [resultImage, setResultImage] = useState<string | null>(null);
-  const [params, setParams] = useState<FilterParams>({
-    radius: 4,
-    epsilon: 0.005,
-    iterations: 3,
-    weight: 1
+  const [mode, setMode] = useState<AlgorithmMode>(linked?.mode ?? 'filter');
+  const [targetPreview, setTargetPreview] = useState<string | null>(null);
+  const [guidancePreview, setGuidancePreview] = useState<string | null>(null);
+  const [outputs, setOutputs] = useState<Partial<Record<ViewOutput, string>>>({});
+  const [layers, setLayers] = useState<Partial<Record<ViewOutput, ImageDataRGB | ImageDataGray>>>({});
+  const [viewOutput, setViewOutput] = useState<ViewOutput>('target');
+  /** Colormap ranges of the structure maps in `layers`. */
+  const [mapScales, setMapScales] = useState<Partial<Record<StructureMapName, MapScale>>>({});
+  const [enhance, setEnhance] = useState<EnhanceParams>({ enabled: false, gains: [2] });
+  const [pyramid, setPyramid] = useState<PyramidParams>(DEFAULT_PYRAMID);
+  const [mask, setMask] = useState<ImageDataGray | null>(null);
+  const [maskEditing, setMaskEditing] = useState(false);
+  const [brush, setBrush] = useState({ size: 20, erase: false });
+  const [registration, setRegistration] = useState<Registration | null>(null);
+  const [nudge, setNudge] = useState<RegistrationNudge>(NO_NUDGE);
+  const [aligning, setAligning] = useState(false);
+  const [showOverlay, setShowOverlay] = useState(false);
+  const [overlay, setOverlay] = useState<string | null>(null);
+  // Decoded inputs kept for redrawing the overlay while nudging
+  const alignInputs = useRef<{ target: ImageDataRGB; guidance: ImageDataRGB } | null>(null);
+  const [params, setParams] = useState<FilterParams>(linked?.params ?? DEFAULT_PARAMS);
+  const [kernel, setKernel] = useState<KernelName>('msjf');
+  // Values of the baseline kernels; the mutual-structure filter reads `params`
+  const [kernelValues, setKernelValues] = useState<Record<KernelName, Record<string, KernelValue>>>(() => {
+    const values = {} as Record<KernelName, Record<string, KernelValue>>;
+    for (const k of Object.values(KERNELS)) values[k.name] = { ...k.defaults };
+    return values;
   });
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadPresets);
+  const [sweep, setSweep] = useState<{ axes: SweepAxes; cells: SweepCell[] } | null>(null);
+  const [showSweep, setShowSweep] = useState(false);
   const [status, setStatus] = useState<ProcessingState>({
     isProcessing: false,
     progress: 0,
+    stage: null,
     error: null
   });
-  const [aiExplanation, setAiExplanation] = useState<string | null>(null);
+  const [analysisChoice, setAnalysisChoice] = useState<AnalysisProviderName>(() => {
+    const stored = loadAnalysisChoice();
+    return ANALYSIS_PROVIDERS.some(p => p.name === stored) ? stored : 'off';
+  });
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analysing, setAnalysing] = useState(false);
+  const [estimating, setEstimating] = useState(false);
+  const [autoRationale, setAutoRationale] = useState<string | null>(null);
+  const [temporal, setTemporal] = useState<TemporalParams>(DEFAULT_TEMPORAL);
+  const [videoFps, setVideoFps] = useState(DEFAULT_VIDEO_FPS);
+  const [sequence, setSequence] = useState<{ frames: SequenceRecord[]; total: number; width: number; height: number } | null>(null);
+  const [showSequence, setShowSequence] = useState(false);
+  const [backend, setBackend] = useState<BackendPreference>('auto');
+  const [runInfo, setRunInfo] = useState<{ elapsedMs: number; subsample: number; backend: BackendName } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [livePreview, setLivePreview] = useState(false);
+  /** Whether the shown outputs come from the preview proxy rather than a full run. */
+  const [previewing, setPreviewing] = useState(false);
+  const previewAbortRef = useRef<AbortController | null>(null);
+  const proxyRef = useRef<PreviewProxy | null>(null);
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const runCounter = useRef(0);
+  /** Size of the current result in pixels; the workbench draws every image into it. */
+  const [frame, setFrame] = useState<{ width: number; height: number } | null>(null);
+  const [comparison, setComparison] = useState({ first: '', second: '' });
+  const [zoom, setZoom] = useState(1);
+  /** Result hash of an imported session, and whether the last full run reproduced it. */
+  const [session, setSession] = useState<{ resultHash: string; reproduced: boolean | null } | null>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
 
-  const handleProcess = async () => {
+  // Keep the URL shareable: it always carries the current parameters
+  useEffect(() => {
+    window.history.replaceState(null, '', `#${paramsToHash(params, mode)}`);
+  }, [params, mode]);
+
+  const clearOutputs = () => {
+    setOutputs({});
+    setLayers({});
+    setMapScales({});
+    setPreviewing(false);
+    setRuns([]);
+    setFrame(null);
+    setSweep(null);
+    setShowSweep(false);
+    setAutoRationale(null);
+  };
+
+  const applyPreset = (preset: Preset) => {
+    setParams(preset.params);
+    setKernel('msjf');
+    if (preset.mode && preset.mode !== mode) {
+      setMode(preset.mode);
+      clearOutputs();
+    }
+  };
+
+  const updatePresets = (next: Preset[]) => {
+    setUserPresets(next);
+    try {
+      savePresets(next);
+    } catch (err) {
+      console.warn(err);
+      setStatus(prev => ({ ...prev, error: "Presets could not be saved in this browser." }));
+    }
+  };
+
+  const savePreset = (name: string) => {
+    updatePresets([...userPresets.filter(p => p.name !== name), { name, params, mode }]);
+  };
+
+  const importPresets = (json: string) => {
+    try {
+      const imported = parsePresets(json);
+      const names = new Set(imported.map(p => p.name));
+      updatePresets([...userPresets.filter(p => !names.has(p.name)), ...imported]);
+    } catch (err) {
+      setStatus(prev => ({ ...prev, error: `Could not import presets: ${err instanceof Error ? err.message : err}` }));
+    }
+  };
+
+  const downloadPresets = () => {
+    const url = URL.createObjectURL(new Blob([exportPresets(userPresets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'msjf-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /** Adds a finished run to the history and compares its `view` layer against the input. */
+  const recordRun = (
+    runOutputs: Partial<Record<ViewOutput, string>>,
+    width: number,
+    height: number,
+    view: ViewOutput,
+    metrics?: FilterMetrics,
+    settings: Pick<RunRecord, 'params' | 'kernel' | 'pyramid'> = { params }
+  ) => {
+    const id = ++runCounter.current;
+    setRuns(prev => [...prev, { id, ...settings, outputs: runOutputs, metrics }].slice(-MAX_RUNS));
+    setFrame({ width, height });
+    setComparison({ first: `run${id}:${view}`, second: inputFor(view) });
+  };
+
+  const selectOutput = (output: ViewOutput) => {
+    setViewOutput(output);
+    const latest = runs[runs.length - 1];
+    const current = previewing || !latest ? `preview:${output}` : `run${latest.id}:${output}`;
+    setComparison({ first: current, second: inputFor(output) });
+  };
+
+  const latestMetrics = runs[runs.length - 1]?.metrics;
+
+  /** Baseline kernel to run instead of MSJF; upsampling always uses MSJF. */
+  const baseline: KernelSettings | null =
+    mode === 'filter' && kernel !== 'msjf' ? { name: kernel, values: kernelValues[kernel] } : null;
+
+  /** Levels to filter coarse to fine, or null for a single full-resolution pass. */
+  const pyramidLevels = mode === 'filter' && !baseline && pyramid.enabled ? pyramid.levels : null;
+
+  /** Whether runs use the single-scale MSJF that previews, sweeps, sequences and enhancement build on. */
+  const singleScale = !baseline && !pyramidLevels;
+
+  const changeKernelValue = (key: string, value: KernelValue) => {
+    if (kernel === 'msjf') setParams({ ...params, [key]: value });
+    else setKernelValues(prev => ({ ...prev, [kernel]: { ...prev[kernel], [key]: value } }));
+  };
+
+  /** Values under the cursor; only the latest full run keeps its raw maps. */
+  const readout = (run: RunRecord, output: ViewOutput): Pick<ComparisonItem, 'readout'> | null => {
+    if (previewing || run !== runs[runs.length - 1] || !isStructureMap(output)) return null;
+    const values = layers[output];
+    const scale = mapScales[output];
+    return values && 'data' in values && scale ? { readout: { values, scale } } : null;
+  };
+
+  const comparisonItems: ComparisonItem[] = [
+    ...(targetPreview ? [{ id: 'input:target', label: 'Original target', src: targetPreview }] : []),
+    ...(guidancePreview ? [{ id: 'input:guidance', label: 'Original guidance', src: guidancePreview }] : []),
+    ...runs.flatMap(run => (Object.entries(run.outputs) as [ViewOutput, string][]).map(([output, src]) => ({
+      id: `run${run.id}:${output}`,
+      label: `Run ${run.id} · ${run.kernel ? `${getKernel(run.kernel.name).label} · ` : ''}${output}`,
+      src,
+      ...(run.kernel ? { kernel: run.kernel } : { params: run.params, pyramid: run.pyramid }),
+      ...(readout(run, output) ?? {})
+    }))),
+    ...(previewing
+      ? (Object.entries(outputs) as [ViewOutput, string][]).map(([output, src]) => ({
+          id: `preview:${output}`, label: `Preview · ${output}`, src, params
+        }))
+      : [])
+  ];
+
+  const outputGroups = [0, 1, 2]
+    .map(group => (Object.keys(OUTPUT_FILES) as ViewOutput[]).filter(output => outputs[output] && outputGroup(output) === group))
+    .filter(group => group.length > 0);
+
+  const toDataURL = (rgb: ImageDataRGB) => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+    canvas.width = rgb.width;
+    canvas.height = rgb.height;
+    ctx.putImageData(combineRGB(rgb), 0, 0);
+    return canvas.toDataURL('image/png');
+  };
+
+  /**
+   * Decodes both images at full precision, with the guidance aligned (or just
+   * resampled) to the target and the mask resampled to the target's size.
+   */
+  const loadFilterInputs = async (target: string, guidance: string) => {
+    const [loadedTarget, loadedGuidance] = await Promise.all([loadImageRGB(target), loadImageRGB(guidance)]);
+    return prepareInputs(loadedTarget, loadedGuidance);
+  };
+
+  /** Aligns decoded inputs as `loadFilterInputs` does. */
+  const prepareInputs = (loadedTarget: ImageDataRGB, loadedGuidance: ImageDataRGB) => {
+    const { width, height } = loadedTarget;
+    const guidanceRGB = registration
+      ? warpRGB(loadedGuidance, nudgeMatrix(registration, nudge, width, height), width, height)
+      : resampleRGB(loadedGuidance, width, height);
+    const regionMask = mask && (mask.width === width && mask.height === height
+      ? mask
+      : { data: resampleChannel(mask.data, mask.width, mask.height, width, height), width, height });
+    return { target: loadedTarget, guidance: guidanceRGB, mask: regionMask ?? undefined };
+  };
+
+  // The proxy is rebuilt whenever the filter inputs change
+  useEffect(() => {
+    proxyRef.current = null;
+  }, [targetImage, guidanceImage, registration, nudge, mask]);
+
+  const runPreview = async () => {
+    if (!targetImage || !guidanceImage) return;
+    previewAbortRef.current?.abort();
+    const controller = new AbortController();
+    previewAbortRef.current = controller;
+
+    try {
+      if (!proxyRef.current) {
+        const inputs = await loadFilterInputs(targetImage, guidanceImage);
+        if (controller.signal.aborted) return;
+        proxyRef.current = createPreviewProxy(inputs.target, inputs.guidance, inputs.mask);
+        setFrame({ width: inputs.target.width, height: inputs.target.height });
+      }
+      const proxy = proxyRef.current;
+      const startedAt = performance.now();
+      // Copies, since the worker takes ownership of the buffers it is sent
+      const { result, backend: usedBackend } = await runFilterInWorker(
+        resampleRGB(proxy.target, proxy.target.width, proxy.target.height),
+        resampleRGB(proxy.guidance, proxy.guidance.width, proxy.guidance.height),
+        proxyParams(params, proxy),
+        { onProgress: () => {}, signal: controller.signal, mask: proxy.mask, backend }
+      );
+      setRunInfo({ elapsedMs: performance.now() - startedAt, subsample: params.subsample, backend: usedBackend });
+      setOutputs({ target: toDataURL(result.target), guidance: toDataURL(result.guidance) });
+      setLayers({});
+      setPreviewing(true);
+      const view = viewOutput === 'guidance' ? 'guidance' : 'target';
+      setViewOutput(view);
+      setComparison(c => ({ first: `preview:${view}`, second: c.second || inputFor(view) }));
+    } catch (err) {
+      if (!controller.signal.aborted) console.warn("Live preview failed", err);
+    } finally {
+      if (previewAbortRef.current === controller) previewAbortRef.current = null;
+    }
+  };
+
+  // Re-filter the proxy shortly after the last change while live preview is on
+  useEffect(() => {
+    if (!livePreview || mode !== 'filter' || !singleScale || status.isProcessing || !targetImage || !guidanceImage) return;
+    const timer = setTimeout(runPreview, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [livePreview, mode, singleScale, params, backend, targetImage, guidanceImage, registration, nudge, mask]);
+
+  useEffect(() => {
+    if (!livePreview) previewAbortRef.current?.abort();
+  }, [livePreview]);
+
+  const renderOverlay = (reg: Registration, adjust: RegistrationNudge) => {
+    const inputs = alignInputs.current;
+    if (!inputs) return;
+    const { target, guidance } = inputs;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const composite = registrationOverlay(target, guidance, nudgeMatrix(reg, adjust, target.width, target.height));
+    canvas.width = composite.width;
+    canvas.height = composite.height;
+    ctx.putImageData(combineRGB(composite), 0, 0);
+    setOverlay(canvas.toDataURL('image/png'));
+  };
+
+  const resetRegistration = () => {
+    setRegistration(null);
+    setNudge(NO_NUDGE);
+    setShowOverlay(false);
+    setOverlay(null);
+    alignInputs.current = null;
+  };
+
+  const handleAlign = async (model: RegistrationModel | 'manual') => {
     if (!targetImage || !guidanceImage) {
       setStatus({ ...status, error: "Please select both images." });
       return;
     }
+    setAligning(true);
+    try {
+      const [target, guidance] = await Promise.all([loadImageRGB(targetImage), loadImageRGB(guidanceImage)]);
+      // Let the spinner paint before the estimate blocks the main thread
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const next = model === 'manual'
+        ? scaleRegistration(target.width, target.height, guidance.width, guidance.height)
+        : estimateRegistration(target, guidance, model);
+      alignInputs.current = { target, guidance };
+      setRegistration(next);
+      setNudge(NO_NUDGE);
+      setShowOverlay(true);
+      renderOverlay(next, NO_NUDGE);
+    } catch (err) {
+      console.error(err);
+      setStatus(prev => ({ ...prev, error: "Registration failed. Try Manual alignment instead." }));
+    } finally {
+      setAligning(false);
+    }
+  };
 
-    setStatus({ isProcessing: true, progress: 0, error: null });
+  const changeNudge = (next: RegistrationNudge) => {
+    setNudge(next);
+    if (registration) renderOverlay(registration, next);
+  };
 
+  const uploadMask = async (img: string) => {
     try {
-      const targetImg = new Image();
-      const guidanceImg = new Image();
-      
-      const loadImg = (img: HTMLImageElement, src: string) => new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = src;
+      setMask(await loadImageGray(img));
+    } catch (err) {
+      console.error(err);
+      setStatus(prev => ({ ...prev, error: "Could not read the mask image." }));
+    }
+  };
+
+  const pickImage = (
+    setImage: (img: string | null) => void,
+    setPreview: (img: string | null) => void
+  ) => (img: string | null) => {
+    setImage(img);
+    setPreview(img);
+    clearOutputs();
+    // PFM and Netpbm files cannot be shown by <img>; swap in a rendered preview
+    if (img) previewURL(img).then(setPreview, () => setPreview(img));
+  };
+
+  const downloadLayer = (format: ExportFormat) => {
+    const output = layers[viewOutput] ? viewOutput : 'target';
+    const layer = layers[output];
+    if (!layer) return;
+    // Maps keep their raw values in PFM; as PNG they are written as shown
+    const scale = isStructureMap(output) && format !== 'pfm' && 'data' in layer ? mapScales[output] : undefined;
+    const url = URL.createObjectURL(encodeLayer(scale ? applyColormap(layer as ImageDataGray, scale) : layer, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = OUTPUT_FILES[output].replace(/\.png$/, format === 'pfm' ? '.pfm' : '_16bit.png');
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportSession = async () => {
+    if (!targetImage || !guidanceImage) return;
+    try {
+      const bundle = await createSession({
+        mode,
+        params,
+        kernel: previewing ? null : runs[runs.length - 1]?.kernel ?? null,
+        pyramid: previewing ? null : runs[runs.length - 1]?.pyramid ?? null,
+        backend,
+        registration,
+        nudge,
+        target: targetImage,
+        guidance: guidanceImage,
+        mask,
+        result: previewing ? null : layers.target ?? null
       });
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'msjf-session.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setStatus(prev => ({ ...prev, error: "Could not export the session." }));
+    }
+  };
 
-      await Promise.all([
-        loadImg(targetImg, targetImage),
-        loadImg(guidanceImg, guidanceImage)
+  /** Restores inputs, parameters and the stored result of a session file. */
+  const importSession = async (json: string) => {
+    try {
+      const bundle = await readSession(json);
+      const [sessionMask, sessionResult] = await Promise.all([
+        bundle.mask ? loadImageGray(bundle.mask.dataURL) : null,
+        bundle.result
+          ? (bundle.mode === 'upsample' ? loadImageGray(bundle.result.dataURL) : loadImageRGB(bundle.result.dataURL))
+          : null
       ]);
 
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      if (!ctx) throw new Error("Could not get canvas context");
-
-      // Dimensions based on target image
-      canvas.width = targetImg.width;
-      canvas.height = targetImg.height;
-      
-      // Step 1: Get Target RGB
-      ctx.drawImage(targetImg, 0, 0);
-      const targetData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const targetRGB = extractRGB(targetData);
-
-      // Step 2: Get Guidance RGB (scaled to match target)
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(guidanceImg, 0, 0, canvas.width, canvas.height);
-      const guidanceData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const guidanceRGB = extractRGB(guidanceData);
-
-      // Step 3: Run algorithm
-      const resultRGB = await applyMutualStructureFilter(targetRGB, guidanceRGB, params, (p) => {
-        setStatus(prev => ({ ...prev, progress: p }));
-      });
+      clearOutputs();
+      pickImage(setTargetImage, setTargetPreview)(bundle.target.dataURL);
+      pickImage(setGuidanceImage, setGuidancePreview)(bundle.guidance.dataURL);
+      setMode(bundle.mode);
+      setParams(bundle.params);
+      setKernel(bundle.kernel?.name ?? 'msjf');
+      setPyramid(prev => ({ ...prev, enabled: bundle.pyramid !== undefined, levels: bundle.pyramid ?? prev.levels }));
+      if (bundle.kernel) {
+        const { name, values } = bundle.kernel;
+        setKernelValues(prev => ({ ...prev, [name]: values }));
+      }
+      setBackend(bundle.backend);
+      setMask(sessionMask);
+      setMaskEditing(false);
+      setRegistration(bundle.registration ?? null);
+      setNudge(bundle.nudge ?? NO_NUDGE);
+      setShowOverlay(false);
+      setAnalysis(null);
+      setRunInfo(null);
+      setSession(bundle.result ? { resultHash: bundle.result.sha256, reproduced: null } : null);
+      setStatus({ isProcessing: false, progress: 0, stage: null, error: null });
 
-      // Step 4: Combine back
-      const resultData = combineRGB(resultRGB);
-      ctx.putImageData(resultData, 0, 0);
-      setResultImage(canvas.toDataURL('image/png'));
-      setStatus({ isProcessing: false, progress: 100, error: null });
-
-      // Step 5: AI Explanation (Optional)
-      try {
-        const gemini = new GeminiService();
-        const explanation = await gemini.explainMutualStructure(
-          "Image targeted for texture filtering",
-          "Reference image for joint-structure extraction"
+      if (sessionResult) {
+        const src = toDataURL('data' in sessionResult ? grayToDisplay(sessionResult) : sessionResult);
+        setOutputs({ target: src });
+        setLayers({ target: sessionResult });
+        setViewOutput('target');
+        recordRun({ target: src }, sessionResult.width, sessionResult.height, 'target', undefined, {
+          params: bundle.params, kernel: bundle.kernel, pyramid: bundle.pyramid
+        });
+      }
+    } catch (err) {
+      console.error(err);
+      setStatus(prev => ({ ...prev, error: `Could not import the session: ${err instanceof Error ? err.message : err}` }));
+    }
+  };
+
+  const handleSessionFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) file.text().then(importSession);
+    e.target.value = '';
+  };
+
+  /** Compares a full-resolution result with the imported session's. */
+  const checkReproduction = (result: ImageDataRGB | ImageDataGray) => {
+    if (!session) return;
+    resultHash(result).then(
+      hash => setSession(prev => prev && { ...prev, reproduced: hash === prev.resultHash }),
+      err => console.warn("Could not hash the result", err)
+    );
+  };
+
+  const clearSequence = () => {
+    sequence?.frames.forEach(frame => {
+      URL.revokeObjectURL(frame.input);
+      URL.revokeObjectURL(frame.result);
+    });
+    setSequence(null);
+    setShowSequence(false);
+  };
+
+  /**
+   * Filters a frame sequence with the current parameters, registration and
+   * mask, stabilising it over time; frames appear in the viewer as they finish.
+   */
+  const handleSequence = async (targetFiles: File[], guidanceFiles: File[] | null) => {
+    if (!guidanceFiles && !guidanceImage) return;
+    clearSequence();
+    setStatus({ isProcessing: true, progress: 0, stage: null, error: null });
+    setMaskEditing(false);
+    setShowOverlay(false);
+    setShowSweep(false);
+    previewAbortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const sources: FrameSource[] = [];
+    try {
+      const targets = await frameSourceFor(targetFiles, videoFps);
+      sources.push(targets);
+      const guidances = guidanceFiles ? await frameSourceFor(guidanceFiles, videoFps) : stillSource(guidanceImage ?? '', 'guidance');
+      sources.push(guidances);
+      const count = targets.count;
+      const frames: SequenceRecord[] = [];
+
+      await filterSequence(
+        targets,
+        guidances,
+        temporal,
+        async (target, guidance, index) => {
+          const inputs = prepareInputs(target, guidance);
+          const { result } = await runFilterInWorker(inputs.target, inputs.guidance, params, {
+            onProgress: (p, stage) => setStatus(prev => ({
+              ...prev,
+              progress: ((index + p / 100) / count) * 100,
+              stage: stage ? { ...stage, frame: { index, count } } : prev.stage
+            })),
+            signal: controller.signal,
+            mask: inputs.mask,
+            backend
+          });
+          return result.target;
+        },
+        ({ name, target, result, change }) => {
+          const png = encodePNG(result, 16);
+          frames.push({
+            name,
+            input: URL.createObjectURL(new Blob([encodePNG(target, 8)], { type: 'image/png' })),
+            result: URL.createObjectURL(new Blob([png], { type: 'image/png' })),
+            change,
+            png
+          });
+          setSequence({ frames: [...frames], total: count, width: result.width, height: result.height });
+          setShowSequence(true);
+        },
+        controller.signal
+      );
+      setStatus({ isProcessing: false, progress: 100, stage: null, error: null });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setStatus({ isProcessing: false, progress: 0, stage: null, error: null });
+        return;
+      }
+      console.error(err);
+      setStatus({ isProcessing: false, progress: 0, stage: null, error: `Sequence filtering failed: ${err instanceof Error ? err.message : err}` });
+    } finally {
+      sources.forEach(source => source.dispose?.());
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const downloadSequence = () => {
+    if (!sequence) return;
+    const zip = createZip(sequence.frames.map(frame => ({ name: `${frame.name.replace(/\.[^.]+$/, '')}.png`, bytes: frame.png })));
+    const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'msjf-sequence.zip';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /** Fills in parameters estimated from the current inputs. */
+  const handleAuto = async () => {
+    if (!targetImage || !guidanceImage) return;
+    setEstimating(true);
+    try {
+      let target: ImageDataRGB;
+      let guidance: ImageDataRGB;
+      if (mode === 'upsample') {
+        // Estimate on what the filter starts from: the stretched map, upsampled to the guidance
+        const [map, guidanceRGB] = await Promise.all([loadImageGray(targetImage), loadImageRGB(guidanceImage)]);
+        target = resampleRGB(grayToDisplay(map), guidanceRGB.width, guidanceRGB.height);
+        guidance = guidanceRGB;
+      } else {
+        ({ target, guidance } = await loadFilterInputs(targetImage, guidanceImage));
+      }
+      const suggestion = estimateParams(target, guidance, params);
+      setParams(suggestion.params);
+      setAutoRationale(suggestion.rationale);
+    } catch (err) {
+      console.error(err);
+      setStatus(prev => ({ ...prev, error: "Could not estimate parameters from these images." }));
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  const chooseAnalysis = (choice: AnalysisProviderName) => {
+    setAnalysisChoice(choice);
+    saveAnalysisChoice(choice);
+    setAnalysis(null);
+  };
+
+  /** Describes the current inputs and hands them to the chosen provider. */
+  const handleAnalyse = async () => {
+    const provider = ANALYSIS_PROVIDERS.find(p => p.name === analysisChoice);
+    if (!provider || !targetImage || !guidanceImage) return;
+    setAnalysing(true);
+    try {
+      let target: ImageDataRGB;
+      let guidance: ImageDataRGB;
+      if (mode === 'upsample') {
+        const [map, guidanceRGB] = await Promise.all([loadImageGray(targetImage), loadImageRGB(guidanceImage)]);
+        target = { r: map.data, g: map.data, b: map.data, width: map.width, height: map.height };
+        guidance = guidanceRGB;
+      } else {
+        ({ target, guidance } = await loadFilterInputs(targetImage, guidanceImage));
+      }
+      setAnalysis(await provider.analyse(describeInputs(target, guidance, mode, params)));
+    } catch (err) {
+      console.error(err);
+      setStatus(prev => ({ ...prev, error: `${provider.label} analysis failed: ${err instanceof Error ? err.message : err}` }));
+    } finally {
+      setAnalysing(false);
+    }
+  };
+
+  /**
+   * Filters a small proxy of the inputs with every combination in `axes`,
+   * filling the contact sheet as cells finish.
+   */
+  const handleSweep = async (axes: SweepAxes) => {
+    if (!targetImage || !guidanceImage) {
+      setStatus({ ...status, error: "Please select both images." });
+      return;
+    }
+    let grid: FilterParams[];
+    try {
+      grid = sweepGrid(params, axes);
+    } catch (err) {
+      setStatus({ ...status, error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+
+    setStatus({ isProcessing: true, progress: 0, stage: null, error: null });
+    setMaskEditing(false);
+    setShowOverlay(false);
+    previewAbortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const inputs = await loadFilterInputs(targetImage, guidanceImage);
+      const proxy = createPreviewProxy(inputs.target, inputs.guidance, inputs.mask, SWEEP_MAX_SIZE);
+      const cells: SweepCell[] = [];
+      setSweep({ axes, cells: [] });
+      setShowSweep(true);
+      setShowSequence(false);
+
+      for (const [index, cellParams] of grid.entries()) {
+        const { result, metrics } = await runFilterInWorker(
+          resampleRGB(proxy.target, proxy.target.width, proxy.target.height),
+          resampleRGB(proxy.guidance, proxy.guidance.width, proxy.guidance.height),
+          proxyParams(cellParams, proxy),
+          {
+            onProgress: p => setStatus(prev => ({ ...prev, progress: ((index + p / 100) / grid.length) * 100 })),
+            signal: controller.signal,
+            mask: proxy.mask,
+            backend,
+            metrics: true
+          }
         );
-        setAiExplanation(explanation);
-      } catch (e) {
-        console.warn("AI explanation failed", e);
+        cells.push({ params: cellParams, src: toDataURL(result.target), metrics });
+        setSweep({ axes, cells: [...cells] });
+      }
+      setStatus({ isProcessing: false, progress: 100, stage: null, error: null });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setStatus({ isProcessing: false, progress: 0, stage: null, error: null });
+        return;
+      }
+      console.error(err);
+      setStatus({ isProcessing: false, progress: 0, stage: null, error: err instanceof MsjfError ? `Parameter sweep failed: ${err.message}` : "Parameter sweep failed. Ensure images are valid." });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleProcess = async () => {
+    if (!targetImage || !guidanceImage) {
+      setStatus({ ...status, error: "Please select both images." });
+      return;
+    }
+
+    setStatus({ isProcessing: true, progress: 0, stage: null, error: null });
+    setMaskEditing(false);
+    setShowOverlay(false);
+    setShowSweep(false);
+    setShowSequence(false);
+    previewAbortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const onProgress = (p: number, stage?: FilterProgress) =>
+        setStatus(prev => ({ ...prev, progress: p, stage: stage ?? null }));
+
+      if (mode === 'upsample') {
+        // Step 1: Low-resolution map at its own size and full bit depth; guidance sets the output size
+        const [lowRes, guidanceRGB] = await Promise.all([loadImageGray(targetImage), loadImageRGB(guidanceImage)]);
+
+        // Step 2: Joint upsampling off the main thread
+        const startedAt = performance.now();
+        const upsampled = await runUpsampleInWorker(lowRes, guidanceRGB, params, { onProgress, signal: controller.signal, backend });
+        setRunInfo({ elapsedMs: performance.now() - startedAt, subsample: params.subsample, backend: upsampled.backend });
+
+        // Step 3: Preview stretched to the map's range; the map itself is kept for full-precision export
+        const nextOutputs = { target: toDataURL(grayToDisplay(upsampled.target)), guidance: toDataURL(upsampled.guidance) };
+        setOutputs(nextOutputs);
+        setLayers({ target: upsampled.target, guidance: upsampled.guidance });
+        setViewOutput('target');
+        recordRun(nextOutputs, upsampled.guidance.width, upsampled.guidance.height, 'target');
+        checkReproduction(upsampled.target);
+      } else {
+        // Step 1: Decode both images at full precision; guidance is aligned (or just resampled) to the target
+        const { target: loadedTarget, guidance: guidanceRGB, mask: regionMask } = await loadFilterInputs(targetImage, guidanceImage);
+        const { width, height } = loadedTarget;
+        // The worker takes ownership of the target buffers; keep a copy for the detail layer
+        const originalRGB = resampleRGB(loadedTarget, width, height);
+        // Detail enhancement builds on the MSJF base layers
+        const enhanceRun = enhance.enabled && singleScale;
+
+        // Step 2: Run algorithm off the main thread
+        const startedAt = performance.now();
+        const { result, coarseBases, metrics, maps, levels, backend: usedBackend } = await runFilterInWorker(loadedTarget, guidanceRGB, params, {
+          onProgress,
+          signal: controller.signal,
+          detailScales: enhanceRun ? enhance.gains.length : 1,
+          mask: regionMask,
+          backend,
+          kernel: baseline ?? undefined,
+          pyramid: pyramidLevels ?? undefined,
+          metrics: true,
+          maps: true
+        });
+        setRunInfo({ elapsedMs: performance.now() - startedAt, subsample: params.subsample, backend: usedBackend });
+
+        // Step 3: Combine back (both images are refined by the mutual filter; baselines refine the target only)
+        const nextLayers: Partial<Record<ViewOutput, ImageDataRGB>> = baseline
+          ? { target: result.target }
+          : { target: result.target, guidance: result.guidance };
+        if (enhanceRun) {
+          Object.assign(nextLayers, enhanceDetail(originalRGB, [result.target, ...coarseBases], enhance));
+        }
+        if (pyramid.keepLevels) {
+          levels.forEach((level, k) => { nextLayers[`level${k + 1}` as LevelOutput] = level; });
+        }
+        const nextOutputs: Partial<Record<ViewOutput, string>> = {};
+        for (const [output, rgb] of Object.entries(nextLayers) as [ViewOutput, ImageDataRGB][]) {
+          nextOutputs[output] = toDataURL(rgb);
+        }
+        const nextScales: Partial<Record<StructureMapName, MapScale>> = {};
+        for (const [name, map] of Object.entries(maps ?? {}) as [StructureMapName, ImageDataGray][]) {
+          nextScales[name] = structureMapScale(name, map);
+          nextOutputs[name] = toDataURL(applyColormap(map, nextScales[name]));
+        }
+        setOutputs(nextOutputs);
+        setLayers({ ...nextLayers, ...maps });
+        setMapScales(nextScales);
+        setViewOutput(enhanceRun ? 'enhanced' : 'target');
+        recordRun(nextOutputs, width, height, enhanceRun ? 'enhanced' : 'target', metrics, {
+          params, kernel: baseline ?? undefined, pyramid: pyramidLevels ?? undefined
+        });
+        checkReproduction(result.target);
       }
+      setPreviewing(false);
+      setStatus({ isProcessing: false, progress: 100, stage: null, error: null });
 
     } catch (err) {
+      if (controller.signal.aborted) {
+        setStatus({ isProcessing: false, progress: 0, stage: null, error: null });
+        return;
+      }
       console.error(err);
-      setStatus({ isProcessing: false, progress: 0, error: "Image processing failed. Ensure images are valid." });
+      setStatus({ isProcessing: false, progress: 0, stage: null, error: err instanceof MsjfError ? err.message : "Image processing failed. Ensure images are valid." });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
@@ -112,14 +897,44 @@ const App: React.FC = () => {
           </p>
         </div>
         <div className="flex items-center gap-4">
+          <button
+            disabled={status.isProcessing}
+            onClick={() => sessionInputRef.current?.click()}
+            className="px-4 py-2.5 rounded-xl text-xs font-bold uppercase tracking-widest text-gray-500 hover:text-white hover:bg-gray-800 transition-all border border-gray-800"
+          >
+            <i className="fa-solid fa-folder-open"></i> Open Session
+          </button>
+          <button
+            disabled={status.isProcessing || !targetImage || !guidanceImage}
+            onClick={exportSession}
+            title="Save inputs, parameters and the current result as one file"
+            className="px-4 py-2.5 rounded-xl text-xs font-bold uppercase tracking-widest text-gray-500 hover:text-white hover:bg-gray-800 transition-all border border-gray-800 disabled:opacity-40"
+          >
+            <i className="fa-solid fa-floppy-disk"></i> Save Session
+          </button>
+          <input
+            type="file"
+            ref={sessionInputRef}
+            onChange={handleSessionFile}
+            accept="application/json,.json"
+            className="hidden"
+          />
           <button 
             disabled={status.isProcessing}
             onClick={() => {
               setTargetImage(null);
               setGuidanceImage(null);
-              setResultImage(null);
-              setAiExplanation(null);
-              setStatus({ isProcessing: false, progress: 0, error: null });
+              setTargetPreview(null);
+              setGuidancePreview(null);
+              setMask(null);
+              setMaskEditing(false);
+              resetRegistration();
+              clearOutputs();
+              setAnalysis(null);
+              setRunInfo(null);
+              setSession(null);
+              clearSequence();
+              setStatus({ isProcessing: false, progress: 0, stage: null, error: null });
             }}
             className="px-6 py-2.5 rounded-xl text-xs font-bold uppercase tracking-widest text-gray-500 hover:text-white hover:bg-gray-800 transition-all border border-gray-800"
           >
@@ -133,18 +948,40 @@ const App: React.FC = () => {
         
         {/* Controls Panel */}
         <div className="lg:col-span-4 space-y-6">
+          <div className="grid grid-cols-2 gap-1 bg-gray-900 rounded-xl p-1 border border-gray-800">
+            {([['filter', 'fa-layer-group', 'Joint Filter'], ['upsample', 'fa-up-right-and-down-left-from-center', 'Upsample Map']] as const).map(([value, icon, label]) => (
+              <button
+                key={value}
+                disabled={status.isProcessing}
+                onClick={() => { setMode(value); clearOutputs(); }}
+                className={`py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${
+                  mode === value ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'
+                }`}
+              >
+                <i className={`fa-solid ${icon}`}></i> {label}
+              </button>
+            ))}
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <ImagePicker 
-              label="Target" 
-              image={targetImage} 
-              onImageChange={(img) => { setTargetImage(img); setResultImage(null); }}
-              description="Texture to filter"
+              label={mode === 'upsample' ? 'Low-Res Map' : 'Target'} 
+              image={targetPreview} 
+              onImageChange={(img) => {
+                pickImage(setTargetImage, setTargetPreview)(img);
+                setMask(null);
+                resetRegistration();
+              }}
+              description={mode === 'upsample' ? 'Depth, confidence or thermal map (16-bit PNG, PGM, PFM)' : 'Texture to filter'}
             />
             <ImagePicker 
               label="Guidance" 
-              image={guidanceImage} 
-              onImageChange={(img) => { setGuidanceImage(img); setResultImage(null); }}
-              description="Structure reference"
+              image={guidancePreview} 
+              onImageChange={(img) => {
+                pickImage(setGuidanceImage, setGuidancePreview)(img);
+                resetRegistration();
+              }}
+              description={mode === 'upsample' ? 'High-resolution RGB; sets the output size' : 'Structure reference'}
             />
           </div>
 
@@ -153,48 +990,134 @@ const App: React.FC = () => {
               <h2 className="text-[10px] font-black uppercase text-gray-500 tracking-[0.2em] flex items-center gap-2">
                 <i className="fa-solid fa-sliders text-blue-500"></i> Parameters
               </h2>
+              <button
+                disabled={status.isProcessing || estimating || baseline !== null || !targetImage || !guidanceImage}
+                onClick={handleAuto}
+                title="Estimate radius, smoothness and iterations from the images"
+                className="px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+              >
+                <i className={`fa-solid ${estimating ? 'fa-compact-disc animate-spin' : 'fa-wand-magic-sparkles'}`}></i> Auto
+              </button>
             </div>
+
+            {autoRationale && (
+              <div className="bg-blue-500/5 border border-blue-500/20 rounded-xl p-3 flex items-start gap-2">
+                <p className="flex-1 text-[10px] text-gray-400 leading-relaxed">{autoRationale}</p>
+                <button onClick={() => setAutoRationale(null)} className="text-gray-600 hover:text-white">
+                  <i className="fa-solid fa-xmark text-[10px]"></i>
+                </button>
+              </div>
+            )}
             
             <div className="space-y-6">
-              <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <label className="text-xs font-bold text-gray-300">Radius</label>
-                  <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{params.radius}px</span>
-                </div>
-                <input 
-                  type="range" min="1" max="20" step="1"
-                  value={params.radius}
-                  onChange={(e) => setParams({...params, radius: parseInt(e.target.value)})}
-                  className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                />
-              </div>
+              <PresetPanel
+                presets={[...BUILT_IN_PRESETS, ...userPresets]}
+                onApply={applyPreset}
+                onSave={savePreset}
+                onDelete={(name) => updatePresets(userPresets.filter(p => p.name !== name))}
+                onImport={importPresets}
+                onExport={downloadPresets}
+              />
 
               <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <label className="text-xs font-bold text-gray-300">Smoothness</label>
-                  <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{params.epsilon.toFixed(4)}</span>
+                <label className="text-xs font-bold text-gray-300">Backend</label>
+                <div className="grid grid-cols-3 gap-1 bg-gray-950 rounded-lg p-1 border border-gray-800">
+                  {([['auto', 'Auto'], ['cpu', 'CPU'], ['webgl', 'GPU']] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setBackend(value)}
+                      className={`py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${
+                        backend === value ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
                 </div>
-                <input 
-                  type="range" min="0.0001" max="0.05" step="0.0001"
-                  value={params.epsilon}
-                  onChange={(e) => setParams({...params, epsilon: parseFloat(e.target.value)})}
-                  className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                />
+                <p className="text-[10px] text-gray-600">GPU runs box filters and coefficients through WebGL2 and falls back to the CPU when unavailable or inaccurate. Masked regions always run on the CPU.</p>
               </div>
 
-              <div className="space-y-3">
+              <KernelParamsPanel
+                kernels={mode === 'filter' ? Object.values(KERNELS) : [KERNELS.msjf]}
+                kernel={getKernel(baseline?.name ?? 'msjf')}
+                values={baseline?.values ?? { ...params }}
+                onKernelChange={setKernel}
+                onChange={changeKernelValue}
+              />
+            </div>
+
+            {mode === 'filter' && (
+              <RegistrationPanel
+                registration={registration}
+                nudge={nudge}
+                aligning={aligning}
+                showOverlay={showOverlay}
+                onAlign={handleAlign}
+                onNudgeChange={changeNudge}
+                onShowOverlayChange={setShowOverlay}
+                onReset={resetRegistration}
+              />
+            )}
+
+            {mode === 'filter' && (
+              <MaskPanel
+                hasMask={mask !== null}
+                editing={maskEditing}
+                brushSize={brush.size}
+                erase={brush.erase}
+                onEditingChange={setMaskEditing}
+                onBrushSizeChange={(size) => setBrush({ ...brush, size })}
+                onEraseChange={(erase) => setBrush({ ...brush, erase })}
+                onUpload={uploadMask}
+                onClear={() => setMask(null)}
+              />
+            )}
+
+            {mode === 'filter' && !baseline && <PyramidPanel value={pyramid} onChange={setPyramid} />}
+
+            {mode === 'filter' && singleScale && <EnhancementPanel value={enhance} onChange={setEnhance} />}
+
+            {mode === 'filter' && singleScale && (
+              <SweepPanel
+                disabled={status.isProcessing || !targetImage || !guidanceImage}
+                hasResults={sweep !== null && !showSweep}
+                onRun={handleSweep}
+                onShowResults={() => { setShowSweep(true); setShowSequence(false); }}
+              />
+            )}
+
+            {mode === 'filter' && singleScale && (
+              <SequencePanel
+                disabled={status.isProcessing}
+                hasGuidanceImage={guidanceImage !== null}
+                temporal={temporal}
+                onTemporalChange={setTemporal}
+                fps={videoFps}
+                onFpsChange={setVideoFps}
+                onRun={handleSequence}
+                hasResults={sequence !== null && !showSequence}
+                onShowResults={() => { setShowSequence(true); setShowSweep(false); }}
+              />
+            )}
+
+            {mode === 'filter' && singleScale && (
+              <div className="space-y-3 pt-6 border-t border-gray-800">
                 <div className="flex justify-between items-center">
-                  <label className="text-xs font-bold text-gray-300">Iterations</label>
-                  <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{params.iterations}</span>
+                  <label className="text-xs font-bold text-gray-300">Live Preview</label>
+                  <button
+                    onClick={() => setLivePreview(!livePreview)}
+                    className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border ${
+                      livePreview ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-800 text-gray-500 hover:text-white'
+                    }`}
+                  >
+                    {livePreview ? 'On' : 'Off'}
+                  </button>
                 </div>
-                <input 
-                  type="range" min="1" max="15" step="1"
-                  value={params.iterations}
-                  onChange={(e) => setParams({...params, iterations: parseInt(e.target.value)})}
-                  className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                />
+                <p className="text-[10px] text-gray-600">
+                  Re-filters a downscaled copy on every parameter change, with radius and smoothness scaled to match. Apply runs the full-resolution filter.
+                </p>
               </div>
-            </div>
+            )}
 
             <button
               onClick={handleProcess}
@@ -209,10 +1132,14 @@ const App: React.FC = () => {
                 <span className="flex items-center justify-center gap-3">
                   <i className="fa-solid fa-compact-disc animate-spin"></i> Processing...
                 </span>
-              ) : "Apply Mutual Filter"}
+              ) : mode === 'upsample' ? "Upsample With Guidance" : "Apply Mutual Filter"}
             </button>
           </div>
 
+          {!previewing && latestMetrics && (
+            <MetricsPanel metrics={latestMetrics} previous={runs[runs.length - 2]?.metrics} />
+          )}
+
           {status.error && (
             <div className="bg-red-900/20 border border-red-500/30 p-4 rounded-xl flex items-start gap-3 text-red-400 text-xs">
               <i className="fa-solid fa-circle-exclamation mt-0.5"></i>
@@ -220,45 +1147,127 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {aiExplanation && (
-            <div className="bg-indigo-950/20 p-5 rounded-2xl border border-indigo-500/10">
-              <h4 className="text-indigo-400 text-[9px] font-black uppercase mb-3 tracking-widest flex items-center gap-2">
-                <i className="fa-solid fa-sparkles"></i> AI Context
-              </h4>
-              <p className="text-xs text-gray-400 leading-relaxed font-light italic">
-                "{aiExplanation}"
-              </p>
-            </div>
-          )}
+          <AnalysisPanel
+            providers={ANALYSIS_PROVIDERS}
+            choice={analysisChoice}
+            onChoose={chooseAnalysis}
+            disabled={status.isProcessing || !targetImage || !guidanceImage}
+            analysing={analysing}
+            result={analysis}
+            onAnalyse={handleAnalyse}
+            onApply={setParams}
+          />
         </div>
 
         {/* Result Viewport */}
         <div className="lg:col-span-8 flex flex-col gap-6">
           <div className="relative bg-black rounded-3xl border border-gray-800 overflow-hidden min-h-[500px] lg:h-[700px] flex shadow-2xl group">
-            {resultImage && targetImage ? (
-              <div className="flex-1 flex flex-col relative">
-                <div className="flex-1 bg-gray-950">
-                  <ImageSlider before={targetImage} after={resultImage} />
+            {mode === 'filter' && maskEditing && targetPreview ? (
+              <div className="flex-1 bg-gray-950 p-4">
+                <MaskEditor
+                  image={targetPreview}
+                  mask={mask}
+                  brushSize={brush.size}
+                  erase={brush.erase}
+                  onChange={setMask}
+                />
+              </div>
+            ) : mode === 'filter' && showOverlay && overlay ? (
+              <div className="flex-1 bg-gray-950 p-4 relative flex items-center justify-center">
+                <img src={overlay} alt="Alignment overlay" className="max-w-full max-h-full object-contain" />
+                <div className="absolute top-8 left-8 px-2 py-1 bg-gray-800/80 backdrop-blur rounded text-[9px] font-bold text-white uppercase tracking-tighter pointer-events-none">
+                  Alignment Overlay
+                </div>
+              </div>
+            ) : mode === 'filter' && showSequence && sequence ? (
+              <SequenceViewer
+                frames={sequence.frames}
+                total={sequence.total}
+                width={sequence.width}
+                height={sequence.height}
+                onExport={downloadSequence}
+                onClose={() => setShowSequence(false)}
+              />
+            ) : mode === 'filter' && showSweep && sweep ? (
+              <SweepSheet
+                axes={sweep.axes}
+                cells={sweep.cells}
+                onPick={(picked) => setParams(picked)}
+                onClose={() => setShowSweep(false)}
+              />
+            ) : outputs.target && targetPreview && frame ? (
+              <div className="flex-1 flex flex-col relative min-h-0">
+                <div className="flex-1 bg-gray-950 p-3 min-h-0">
+                  <ComparisonWorkbench
+                    items={comparisonItems}
+                    first={comparison.first}
+                    second={comparison.second}
+                    onSelect={(first, second) => setComparison({ first, second })}
+                    width={frame.width}
+                    height={frame.height}
+                    onZoomChange={setZoom}
+                  />
                 </div>
-                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-black/80 backdrop-blur-xl rounded-full border border-white/10 text-[9px] text-gray-400 pointer-events-none flex items-center gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <i className="fa-solid fa-left-right text-blue-500 animate-pulse"></i>
-                  DRAG SLIDER TO COMPARE
+                <div className="absolute bottom-20 left-1/2 -translate-x-1/2 px-4 py-2 bg-black/80 backdrop-blur-xl rounded-full border border-white/10 text-[9px] text-gray-400 pointer-events-none flex items-center gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <i className="fa-solid fa-magnifying-glass text-blue-500 animate-pulse"></i>
+                  SCROLL TO ZOOM · DRAG TO PAN · DOUBLE-CLICK TO FIT
                 </div>
                 <div className="p-3 bg-gray-950 border-t border-gray-800 flex justify-between items-center px-6">
                    <div className="flex items-center gap-4">
                      <div className="flex items-center gap-1.5">
-                       <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></div>
-                       <span className="text-[9px] font-bold text-gray-500 uppercase tracking-widest">Active Result</span>
+                       <div className={`w-1.5 h-1.5 rounded-full animate-pulse ${previewing ? 'bg-amber-500' : 'bg-green-500'}`}></div>
+                       <span className="text-[9px] font-bold text-gray-500 uppercase tracking-widest">{previewing ? 'Live Preview' : 'Active Result'}</span>
                      </div>
-                     <span className="text-[9px] text-gray-700 font-mono">2048x2048 Virtual Space</span>
+                     <span className="text-[9px] text-gray-700 font-mono">{frame.width}×{frame.height} · {Math.round(zoom * 100)}%</span>
+                     {runInfo && (
+                       <span className="text-[9px] text-gray-600 font-mono">
+                         {(runInfo.elapsedMs / 1000).toFixed(2)}s · {runInfo.subsample === 1 ? 'exact' : `fast ${runInfo.subsample}x`} · {runInfo.backend === 'webgl' ? 'GPU' : 'CPU'}
+                       </span>
+                     )}
+                     {session?.reproduced != null && (
+                       <span className={`text-[9px] font-mono ${session.reproduced ? 'text-green-500' : 'text-amber-500'}`}>
+                         {session.reproduced ? 'matches session' : 'differs from session'}
+                       </span>
+                     )}
                    </div>
-                   <a 
-                    href={resultImage} 
-                    download="ms_filtered_result.png"
-                    className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-[10px] font-black uppercase tracking-tighter transition-all shadow-lg shadow-blue-900/40"
-                  >
-                    <i className="fa-solid fa-download"></i> Save PNG
-                  </a>
+                   {outputGroups.map(group => (
+                     <div key={group[0]} className="flex items-center gap-1 bg-gray-900 rounded-lg p-0.5 border border-gray-800">
+                       {group.map(output => (
+                         <button
+                           key={output}
+                           onClick={() => selectOutput(output)}
+                           title={isStructureMap(output) ? STRUCTURE_MAPS[output].description : undefined}
+                           className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all ${
+                             viewOutput === output ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'
+                           }`}
+                         >
+                           {isStructureMap(output) ? STRUCTURE_MAPS[output].label : output}
+                         </button>
+                       ))}
+                     </div>
+                   ))}
+                   {previewing ? (
+                     <span className="text-[9px] text-gray-600 font-mono">Apply to export full resolution</span>
+                   ) : (
+                   <div className="flex items-center gap-2">
+                     {(['16-bit', 'pfm'] as const).map(format => (
+                       <button
+                        key={format}
+                        onClick={() => downloadLayer(format)}
+                        className="flex items-center gap-2 px-4 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-[10px] font-black uppercase tracking-tighter transition-all"
+                      >
+                        <i className="fa-solid fa-download"></i> {format}
+                      </button>
+                     ))}
+                     <a 
+                      href={outputs[viewOutput] ?? outputs.target} 
+                      download={OUTPUT_FILES[outputs[viewOutput] ? viewOutput : 'target']}
+                      className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-[10px] font-black uppercase tracking-tighter transition-all shadow-lg shadow-blue-900/40"
+                    >
+                      <i className="fa-solid fa-download"></i> Save PNG
+                    </a>
+                   </div>
+                   )}
                 </div>
               </div>
             ) : (
@@ -310,7 +1319,18 @@ const App: React.FC = () => {
                     <p className="text-white text-xs font-black uppercase tracking-[0.3em]">Processing Layers</p>
                   </div>
                   <p className="text-gray-500 text-[10px] uppercase font-bold tracking-widest">Applying Joint Static and Dynamic Filtering</p>
+                  {status.stage && (
+                    <p className="text-gray-600 text-[10px] font-mono">
+                      {status.stage.frame && `Frame ${status.stage.frame.index + 1}/${status.stage.frame.count} · `}{status.stage.level && `Level ${status.stage.level.count - status.stage.level.index}/${status.stage.level.count} · `}Iteration {status.stage.iteration + 1}/{params.iterations} · Channel {status.stage.channel} · {DIRECTION_LABELS[status.stage.direction]} · Pass {status.stage.pass}/{status.stage.totalPasses}{status.stage.tile && ` · Tile ${status.stage.tile.index + 1}/${status.stage.tile.count}`}
+                    </p>
+                  )}
                 </div>
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="px-6 py-2.5 rounded-xl text-xs font-bold uppercase tracking-widest text-gray-400 hover:text-white hover:bg-red-600/80 transition-all border border-gray-800"
+                >
+                  <i className="fa-solid fa-xmark mr-2"></i>Cancel
+                </button>
               </div>
             )}
           </div>
@@ -0,0 +1,491 @@
+import { readFile, writeFile, readdir, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { FilterParams, GuidanceMode, ImageDataGray, ImageDataRGB, KernelSettings, KernelValue, PyramidLevel, RegistrationModel } from '../types';
+import { applyMutualStructureFilter, resampleChannel, resampleRGB, structureMaps } from '../services/filters';
+import { decodeGray, decodeImage, encodeGrayPFM, encodeGrayPNG, encodeImage, formatFromFileName, ImageFormat } from '../services/codecs';
+import { upsampleWithGuidance } from '../services/upsample';
+import { estimateRegistration, warpRGB } from '../services/registration';
+import { applyMutualStructureFilterTiled, DEFAULT_TILE_SIZE } from '../services/tiling';
+import { computeMetrics, psnr } from '../services/metrics';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { compareFrameNames, DEFAULT_TEMPORAL, filterSequence, FrameSource } from '../services/sequence';
+import { isKernelName, KERNELS, validateKernelValues } from '../services/kernels';
+import { validatePyramidLevels } from '../services/pyramid';
+import { filter } from '../lib';
+
+const BASELINE_KERNELS = Object.values(KERNELS).filter(k => k.name !== 'msjf');
+
+const USAGE = `Usage:
+  msjf filter --target <file> --guidance <file> -o <file> [options]
+  msjf batch --target-dir <dir> --guidance-dir <dir> --out-dir <dir> [options]
+  msjf sequence --target-dir <dir> (--guidance-dir <dir> | --guidance <file>) --out-dir <dir> [options]
+  msjf bench --target <file> --guidance <file> [--factors 2,4,8] [options]
+  msjf upsample --target <map> --guidance <file> -o <file.png|file.pfm> [options]
+
+Images are PNG (8- or 16-bit), PPM/PGM or PFM (32-bit float), chosen by
+extension; samples keep their full precision through the filter. In batch
+mode, pairs are matched by file name without extension. upsample treats the
+target as a single-channel map (e.g. 16-bit depth), resizes it to the guidance
+and writes a grayscale PNG or PFM. sequence filters a numbered frame series
+in natural order (frame_9 before frame_10), blending each result towards the
+previous one where the input did not change; the guidance is a series of the
+same length or one still for every frame.
+
+Options:
+  --radius <n>              Window radius in pixels (default 4)
+  --eps <n>                 Regularisation epsilon (default 0.005)
+  --iterations <n>          Mutual-structure iterations (default 3)
+  --target-fidelity <n>     Static weight towards the input target (default 0.1)
+  --guidance-fidelity <n>   Static weight towards the input guidance (default 0.1)
+  --weight <n>              Filtered share kept on mutual structure, 0-1 (default 1)
+  --subsample <n>           Fast guided filter subsampling factor (default 1 = exact)
+  --guidance-mode <mode>    luminance or color (3x3 covariance) guidance (default luminance)
+  --kernel <name>           (filter, batch) Run a baseline kernel instead of MSJF:
+                            ${BASELINE_KERNELS.map(k => k.name).join(', ')}
+  --set <key=value>         (filter, batch) A baseline kernel parameter; repeatable
+  --pyramid <r:eps,...>     (filter, batch) Filter coarse to fine on a Gaussian pyramid,
+                            one radius:epsilon per level from full resolution down,
+                            e.g. 3:0.005,3:0.005,3:0.01
+  --levels-out <dir>        (filter) Also write each coarser pyramid level's result
+  --temporal <n>            (sequence) Temporal stabilisation strength, 0-1 (default ${DEFAULT_TEMPORAL.strength})
+  --temporal-sigma <n>      (sequence) Input change treated as motion (default ${DEFAULT_TEMPORAL.sigma})
+  --factors <list>          (bench) Subsampling factors compared against exact
+  --guidance-out <file>     (filter) Also write the filtered guidance
+  --maps <dir>              (filter) Also write the coefficient a, varI, covIP and the
+                            mutual-structure map of the inputs as PFM files
+  --tile-size <n>           (filter, batch, sequence) Filter large images in tiles of n pixels
+                            (default ${DEFAULT_TILE_SIZE}); the result is unchanged
+  --mask <file>             (filter) Only filter where the grayscale mask is white
+  --register <model>        (filter, batch) Align the guidance to the target first:
+                            similarity or homography (default: stretch only)
+  --format <png|ppm|pfm>    (batch, sequence) Output format (default: target's format)
+  --bit-depth <8|16>        PNG output bit depth (default 8; 16 for upsample)
+  --metrics                 (filter, batch) Print PSNR, SSIM, gradient correlation
+                            and relative total variation as one JSON line per image;
+                            (sequence) the mean change from the previous output frame
+  -q, --quiet               No progress output
+  -h, --help                Show this help
+
+Baseline kernel parameters (defaults in parentheses):
+${BASELINE_KERNELS.map(k => {
+  const keys = k.params.map(spec => `${spec.key} (${k.defaults[spec.key]})`).join(', ');
+  return `  ${k.name.padEnd(26)}${keys}`;
+}).join('\n')}
+
+Baseline kernels filter the target only and are not tiled.`;
+
+class UsageError extends Error {}
+
+function requireFormat(file: string): ImageFormat {
+  const format = formatFromFileName(file);
+  if (!format) throw new UsageError(`Unsupported image type: ${file}`);
+  return format;
+}
+
+async function readImage(file: string): Promise<ImageDataRGB> {
+  return decodeImage(new Uint8Array(await readFile(file)), requireFormat(file));
+}
+
+async function writeImage(file: string, rgb: ImageDataRGB, depth: 8 | 16, format: ImageFormat = requireFormat(file)) {
+  await writeFile(file, encodeImage(rgb, format, depth));
+}
+
+function parseNumber(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new UsageError(`--${name} expects a number, got "${value}"`);
+  return n;
+}
+
+function stem(file: string): string {
+  return path.basename(file, path.extname(file));
+}
+
+async function readPair(targetFile: string, guidanceFile: string, register?: RegistrationModel, quiet = true) {
+  const target = await readImage(targetFile);
+  const source = await readImage(guidanceFile);
+  if (!register) {
+    // Like the app, the guidance is resampled onto the target grid
+    return { target, guidance: resampleRGB(source, target.width, target.height) };
+  }
+
+  const { matrix } = estimateRegistration(target, source, register);
+  if (!quiet) {
+    const rows = [0, 3, 6].map(i => matrix.slice(i, i + 3).map(v => v.toFixed(5)).join(' '));
+    console.error(`${path.basename(guidanceFile)}: ${register} registration\n  ${rows.join('\n  ')}`);
+  }
+  return { target, guidance: warpRGB(source, matrix, target.width, target.height) };
+}
+
+function progressReporter(label: string, quiet: boolean) {
+  let reported = -1;
+  return (p: number) => {
+    const pct = Math.floor(p);
+    if (quiet || pct === reported) return;
+    reported = pct;
+    process.stderr.write(`\r${label}: ${pct}%`);
+    if (pct === 100) process.stderr.write('\n');
+  };
+}
+
+/** The images in `dir` as a frame series, in natural name order. */
+async function directorySource(dir: string): Promise<FrameSource> {
+  const files = (await readdir(dir)).filter(f => formatFromFileName(f) !== null).sort(compareFrameNames);
+  return { count: files.length, name: index => files[index], load: index => readImage(path.join(dir, files[index])) };
+}
+
+/**
+ * Reads a region mask and resamples it onto a `width` x `height` target.
+ */
+async function readMask(file: string, width: number, height: number): Promise<ImageDataGray> {
+  const { image } = decodeGray(new Uint8Array(await readFile(file)), requireFormat(file));
+  if (image.width === width && image.height === height) return image;
+  return { data: resampleChannel(image.data, image.width, image.height, width, height), width, height };
+}
+
+/**
+ * Reads `--set key=value` pairs for a kernel, typed by its parameter schema.
+ */
+function parseKernelSettings(name: string, assignments: string[]): KernelSettings {
+  if (!isKernelName(name)) {
+    throw new UsageError(`--kernel must be one of ${Object.keys(KERNELS).join(', ')}, got "${name}"`);
+  }
+  const kernel = KERNELS[name];
+  const raw: Record<string, KernelValue> = {};
+  for (const assignment of assignments) {
+    const [key, value] = assignment.split('=', 2);
+    const spec = kernel.params.find(p => p.key === key);
+    if (!spec || value === undefined) {
+      throw new UsageError(`--set expects key=value with key one of ${kernel.params.map(p => p.key).join(', ')}, got "${assignment}"`);
+    }
+    raw[key] = spec.type === 'range' ? parseNumber(`set ${key}`, value, NaN) : value;
+  }
+  try {
+    return validateKernelValues(name, raw);
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/** Reads `--pyramid r:eps,r:eps,...`, fine to coarse. */
+function parsePyramid(value: string): PyramidLevel[] {
+  const levels = value.split(',').map(level => {
+    const [radius, epsilon] = level.split(':');
+    return { radius: parseNumber('pyramid', radius, NaN), epsilon: parseNumber('pyramid', epsilon, NaN) };
+  });
+  try {
+    return validatePyramidLevels(levels);
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Filters one target/guidance pair, with MSJF (single-scale or on `pyramid`
+ * levels) or a baseline `kernel`; also
+ * returns the aligned inputs, which `computeMetrics` compares the result
+ * against.
+ */
+async function filterPair(
+  targetFile: string,
+  guidanceFile: string,
+  params: FilterParams,
+  quiet: boolean,
+  maskFile?: string,
+  register?: RegistrationModel,
+  tileSize = DEFAULT_TILE_SIZE,
+  kernel?: KernelSettings,
+  pyramid?: PyramidLevel[]
+) {
+  const { target, guidance } = await readPair(targetFile, guidanceFile, register, quiet);
+  const mask = maskFile ? await readMask(maskFile, target.width, target.height) : undefined;
+  const onProgress = progressReporter(path.basename(targetFile), quiet);
+  const { levels, ...result } = await filter({ target, guidance, params, mask, kernel, pyramid, tileSize, onProgress });
+  return { result, levels, target, guidance };
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      target: { type: 'string' },
+      guidance: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      'guidance-out': { type: 'string' },
+      pyramid: { type: 'string' },
+      'levels-out': { type: 'string' },
+      maps: { type: 'string' },
+      mask: { type: 'string' },
+      register: { type: 'string' },
+      'tile-size': { type: 'string' },
+      'target-dir': { type: 'string' },
+      'guidance-dir': { type: 'string' },
+      'out-dir': { type: 'string' },
+      format: { type: 'string' },
+      'bit-depth': { type: 'string' },
+      radius: { type: 'string' },
+      eps: { type: 'string' },
+      iterations: { type: 'string' },
+      'target-fidelity': { type: 'string' },
+      'guidance-fidelity': { type: 'string' },
+      weight: { type: 'string' },
+      subsample: { type: 'string' },
+      'guidance-mode': { type: 'string' },
+      kernel: { type: 'string' },
+      set: { type: 'string', multiple: true },
+      factors: { type: 'string' },
+      temporal: { type: 'string' },
+      'temporal-sigma': { type: 'string' },
+      metrics: { type: 'boolean' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const command = positionals[0];
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const params: FilterParams = {
+    ...DEFAULT_PARAMS,
+    radius: parseNumber('radius', values.radius, DEFAULT_PARAMS.radius),
+    epsilon: parseNumber('eps', values.eps, DEFAULT_PARAMS.epsilon),
+    iterations: parseNumber('iterations', values.iterations, DEFAULT_PARAMS.iterations),
+    weight: parseNumber('weight', values.weight, DEFAULT_PARAMS.weight),
+    targetFidelity: parseNumber('target-fidelity', values['target-fidelity'], DEFAULT_PARAMS.targetFidelity),
+    guidanceFidelity: parseNumber('guidance-fidelity', values['guidance-fidelity'], DEFAULT_PARAMS.guidanceFidelity),
+    subsample: parseNumber('subsample', values.subsample, DEFAULT_PARAMS.subsample)
+  };
+  const quiet = values.quiet ?? false;
+
+  const guidanceMode = values['guidance-mode'];
+  if (guidanceMode !== undefined) {
+    if (guidanceMode !== 'luminance' && guidanceMode !== 'color') {
+      throw new UsageError(`--guidance-mode must be luminance or color, got "${guidanceMode}"`);
+    }
+    params.guidanceMode = guidanceMode as GuidanceMode;
+  }
+
+  const register = values.register as RegistrationModel | undefined;
+  if (register !== undefined && register !== 'similarity' && register !== 'homography') {
+    throw new UsageError(`--register must be similarity or homography, got "${register}"`);
+  }
+
+  const kernelSettings = values.kernel ? parseKernelSettings(values.kernel, values.set ?? []) : undefined;
+  if (values.set && !kernelSettings) throw new UsageError('--set needs --kernel');
+  if ((kernelSettings || values.set) && command !== 'filter' && command !== 'batch') {
+    throw new UsageError('--kernel and --set apply to filter and batch');
+  }
+  // MSJF keeps its own options; only baselines go through the kernel registry
+  const baseline = kernelSettings?.name === 'msjf' ? undefined : kernelSettings;
+  if (kernelSettings?.name === 'msjf' && values.set) {
+    throw new UsageError('Set MSJF parameters with --radius, --eps and the other filter options');
+  }
+
+  const pyramid = values.pyramid ? parsePyramid(values.pyramid) : undefined;
+  if (pyramid && command !== 'filter' && command !== 'batch') throw new UsageError('--pyramid applies to filter and batch');
+  if (pyramid && baseline) throw new UsageError('--pyramid needs the MSJF kernel');
+  if (values['levels-out'] && !pyramid) throw new UsageError('--levels-out needs --pyramid');
+  if (values.mask && command !== 'filter') throw new UsageError('--mask applies to filter');
+  if (register && command !== 'filter' && command !== 'batch') throw new UsageError('--register applies to filter and batch');
+
+  const tileSize = parseNumber('tile-size', values['tile-size'], DEFAULT_TILE_SIZE);
+  if (!(tileSize >= 16)) throw new UsageError('--tile-size must be at least 16');
+
+  const bitDepth = (fallback: number): 8 | 16 => {
+    const depth = parseNumber('bit-depth', values['bit-depth'], fallback);
+    if (depth !== 8 && depth !== 16) throw new UsageError('--bit-depth must be 8 or 16');
+    return depth;
+  };
+
+  if (command === 'filter') {
+    if (!values.target || !values.guidance || !values.output) {
+      throw new UsageError('filter needs --target, --guidance and -o');
+    }
+    requireFormat(values.output);
+    if (baseline && values['guidance-out']) throw new UsageError('--guidance-out needs the MSJF kernel');
+    const depth = bitDepth(8);
+    const { result, levels, target, guidance } = await filterPair(
+      values.target, values.guidance, params, quiet, values.mask, register, tileSize, baseline, pyramid
+    );
+    await writeImage(values.output, result.target, depth);
+    if (values['guidance-out']) await writeImage(values['guidance-out'], result.guidance, depth);
+    const levelsOut = values['levels-out'];
+    if (levelsOut) {
+      await mkdir(levelsOut, { recursive: true });
+      const format = requireFormat(values.output);
+      for (const [k, level] of levels.entries()) {
+        await writeImage(path.join(levelsOut, `level${k + 1}.${format}`), level, depth, format);
+      }
+    }
+    if (values.maps) {
+      await mkdir(values.maps, { recursive: true });
+      const mask = values.mask ? await readMask(values.mask, target.width, target.height) : undefined;
+      const finest = pyramid ? pyramid[0] : params;
+      const maps = structureMaps(target, guidance, finest.radius, finest.epsilon, mask?.data);
+      for (const [name, map] of Object.entries(maps)) {
+        await writeFile(path.join(values.maps, `${name}.pfm`), encodeGrayPFM(map));
+      }
+    }
+    if (values.metrics) console.log(JSON.stringify(computeMetrics(target, guidance, result.target)));
+    return;
+  }
+
+  if (command === 'batch') {
+    const targetDir = values['target-dir'];
+    const guidanceDir = values['guidance-dir'];
+    const outDir = values['out-dir'];
+    if (!targetDir || !guidanceDir || !outDir) {
+      throw new UsageError('batch needs --target-dir, --guidance-dir and --out-dir');
+    }
+    if (values.format && !['png', 'ppm', 'pfm'].includes(values.format)) {
+      throw new UsageError(`--format must be png, ppm or pfm, got "${values.format}"`);
+    }
+    const depth = bitDepth(8);
+
+    const images = (files: string[]) => files.filter(f => formatFromFileName(f) !== null).sort();
+    const targets = images(await readdir(targetDir));
+    const guidances = new Map(images(await readdir(guidanceDir)).map(f => [stem(f), f]));
+
+    await mkdir(outDir, { recursive: true });
+    let processed = 0;
+    for (const file of targets) {
+      const guidanceFile = guidances.get(stem(file));
+      if (!guidanceFile) {
+        console.warn(`No guidance for ${file}, skipping`);
+        continue;
+      }
+      const format = (values.format as ImageFormat | undefined) ?? requireFormat(file);
+      const { result, target, guidance } = await filterPair(
+        path.join(targetDir, file),
+        path.join(guidanceDir, guidanceFile),
+        params,
+        quiet,
+        undefined,
+        register,
+        tileSize,
+        baseline,
+        pyramid
+      );
+      await writeImage(path.join(outDir, `${stem(file)}.${format}`), result.target, depth, format);
+      if (values.metrics) console.log(JSON.stringify({ file, ...computeMetrics(target, guidance, result.target) }));
+      processed++;
+    }
+    if (!quiet) console.error(`Filtered ${processed} of ${targets.length} target images`);
+    return;
+  }
+
+  if (command === 'sequence') {
+    const targetDir = values['target-dir'];
+    const outDir = values['out-dir'];
+    if (!targetDir || !outDir || (!values['guidance-dir'] && !values.guidance)) {
+      throw new UsageError('sequence needs --target-dir, --guidance-dir or --guidance, and --out-dir');
+    }
+    if (values.format && !['png', 'ppm', 'pfm'].includes(values.format)) {
+      throw new UsageError(`--format must be png, ppm or pfm, got "${values.format}"`);
+    }
+    const strength = parseNumber('temporal', values.temporal, DEFAULT_TEMPORAL.strength);
+    if (!(strength >= 0 && strength <= 1)) throw new UsageError('--temporal must be between 0 and 1');
+    const sigma = parseNumber('temporal-sigma', values['temporal-sigma'], DEFAULT_TEMPORAL.sigma);
+    if (!(sigma > 0)) throw new UsageError('--temporal-sigma must be positive');
+    const depth = bitDepth(8);
+
+    const targets = await directorySource(targetDir);
+    const guidanceFile = values.guidance;
+    const guidances: FrameSource = values['guidance-dir']
+      ? await directorySource(values['guidance-dir'])
+      : { count: 1, name: () => path.basename(guidanceFile ?? ''), load: () => readImage(guidanceFile ?? '') };
+
+    await mkdir(outDir, { recursive: true });
+    await filterSequence(
+      targets,
+      guidances,
+      { strength, sigma },
+      async (target, guidance, index) => {
+        const aligned = resampleRGB(guidance, target.width, target.height);
+        const label = `${targets.name(index)} (${index + 1}/${targets.count})`;
+        const result = await applyMutualStructureFilterTiled(
+          target, aligned, params, progressReporter(label, quiet), undefined, undefined, tileSize
+        );
+        return result.target;
+      },
+      async ({ name, result, change }) => {
+        const format = (values.format as ImageFormat | undefined) ?? requireFormat(name);
+        await writeImage(path.join(outDir, `${stem(name)}.${format}`), result, depth, format);
+        if (values.metrics) console.log(JSON.stringify({ file: name, change }));
+      }
+    );
+    if (!quiet) console.error(`Filtered ${targets.count} frames`);
+    return;
+  }
+
+  if (command === 'upsample') {
+    if (!values.target || !values.guidance || !values.output) {
+      throw new UsageError('upsample needs --target, --guidance and -o');
+    }
+    const outputFormat = requireFormat(values.output);
+    if (outputFormat === 'ppm') {
+      throw new UsageError('upsample writes PNG or PFM output');
+    }
+    const depth = bitDepth(16);
+
+    const { image } = decodeGray(new Uint8Array(await readFile(values.target)), requireFormat(values.target));
+    const guidance = await readImage(values.guidance);
+    const result = await upsampleWithGuidance(image, guidance, params, progressReporter(path.basename(values.target), quiet));
+    await writeFile(
+      values.output,
+      outputFormat === 'pfm' ? encodeGrayPFM(result.target) : encodeGrayPNG(result.target, depth)
+    );
+    return;
+  }
+
+  if (command === 'bench') {
+    if (!values.target || !values.guidance) {
+      throw new UsageError('bench needs --target and --guidance');
+    }
+    const factors = (values.factors ?? '2,4,8').split(',').map(f => parseNumber('factors', f, 1));
+    const { target, guidance } = await readPair(values.target, values.guidance);
+
+    const run = async (subsample: number) => {
+      const startedAt = performance.now();
+      const result = await applyMutualStructureFilter(
+        target, guidance, { ...params, subsample }, progressReporter(`s=${subsample}`, quiet)
+      );
+      return { result, ms: performance.now() - startedAt };
+    };
+
+    const exact = await run(1);
+    const rows = [`s\ttime (ms)\tspeed-up\tPSNR vs exact (dB)`, `1\t${exact.ms.toFixed(0)}\t1.00x\t-`];
+    for (const factor of factors) {
+      const fast = await run(factor);
+      rows.push([
+        factor,
+        fast.ms.toFixed(0),
+        `${(exact.ms / fast.ms).toFixed(2)}x`,
+        psnr(exact.result.target, fast.result.target).toFixed(2)
+      ].join('\t'));
+    }
+    console.log(rows.join('\n'));
+    return;
+  }
+
+  throw new UsageError(`Unknown command "${command}"`);
+}
+
+/** Whether `err` is one of the errors `parseArgs` throws for a malformed command line. */
+const isParseArgsError = (err: unknown): err is Error =>
+  err instanceof Error && String((err as Error & { code?: unknown }).code).startsWith('ERR_PARSE_ARGS');
+
+main(process.argv.slice(2)).catch((err) => {
+  if (err instanceof UsageError || isParseArgsError(err)) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { AnalysisProviderName, AnalysisResult, FilterParams } from '../types';
+import { AnalysisProvider } from '../services/analysis';
+
+interface AnalysisPanelProps {
+  /** Providers usable in this build; 'Off' is always offered. */
+  providers: AnalysisProvider[];
+  choice: AnalysisProviderName;
+  onChoose: (choice: AnalysisProviderName) => void;
+  disabled: boolean;
+  analysing: boolean;
+  result: AnalysisResult | null;
+  onAnalyse: () => void;
+  onApply: (params: FilterParams) => void;
+}
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  providers,
+  choice,
+  onChoose,
+  disabled,
+  analysing,
+  result,
+  onAnalyse,
+  onApply
+}) => {
+  const provider = providers.find(p => p.name === choice);
+  const options: { name: AnalysisProviderName; label: string }[] = [{ name: 'off', label: 'Off' }, ...providers];
+
+  return (
+    <div className="bg-indigo-950/20 p-5 rounded-2xl border border-indigo-500/10 space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-indigo-400 text-[9px] font-black uppercase tracking-widest flex items-center gap-2">
+          <i className="fa-solid fa-wand-magic-sparkles"></i> Image Analysis
+        </h4>
+        <div className="flex gap-1 bg-gray-900 rounded-lg p-0.5 border border-gray-800">
+          {options.map(option => (
+            <button
+              key={option.name}
+              onClick={() => onChoose(option.name)}
+              className={`px-2 py-0.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all ${
+                choice === option.name ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {provider && (
+        <>
+          <button
+            disabled={disabled || analysing}
+            onClick={onAnalyse}
+            className="w-full py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+          >
+            <i className={`fa-solid ${analysing ? 'fa-compact-disc animate-spin' : 'fa-magnifying-glass-chart'}`}></i> Analyse Inputs
+          </button>
+          {provider.remote && (
+            <p className="text-[10px] text-gray-600">
+              Thumbnails of both images and their statistics are sent to {provider.label}.
+            </p>
+          )}
+        </>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400 leading-relaxed font-light">{result.summary}</p>
+          {result.suggestion && (
+            <div className="space-y-2">
+              <p className="text-[10px] font-mono text-gray-500">
+                r {result.suggestion.params.radius} · ε {result.suggestion.params.epsilon} · {result.suggestion.params.iterations} it
+              </p>
+              {result.suggestion.rationale && (
+                <p className="text-[10px] text-gray-500 leading-relaxed">{result.suggestion.rationale}</p>
+              )}
+              <button
+                onClick={() => result.suggestion && onApply(result.suggestion.params)}
+                className="w-full py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40"
+              >
+                Use Suggested Parameters
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
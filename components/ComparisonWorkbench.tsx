@@ -0,0 +1,382 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComparisonItem, ComparisonMode, FilterParams, PyramidLevel } from '../types';
+import { kernelSummary } from '../services/kernels';
+import { colormapGradient } from '../services/structureMaps';
+
+interface ComparisonWorkbenchProps {
+  items: ComparisonItem[];
+  /** Ids of the compared items; `first` is the left side of the wipe. */
+  first: string;
+  second: string;
+  onSelect: (first: string, second: string) => void;
+  /** Frame every image is drawn into, in image pixels, so panes line up. */
+  width: number;
+  height: number;
+  /** Reports screen pixels per image pixel whenever the zoom changes. */
+  onZoomChange?: (zoom: number) => void;
+}
+
+/** Screen pixels per image pixel, and the image point shown at the pane centre. */
+interface View {
+  scale: number;
+  cx: number;
+  cy: number;
+}
+
+const MODES: [ComparisonMode, string][] = [
+  ['wipe', 'Wipe'],
+  ['side-by-side', 'Side by Side'],
+  ['difference', 'Difference'],
+  ['flicker', 'Flicker']
+];
+
+const MAX_ZOOM = 32;
+const FLICKER_INTERVAL_MS = 500;
+/** Absolute differences are multiplied by this so small changes are visible. */
+const DIFFERENCE_GAIN = 4;
+const PANE_GAP = 4;
+
+const paramsSummary = (p: FilterParams, pyramid?: PyramidLevel[]) =>
+  `${pyramid ? pyramid.map(l => `r${l.radius}/ε${l.epsilon.toFixed(4)}`).join(' ') : `r${p.radius} · ε${p.epsilon.toFixed(4)}`} · ${p.iterations} it · ${p.guidanceMode === 'color' ? 'color' : 'lum'}${p.subsample > 1 ? ` · ${p.subsample}x` : ''}`;
+
+const formatValue = (v: number) => (Math.abs(v) >= 0.01 || v === 0 ? v.toFixed(3) : v.toExponential(2));
+
+/** Colorbar of an item's map, with its value at frame pixel (`x`, `y`) when hovered. */
+function mapLegend({ values, scale }: NonNullable<ComparisonItem['readout']>, hover: { x: number; y: number } | null, frameWidth: number, frameHeight: number) {
+  let value: string | null = null;
+  if (hover) {
+    // Maps may be stored at another size than the frame
+    const x = Math.min(values.width - 1, Math.floor((hover.x * values.width) / frameWidth));
+    const y = Math.min(values.height - 1, Math.floor((hover.y * values.height) / frameHeight));
+    value = `(${Math.floor(hover.x)}, ${Math.floor(hover.y)}) ${formatValue(values.data[y * values.width + x])}`;
+  }
+  return (
+    <span className="flex items-center gap-1.5">
+      <span>{formatValue(scale.min)}</span>
+      <span className="w-20 h-1.5 rounded-full" style={{ background: colormapGradient(scale.colormap) }}></span>
+      <span>{formatValue(scale.max)}</span>
+      {value && <span className="text-gray-300">{value}</span>}
+    </span>
+  );
+}
+
+const itemSummary = (item: ComparisonItem) =>
+  item.kernel ? kernelSummary(item.kernel) : item.params ? paramsSummary(item.params, item.pyramid) : '';
+
+async function loadPixels(src: string, width: number, height: number): Promise<Uint8ClampedArray> {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/** |a - b| per channel, amplified by `DIFFERENCE_GAIN`, as a PNG data URL. */
+async function differenceImage(a: string, b: string, width: number, height: number): Promise<string> {
+  const [pa, pb] = await Promise.all([loadPixels(a, width, height), loadPixels(b, width, height)]);
+  const out = new ImageData(width, height);
+  for (let i = 0; i < pa.length; i += 4) {
+    for (let c = 0; c < 3; c++) out.data[i + c] = Math.abs(pa[i + c] - pb[i + c]) * DIFFERENCE_GAIN;
+    out.data[i + 3] = 255;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.putImageData(out, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Compares two images from a run history. All panes share one view, so zoom
+ * (mouse wheel, about the cursor) and pan (drag) stay in sync between the
+ * sides; double-click fits the frame again. Images of other sizes, such as
+ * live previews, are stretched to the frame.
+ */
+const ComparisonWorkbench: React.FC<ComparisonWorkbenchProps> = ({
+  items,
+  first,
+  second,
+  onSelect,
+  width,
+  height,
+  onZoomChange
+}) => {
+  const [mode, setMode] = useState<ComparisonMode>('wipe');
+  const [view, setView] = useState<View>({ scale: 1, cx: width / 2, cy: height / 2 });
+  const [fitted, setFitted] = useState(true);
+  const [container, setContainer] = useState({ width: 0, height: 0 });
+  const [wipe, setWipe] = useState(50);
+  const [flickerSecond, setFlickerSecond] = useState(false);
+  const [difference, setDifference] = useState<string | null>(null);
+  /** Frame pixel under the cursor, for map readouts. */
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: View; wipe: boolean } | null>(null);
+
+  const a = items.find(item => item.id === first) ?? items[0];
+  const b = items.find(item => item.id === second) ?? items[0];
+
+  const pane = {
+    width: mode === 'side-by-side' ? (container.width - PANE_GAP) / 2 : container.width,
+    height: container.height
+  };
+  const fitScale = pane.width > 0 && pane.height > 0 ? Math.min(pane.width / width, pane.height / height) : 1;
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainer({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the frame fitted until the user zooms or pans
+  useEffect(() => {
+    if (fitted) setView({ scale: fitScale, cx: width / 2, cy: height / 2 });
+  }, [fitted, fitScale, width, height]);
+
+  useEffect(() => {
+    onZoomChange?.(view.scale);
+  }, [view.scale]);
+
+  useEffect(() => {
+    if (mode !== 'flicker') return;
+    const timer = setInterval(() => setFlickerSecond(shown => !shown), FLICKER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [mode]);
+
+  useEffect(() => {
+    if (mode !== 'difference' || !a || !b) return;
+    let cancelled = false;
+    setDifference(null);
+    differenceImage(a.src, b.src, width, height).then(
+      url => { if (!cancelled) setDifference(url); },
+      err => console.warn("Difference map failed", err)
+    );
+    return () => { cancelled = true; };
+  }, [mode, a?.src, b?.src, width, height]);
+
+  // React registers wheel listeners as passive, so zooming needs a native one to stop page scroll
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      const target = (e.target as HTMLElement).closest('[data-pane]');
+      if (!target) return;
+      e.preventDefault();
+      const rect = target.getBoundingClientRect();
+      const px = e.clientX - rect.left - rect.width / 2;
+      const py = e.clientY - rect.top - rect.height / 2;
+      setFitted(false);
+      setView(v => {
+        const scale = Math.min(MAX_ZOOM, Math.max(fitScale / 4, v.scale * Math.exp(-e.deltaY * 0.002)));
+        // Keep the image point under the cursor fixed
+        const ix = v.cx + px / v.scale;
+        const iy = v.cy + py / v.scale;
+        return { scale, cx: ix - px / scale, cy: iy - py / scale };
+      });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [fitScale]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, onDivider = false) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view, wipe: onDivider };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      const rect = (e.currentTarget.closest('[data-pane]') ?? e.currentTarget).getBoundingClientRect();
+      const x = view.cx + (e.clientX - rect.left - rect.width / 2) / view.scale;
+      const y = view.cy + (e.clientY - rect.top - rect.height / 2) / view.scale;
+      setHover(x >= 0 && y >= 0 && x < width && y < height ? { x, y } : null);
+      return;
+    }
+    if (drag.wipe) {
+      const rect = (e.currentTarget.closest('[data-pane]') ?? e.currentTarget).getBoundingClientRect();
+      setWipe(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+      return;
+    }
+    setFitted(false);
+    setView({
+      ...drag.view,
+      cx: drag.view.cx - (e.clientX - drag.x) / drag.view.scale,
+      cy: drag.view.cy - (e.clientY - drag.y) / drag.view.scale
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomTo = (scale: number) => {
+    setFitted(false);
+    setView(v => ({ ...v, scale }));
+  };
+
+  const image = (src: string, alt: string) => (
+    <img
+      src={src}
+      alt={alt}
+      draggable={false}
+      className="absolute left-0 top-0 max-w-none pointer-events-none"
+      style={{
+        width,
+        height,
+        transformOrigin: '0 0',
+        transform: `translate(${pane.width / 2 - view.cx * view.scale}px, ${pane.height / 2 - view.cy * view.scale}px) scale(${view.scale})`,
+        imageRendering: view.scale >= 2 ? 'pixelated' : 'auto'
+      }}
+    />
+  );
+
+  const tag = (label: string, side: 'left' | 'right', tone = 'bg-gray-800/80') => (
+    <div className={`absolute top-4 ${side === 'left' ? 'left-4' : 'right-4'} z-30 pointer-events-none px-2 py-1 ${tone} backdrop-blur rounded text-[9px] font-bold text-white uppercase tracking-tighter`}>
+      {label}
+    </div>
+  );
+
+  const paneProps = {
+    'data-pane': true,
+    className: 'relative flex-1 overflow-hidden bg-gray-900 rounded-xl cursor-grab active:cursor-grabbing select-none touch-none',
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => handlePointerDown(e),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerLeave: () => setHover(null),
+    onDoubleClick: () => setFitted(true)
+  };
+
+  const select = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-gray-950 border border-gray-800 rounded-md text-[10px] text-gray-300 px-2 py-1 max-w-[11rem]"
+    >
+      {items.map(item => (
+        <option key={item.id} value={item.id}>{item.label}</option>
+      ))}
+    </select>
+  );
+
+  if (!a || !b) return null;
+
+  return (
+    <div className="flex flex-col w-full h-full gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1 bg-gray-900 rounded-lg p-0.5 border border-gray-800">
+          {MODES.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all ${
+                mode === value ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {select(a.id, id => onSelect(id, b.id))}
+          <button
+            onClick={() => onSelect(b.id, a.id)}
+            title="Swap"
+            className="text-gray-500 hover:text-white text-xs"
+          >
+            <i className="fa-solid fa-right-left"></i>
+          </button>
+          {select(b.id, id => onSelect(a.id, id))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setFitted(true)}
+            className="px-2 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest border border-gray-800 text-gray-500 hover:text-white"
+          >
+            Fit
+          </button>
+          <button
+            onClick={() => zoomTo(1)}
+            className="px-2 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest border border-gray-800 text-gray-500 hover:text-white"
+          >
+            1:1
+          </button>
+        </div>
+      </div>
+
+      {(a.params || b.params || a.kernel || b.kernel) && (
+        <div className="flex justify-between text-[9px] font-mono text-gray-600">
+          <span>{itemSummary(a)}</span>
+          <span>{itemSummary(b)}</span>
+        </div>
+      )}
+
+      {(a.readout || b.readout) && (
+        <div className="flex justify-between text-[9px] font-mono text-gray-600">
+          <span>{a.readout && mapLegend(a.readout, hover, width, height)}</span>
+          <span>{b.readout && mapLegend(b.readout, hover, width, height)}</span>
+        </div>
+      )}
+
+      <div ref={containerRef} className="flex-1 min-h-0 flex" style={{ gap: PANE_GAP }}>
+        {mode === 'side-by-side' ? (
+          <>
+            <div {...paneProps}>
+              {image(a.src, a.label)}
+              {tag(a.label, 'left', 'bg-blue-600/80')}
+            </div>
+            <div {...paneProps}>
+              {image(b.src, b.label)}
+              {tag(b.label, 'right')}
+            </div>
+          </>
+        ) : mode === 'wipe' ? (
+          <div {...paneProps}>
+            {image(b.src, b.label)}
+            <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 ${100 - wipe}% 0 0)` }}>
+              {image(a.src, a.label)}
+            </div>
+            <div
+              className="absolute inset-y-0 z-20 w-0.5 bg-white/80 shadow-[0_0_10px_rgba(255,255,255,0.8)]"
+              style={{ left: `${wipe}%` }}
+            >
+              <div
+                onPointerDown={(e) => handlePointerDown(e, true)}
+                className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white rounded-full shadow-2xl flex items-center justify-center border-2 border-blue-600 cursor-col-resize touch-none"
+              >
+                <i className="fa-solid fa-grip-lines-vertical text-blue-600 text-xs"></i>
+              </div>
+            </div>
+            {tag(a.label, 'left', 'bg-blue-600/80')}
+            {tag(b.label, 'right')}
+          </div>
+        ) : mode === 'difference' ? (
+          <div {...paneProps}>
+            {difference ? image(difference, 'Difference') : (
+              <div className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-500">
+                <i className="fa-solid fa-compact-disc animate-spin mr-2"></i> Computing difference...
+              </div>
+            )}
+            {tag(`|${a.label} − ${b.label}| × ${DIFFERENCE_GAIN}`, 'left')}
+          </div>
+        ) : (
+          <div {...paneProps}>
+            {image((flickerSecond ? b : a).src, (flickerSecond ? b : a).label)}
+            {tag((flickerSecond ? b : a).label, flickerSecond ? 'right' : 'left', flickerSecond ? 'bg-gray-800/80' : 'bg-blue-600/80')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonWorkbench;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { EnhanceParams } from '../types';
+
+interface EnhancementPanelProps {
+  value: EnhanceParams;
+  onChange: (value: EnhanceParams) => void;
+}
+
+const SCALE_LABELS = ['Fine', 'Medium', 'Coarse'];
+
+const EnhancementPanel: React.FC<EnhancementPanelProps> = ({ value, onChange }) => {
+  const setScales = (count: number) => {
+    const gains = Array.from({ length: count }, (_, k) => value.gains[k] ?? value.gains[value.gains.length - 1] ?? 2);
+    onChange({ ...value, gains });
+  };
+
+  const setGain = (index: number, gain: number) => {
+    onChange({ ...value, gains: value.gains.map((g, k) => (k === index ? gain : g)) });
+  };
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-gray-800">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-bold text-gray-300">Detail Enhancement</label>
+        <button
+          onClick={() => onChange({ ...value, enabled: !value.enabled })}
+          className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border ${
+            value.enabled ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-800 text-gray-500 hover:text-white'
+          }`}
+        >
+          {value.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] text-gray-500">Scales</span>
+            <div className="flex gap-1">
+              {[1, 2, 3].map(count => (
+                <button
+                  key={count}
+                  onClick={() => setScales(count)}
+                  className={`w-7 py-1 rounded-md text-[10px] font-bold transition-all ${
+                    value.gains.length === count ? 'bg-blue-600 text-white' : 'bg-gray-950 text-gray-500 hover:text-white'
+                  }`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {value.gains.map((gain, k) => (
+            <div key={k} className="space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-gray-500">{value.gains.length > 1 ? `${SCALE_LABELS[k]} Gain` : 'Gain'}</span>
+                <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{gain.toFixed(1)}x</span>
+              </div>
+              <input
+                type="range" min="0" max="5" step="0.1"
+                value={gain}
+                onChange={(e) => setGain(k, parseFloat(e.target.value))}
+                className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          ))}
+
+          <p className="text-[10px] text-gray-600">
+            Detail is the target minus the filtered base; each extra scale re-filters the base at twice the radius. Overshoot is soft-clipped.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnhancementPanel;
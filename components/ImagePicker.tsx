@@ -44,7 +44,7 @@ const ImagePicker: React.FC<ImagePickerProps> = ({ label, image, onImageChange,
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept="image/*" 
+        accept="image/*,.pfm,.ppm,.pgm,.pnm" 
         className="hidden" 
       />
       <p className="text-[10px] text-gray-600 italic">{description}</p>
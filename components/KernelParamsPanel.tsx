@@ -0,0 +1,84 @@
+import React from 'react';
+import { KernelName, KernelValue } from '../types';
+import { FilterKernel } from '../services/kernels';
+
+interface KernelParamsPanelProps {
+  /** Kernels offered in the selector; it is hidden when there is only one. */
+  kernels: FilterKernel[];
+  kernel: FilterKernel;
+  values: Record<string, KernelValue>;
+  onKernelChange: (name: KernelName) => void;
+  onChange: (key: string, value: KernelValue) => void;
+}
+
+/** Kernel selector plus one control per entry of the selected kernel's parameter schema. */
+const KernelParamsPanel: React.FC<KernelParamsPanelProps> = ({ kernels, kernel, values, onKernelChange, onChange }) => (
+  <div className="space-y-6">
+    {kernels.length > 1 && (
+      <div className="space-y-3">
+        <label className="text-xs font-bold text-gray-300">Kernel</label>
+        <div className="grid grid-cols-2 gap-1 bg-gray-950 rounded-lg p-1 border border-gray-800">
+          {kernels.map(k => (
+            <button
+              key={k.name}
+              onClick={() => onKernelChange(k.name)}
+              className={`py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${
+                kernel.name === k.name ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'
+              }`}
+            >
+              {k.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-600">{kernel.description}</p>
+      </div>
+    )}
+
+    {kernel.params.map(spec => {
+      const value = values[spec.key] ?? kernel.defaults[spec.key];
+      if (spec.type === 'choice') {
+        return (
+          <div key={spec.key} className="space-y-3">
+            <label className="text-xs font-bold text-gray-300">{spec.label}</label>
+            <div
+              className="grid gap-1 bg-gray-950 rounded-lg p-1 border border-gray-800"
+              style={{ gridTemplateColumns: `repeat(${spec.options.length}, minmax(0, 1fr))` }}
+            >
+              {spec.options.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onChange(spec.key, option.value)}
+                  className={`py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${
+                    value === option.value ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {spec.hint && <p className="text-[10px] text-gray-600">{spec.hint}</p>}
+          </div>
+        );
+      }
+
+      const n = Number(value);
+      return (
+        <div key={spec.key} className="space-y-3">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-bold text-gray-300">{spec.label}</label>
+            <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{spec.format ? spec.format(n) : n}</span>
+          </div>
+          <input
+            type="range" min={spec.min} max={spec.max} step={spec.step}
+            value={n}
+            onChange={(e) => onChange(spec.key, parseFloat(e.target.value))}
+            className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+          {spec.hint && <p className="text-[10px] text-gray-600">{spec.hint}</p>}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default KernelParamsPanel;
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef } from 'react';
+import { ImageDataGray } from '../types';
+
+interface MaskEditorProps {
+  image: string;
+  mask: ImageDataGray | null;
+  /** Brush radius in image pixels. */
+  brushSize: number;
+  erase: boolean;
+  onChange: (mask: ImageDataGray) => void;
+}
+
+/**
+ * Paints a filter mask over the target. The mask lives in the alpha channel
+ * of a canvas at the image's natural size, shown as a translucent red overlay.
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, mask, brushSize, erase, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const emitted = useRef<ImageDataGray | null>(null);
+
+  const drawMask = () => {
+    const canvas = canvasRef.current;
+    const img = imageRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !img || !ctx || !img.naturalWidth) return;
+
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!mask) return;
+
+    // Masks of another size (uploaded files) are scaled onto the image
+    const source = document.createElement('canvas');
+    source.width = mask.width;
+    source.height = mask.height;
+    const pixels = new ImageData(mask.width, mask.height);
+    for (let i = 0; i < mask.data.length; i++) {
+      pixels.data[i * 4] = 255;
+      pixels.data[i * 4 + 3] = Math.min(255, Math.max(0, mask.data[i] * 255));
+    }
+    source.getContext('2d')?.putImageData(pixels, 0, 0);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  };
+
+  useEffect(() => {
+    // Skip the redraw for masks this editor just produced
+    if (mask !== emitted.current) drawMask();
+  }, [mask]);
+
+  const toImage = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  const stroke = (to: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPoint.current ?? to;
+    ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'rgb(255, 0, 0)';
+    ctx.lineWidth = brushSize * 2;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    lastPoint.current = to;
+  };
+
+  const finishStroke = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !lastPoint.current) return;
+    lastPoint.current = null;
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const values = new Float32Array(canvas.width * canvas.height);
+    for (let i = 0; i < values.length; i++) values[i] = data[i * 4 + 3] / 255;
+    const next = { data: values, width: canvas.width, height: canvas.height };
+    emitted.current = next;
+    onChange(next);
+  };
+
+  return (
+    <div className="relative w-full h-full flex items-center justify-center bg-gray-900 rounded-xl overflow-hidden select-none">
+      <div className="relative inline-block">
+        <img
+          ref={imageRef}
+          src={image}
+          alt="Mask target"
+          onLoad={drawMask}
+          draggable={false}
+          className="block max-w-full max-h-[620px] object-contain"
+        />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            stroke(toImage(e));
+          }}
+          onPointerMove={(e) => {
+            if (lastPoint.current) stroke(toImage(e));
+          }}
+          onPointerUp={finishStroke}
+          onPointerCancel={finishStroke}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+      <div className="absolute top-4 left-4 px-2 py-1 bg-red-600/80 backdrop-blur rounded text-[9px] font-bold text-white uppercase tracking-tighter pointer-events-none">
+        {erase ? 'Erasing Mask' : 'Painting Mask'}
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+
+interface MaskPanelProps {
+  hasMask: boolean;
+  editing: boolean;
+  brushSize: number;
+  erase: boolean;
+  onEditingChange: (editing: boolean) => void;
+  onBrushSizeChange: (size: number) => void;
+  onEraseChange: (erase: boolean) => void;
+  /** Called with a data URL of an uploaded mask image. */
+  onUpload: (image: string) => void;
+  onClear: () => void;
+}
+
+const MaskPanel: React.FC<MaskPanelProps> = ({
+  hasMask,
+  editing,
+  brushSize,
+  erase,
+  onEditingChange,
+  onBrushSizeChange,
+  onEraseChange,
+  onUpload,
+  onClear
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        if (event.target?.result) onUpload(event.target.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-gray-800">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-bold text-gray-300">Region Mask</label>
+        <span className="text-[10px] text-gray-500">{hasMask ? 'Active' : 'Whole image'}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        <button
+          onClick={() => onEditingChange(!editing)}
+          className={`py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border ${
+            editing ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-800 text-gray-500 hover:text-white'
+          }`}
+        >
+          <i className="fa-solid fa-paintbrush"></i> Paint
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white"
+        >
+          <i className="fa-solid fa-upload"></i> Upload
+        </button>
+        <button
+          disabled={!hasMask}
+          onClick={onClear}
+          className="py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+        >
+          <i className="fa-solid fa-xmark"></i> Clear
+        </button>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept="image/*,.pfm,.ppm,.pgm,.pnm"
+        className="hidden"
+      />
+
+      {editing && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-1 bg-gray-950 rounded-lg p-1 border border-gray-800">
+            {([[false, 'Include'], [true, 'Exclude']] as const).map(([value, label]) => (
+              <button
+                key={label}
+                onClick={() => onEraseChange(value)}
+                className={`py-1.5 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all ${
+                  erase === value ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-[10px] text-gray-500">Brush</span>
+              <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{brushSize}px</span>
+            </div>
+            <input
+              type="range" min="2" max="100" step="1"
+              value={brushSize}
+              onChange={(e) => onBrushSizeChange(parseInt(e.target.value))}
+              className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] text-gray-600">
+        Only the masked region is filtered, and pixels outside it are left out of the window statistics so the background does not bleed into the subject. Uploaded masks are read as grayscale, white meaning filtered.
+      </p>
+    </div>
+  );
+};
+
+export default MaskPanel;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { FilterMetrics } from '../types';
+
+interface MetricsPanelProps {
+  metrics: FilterMetrics;
+  /** Metrics of the run before, to show how the last change moved each measure. */
+  previous?: FilterMetrics;
+}
+
+const ROWS: { label: string; hint: string; value: (m: FilterMetrics) => number; input?: (m: FilterMetrics) => number; digits: number }[] = [
+  { label: 'PSNR', hint: 'dB vs target, higher keeps more of it', value: m => m.psnr, digits: 2 },
+  { label: 'SSIM', hint: 'structural similarity to target', value: m => m.ssim, digits: 4 },
+  {
+    label: 'Gradient Corr.',
+    hint: 'edges shared with guidance',
+    value: m => m.gradientCorrelation,
+    input: m => m.input.gradientCorrelation,
+    digits: 3
+  },
+  {
+    label: 'Rel. Total Var.',
+    hint: 'texture left, lower is smoother',
+    value: m => m.relativeTotalVariation,
+    input: m => m.input.relativeTotalVariation,
+    digits: 3
+  }
+];
+
+const format = (v: number, digits: number) => (Number.isFinite(v) ? v.toFixed(digits) : '∞');
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, previous }) => {
+  const suppression = 1 - metrics.relativeTotalVariation / metrics.input.relativeTotalVariation;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl space-y-4">
+      <h2 className="text-[10px] font-black uppercase text-gray-500 tracking-[0.2em] flex items-center gap-2">
+        <i className="fa-solid fa-chart-simple text-blue-500"></i> Metrics
+      </h2>
+      <div className="space-y-3">
+        {ROWS.map(({ label, hint, value, input, digits }) => {
+          const delta = previous ? value(metrics) - value(previous) : 0;
+          return (
+            <div key={label} className="flex justify-between items-start gap-3">
+              <div>
+                <p className="text-xs font-bold text-gray-300">{label}</p>
+                <p className="text-[10px] text-gray-600">{hint}</p>
+              </div>
+              <div className="text-right font-mono">
+                <p className="text-xs text-blue-400">
+                  {input && <span className="text-gray-600">{format(input(metrics), digits)} → </span>}
+                  {format(value(metrics), digits)}
+                </p>
+                {previous && Number.isFinite(delta) && delta !== 0 && (
+                  <p className="text-[9px] text-gray-600">{delta > 0 ? '+' : ''}{delta.toFixed(digits)} vs last run</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {Number.isFinite(suppression) && (
+        <p className="text-[10px] text-gray-600">
+          Texture suppressed: <span className="font-mono text-gray-400">{(suppression * 100).toFixed(1)}%</span> of the target's relative total variation.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { Preset } from '../types';
+
+interface PresetPanelProps {
+  presets: Preset[];
+  onApply: (preset: Preset) => void;
+  /** Saves the current parameters under `name`, replacing a user preset of that name. */
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  /** Called with the text of an imported JSON file. */
+  onImport: (json: string) => void;
+  onExport: () => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ presets, onApply, onSave, onDelete, onImport, onExport }) => {
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const current = presets.find(p => p.name === selected);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) file.text().then(onImport);
+    e.target.value = '';
+  };
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setSelected(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-bold text-gray-300">Presets</label>
+      <div className="flex gap-1">
+        <select
+          value={selected}
+          onChange={(e) => {
+            setSelected(e.target.value);
+            const preset = presets.find(p => p.name === e.target.value);
+            if (preset) onApply(preset);
+          }}
+          className="flex-1 bg-gray-950 border border-gray-800 rounded-md text-[10px] text-gray-300 px-2 py-1.5"
+        >
+          <option value="" disabled>Choose a preset...</option>
+          {presets.map(preset => (
+            <option key={`${preset.builtIn ? 'built-in' : 'user'}:${preset.name}`} value={preset.name}>
+              {preset.name}{preset.mode === 'upsample' ? ' (upsample)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          disabled={!current || current.builtIn}
+          onClick={() => { if (current) onDelete(current.name); setSelected(''); }}
+          title="Delete preset"
+          className="px-2 rounded-md border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+        >
+          <i className="fa-solid fa-trash text-[10px]"></i>
+        </button>
+      </div>
+      <div className="flex gap-1">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          placeholder="Save current as..."
+          className="flex-1 min-w-0 bg-gray-950 border border-gray-800 rounded-md text-[10px] text-gray-300 px-2 py-1.5"
+        />
+        <button
+          disabled={!name.trim()}
+          onClick={save}
+          className="px-3 rounded-md text-[9px] font-bold uppercase tracking-widest border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+        >
+          Save
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-1">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white"
+        >
+          <i className="fa-solid fa-file-import"></i> Import
+        </button>
+        <button
+          disabled={presets.every(p => p.builtIn)}
+          onClick={onExport}
+          className="py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+        >
+          <i className="fa-solid fa-file-export"></i> Export
+        </button>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept="application/json,.json"
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default PresetPanel;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { PyramidLevel, PyramidParams } from '../types';
+import { MAX_PYRAMID_LEVELS } from '../services/pyramid';
+
+interface PyramidPanelProps {
+  value: PyramidParams;
+  onChange: (value: PyramidParams) => void;
+}
+
+const levelLabel = (k: number) => (k === 0 ? 'Full Resolution' : `Level ${k} · 1/${2 ** k}`);
+
+const PyramidPanel: React.FC<PyramidPanelProps> = ({ value, onChange }) => {
+  const setCount = (count: number) => {
+    const levels = Array.from({ length: count }, (_, k) => value.levels[k] ?? value.levels[value.levels.length - 1]);
+    onChange({ ...value, levels });
+  };
+
+  const setLevel = (index: number, change: Partial<PyramidLevel>) => {
+    onChange({ ...value, levels: value.levels.map((level, k) => (k === index ? { ...level, ...change } : level)) });
+  };
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-gray-800">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-bold text-gray-300">Pyramid</label>
+        <button
+          onClick={() => onChange({ ...value, enabled: !value.enabled })}
+          className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border ${
+            value.enabled ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-800 text-gray-500 hover:text-white'
+          }`}
+        >
+          {value.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] text-gray-500">Levels</span>
+            <div className="flex gap-1">
+              {Array.from({ length: MAX_PYRAMID_LEVELS - 1 }, (_, k) => k + 2).map(count => (
+                <button
+                  key={count}
+                  onClick={() => setCount(count)}
+                  className={`w-7 py-1 rounded-md text-[10px] font-bold transition-all ${
+                    value.levels.length === count ? 'bg-blue-600 text-white' : 'bg-gray-950 text-gray-500 hover:text-white'
+                  }`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {value.levels.map((level, k) => (
+            <div key={k} className="space-y-2">
+              <span className="text-[10px] text-gray-500">{levelLabel(k)}</span>
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-gray-600">Radius</span>
+                <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{level.radius}px</span>
+              </div>
+              <input
+                type="range" min="1" max="20" step="1"
+                value={level.radius}
+                onChange={(e) => setLevel(k, { radius: parseInt(e.target.value) })}
+                className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-gray-600">Smoothness</span>
+                <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{level.epsilon.toFixed(4)}</span>
+              </div>
+              <input
+                type="range" min="0.0001" max="0.05" step="0.0001"
+                value={level.epsilon}
+                onChange={(e) => setLevel(k, { epsilon: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          ))}
+
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] text-gray-500">Per-Level Layers</span>
+            <button
+              onClick={() => onChange({ ...value, keepLevels: !value.keepLevels })}
+              className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border ${
+                value.keepLevels ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-800 text-gray-500 hover:text-white'
+              }`}
+            >
+              {value.keepLevels ? 'On' : 'Off'}
+            </button>
+          </div>
+
+          <p className="text-[10px] text-gray-600">
+            Filters a Gaussian pyramid from coarse to fine, each level starting from the one below. Radii are in each level's own pixels and replace Radius and Smoothness above; the other parameters apply to every level.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PyramidPanel;
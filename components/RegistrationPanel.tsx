@@ -0,0 +1,107 @@
+import React from 'react';
+import { Registration, RegistrationModel, RegistrationNudge } from '../types';
+import { NUDGE_RANGES } from '../services/registration';
+
+interface RegistrationPanelProps {
+  registration: Registration | null;
+  nudge: RegistrationNudge;
+  aligning: boolean;
+  showOverlay: boolean;
+  /** Estimates a transform, or with 'manual' starts from the plain stretch. */
+  onAlign: (model: RegistrationModel | 'manual') => void;
+  onNudgeChange: (nudge: RegistrationNudge) => void;
+  onShowOverlayChange: (show: boolean) => void;
+  onReset: () => void;
+}
+
+const NUDGE_CONTROLS: { key: keyof RegistrationNudge; label: string; step: number; format: (v: number) => string }[] = [
+  { key: 'dx', label: 'Shift X', step: 0.5, format: v => `${v}px` },
+  { key: 'dy', label: 'Shift Y', step: 0.5, format: v => `${v}px` },
+  { key: 'rotation', label: 'Rotation', step: 0.1, format: v => `${v.toFixed(1)}°` },
+  { key: 'scale', label: 'Scale', step: 0.001, format: v => `${v.toFixed(3)}x` }
+];
+
+const RegistrationPanel: React.FC<RegistrationPanelProps> = ({
+  registration,
+  nudge,
+  aligning,
+  showOverlay,
+  onAlign,
+  onNudgeChange,
+  onShowOverlayChange,
+  onReset
+}) => {
+  return (
+    <div className="space-y-4 pt-6 border-t border-gray-800">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-bold text-gray-300">Registration</label>
+        {registration ? (
+          <button
+            onClick={onReset}
+            className="text-[10px] text-gray-500 hover:text-white"
+          >
+            Reset
+          </button>
+        ) : (
+          <span className="text-[10px] text-gray-500">Stretch only</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {([['similarity', 'Similarity'], ['homography', 'Homography'], ['manual', 'Manual']] as const).map(([model, label]) => (
+          <button
+            key={model}
+            disabled={aligning}
+            onClick={() => onAlign(model)}
+            className="py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {aligning && (
+        <p className="text-[10px] text-blue-400 flex items-center gap-2">
+          <i className="fa-solid fa-compact-disc animate-spin"></i> Estimating transform...
+        </p>
+      )}
+
+      {registration && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] text-gray-500">Overlay</span>
+            <button
+              onClick={() => onShowOverlayChange(!showOverlay)}
+              className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border ${
+                showOverlay ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-800 text-gray-500 hover:text-white'
+              }`}
+            >
+              {showOverlay ? 'On' : 'Off'}
+            </button>
+          </div>
+
+          {NUDGE_CONTROLS.map(({ key, label, step, format }) => (
+            <div key={key} className="space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-gray-500">{label}</span>
+                <span className="text-xs font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{format(nudge[key])}</span>
+              </div>
+              <input
+                type="range" min={NUDGE_RANGES[key][0]} max={NUDGE_RANGES[key][1]} step={step}
+                value={nudge[key]}
+                onChange={(e) => onNudgeChange({ ...nudge, [key]: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          ))}
+
+          <p className="text-[10px] text-gray-600">
+            The overlay shows the target in magenta and the aligned guidance in green; matching edges turn gray. Nudges move the guidance on top of the estimated transform.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegistrationPanel;
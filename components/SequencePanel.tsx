@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { TemporalParams } from '../types';
+import { MAX_SEQUENCE_FRAMES } from '../services/sequence';
+
+interface SequencePanelProps {
+  disabled: boolean;
+  /** Whether a guidance still is loaded, which stands in when no guidance stream is picked. */
+  hasGuidanceImage: boolean;
+  temporal: TemporalParams;
+  onTemporalChange: (temporal: TemporalParams) => void;
+  fps: number;
+  onFpsChange: (fps: number) => void;
+  /** Target frames, and guidance frames or null to reuse the guidance still. */
+  onRun: (targets: File[], guidance: File[] | null) => void;
+  hasResults: boolean;
+  onShowResults: () => void;
+}
+
+const describe = (files: File[]) =>
+  files.length === 1 && files[0].type.startsWith('video/') ? files[0].name : `${files.length} frames`;
+
+const SequencePanel: React.FC<SequencePanelProps> = ({
+  disabled,
+  hasGuidanceImage,
+  temporal,
+  onTemporalChange,
+  fps,
+  onFpsChange,
+  onRun,
+  hasResults,
+  onShowResults
+}) => {
+  const [targets, setTargets] = useState<File[]>([]);
+  const [guidance, setGuidance] = useState<File[]>([]);
+  const targetInputRef = useRef<HTMLInputElement>(null);
+  const guidanceInputRef = useRef<HTMLInputElement>(null);
+
+  const pick = (set: (files: File[]) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    set(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+  const hasVideo = [...targets, ...guidance].some(file => file.type.startsWith('video/'));
+  const ready = targets.length > 0 && (guidance.length > 0 || hasGuidanceImage);
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-gray-800">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-bold text-gray-300">Sequence</label>
+        {hasResults && (
+          <button onClick={onShowResults} className="text-[10px] text-gray-500 hover:text-white">
+            Show frames
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        {([
+          ['Target', targets, targetInputRef],
+          ['Guidance', guidance, guidanceInputRef]
+        ] as const).map(([label, files, ref]) => (
+          <button
+            key={label}
+            onClick={() => ref.current?.click()}
+            className="py-1.5 px-2 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white truncate"
+          >
+            <i className="fa-solid fa-film"></i> {files.length ? describe(files) : label}
+          </button>
+        ))}
+      </div>
+      <input type="file" ref={targetInputRef} onChange={pick(setTargets)} accept="image/*,video/*,.pfm,.ppm,.pgm" multiple className="hidden" />
+      <input type="file" ref={guidanceInputRef} onChange={pick(setGuidance)} accept="image/*,video/*,.pfm,.ppm,.pgm" multiple className="hidden" />
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] text-gray-500">Temporal stabilisation</span>
+          <span className="text-[10px] font-mono text-gray-400">{Math.round(temporal.strength * 100)}%</span>
+        </div>
+        <input
+          type="range" min="0" max="0.95" step="0.05"
+          value={temporal.strength}
+          onChange={(e) => onTemporalChange({ ...temporal, strength: parseFloat(e.target.value) })}
+          className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+        />
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] text-gray-500">Motion tolerance</span>
+          <span className="text-[10px] font-mono text-gray-400">{temporal.sigma.toFixed(3)}</span>
+        </div>
+        <input
+          type="range" min="0.005" max="0.2" step="0.005"
+          value={temporal.sigma}
+          onChange={(e) => onTemporalChange({ ...temporal, sigma: parseFloat(e.target.value) })}
+          className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+        />
+        {hasVideo && (
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] text-gray-500 flex-1">Video frames per second</span>
+            <input
+              type="number" min="1" max="60"
+              value={fps}
+              onChange={(e) => onFpsChange(Math.min(60, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-16 bg-gray-950 border border-gray-800 rounded-md text-[10px] font-mono text-gray-300 px-2 py-1"
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        disabled={disabled || !ready}
+        onClick={() => onRun(targets, guidance.length ? guidance : null)}
+        className="w-full py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+      >
+        <i className="fa-solid fa-forward"></i> Filter Sequence
+      </button>
+
+      <p className="text-[10px] text-gray-600">
+        Pick a video or a numbered image series (up to {MAX_SEQUENCE_FRAMES} frames). Without a guidance stream, the guidance image above is used for every frame. Stabilisation carries the previous output into regions that did not change.
+      </p>
+    </div>
+  );
+};
+
+export default SequencePanel;
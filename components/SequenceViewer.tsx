@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { ComparisonItem, SequenceViewFrame } from '../types';
+import ComparisonWorkbench from './ComparisonWorkbench';
+
+interface SequenceViewerProps {
+  frames: SequenceViewFrame[];
+  /** Frames still to come, while the sequence is being filtered. */
+  total: number;
+  width: number;
+  height: number;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+/** Playback interval, in milliseconds. */
+const PLAY_INTERVAL_MS = 100;
+
+/** Steps through a filtered sequence in the comparison workbench, input against result. */
+const SequenceViewer: React.FC<SequenceViewerProps> = ({ frames, total, width, height, onExport, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [comparison, setComparison] = useState({ first: 'frame:result', second: 'frame:input' });
+  const current = frames[Math.min(index, frames.length - 1)];
+
+  useEffect(() => {
+    if (!playing || frames.length < 2) return;
+    const timer = setInterval(() => setIndex(i => (i + 1) % frames.length), PLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [playing, frames.length]);
+
+  if (!current) return null;
+  const items: ComparisonItem[] = [
+    { id: 'frame:input', label: `${current.name} · input`, src: current.input },
+    { id: 'frame:result', label: `${current.name} · result`, src: current.result }
+  ];
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 bg-gray-950 p-3 min-h-0">
+        <ComparisonWorkbench
+          items={items}
+          first={comparison.first}
+          second={comparison.second}
+          onSelect={(first, second) => setComparison({ first, second })}
+          width={width}
+          height={height}
+        />
+      </div>
+      <div className="p-3 bg-gray-950 border-t border-gray-800 flex items-center gap-4 px-6">
+        <button onClick={() => setPlaying(!playing)} className="text-gray-400 hover:text-white w-4">
+          <i className={`fa-solid ${playing ? 'fa-pause' : 'fa-play'} text-xs`}></i>
+        </button>
+        <input
+          type="range" min="0" max={frames.length - 1} step="1"
+          value={Math.min(index, frames.length - 1)}
+          onChange={(e) => { setPlaying(false); setIndex(parseInt(e.target.value)); }}
+          className="flex-1 h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+        />
+        <span className="text-[9px] text-gray-500 font-mono whitespace-nowrap">
+          {Math.min(index, frames.length - 1) + 1}/{total} · Δ {current.change.toFixed(4)}
+        </span>
+        <button
+          disabled={frames.length < total}
+          onClick={onExport}
+          className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-[10px] font-black uppercase tracking-tighter transition-all disabled:opacity-40"
+        >
+          <i className="fa-solid fa-file-zipper"></i> Export ZIP
+        </button>
+        <button onClick={onClose} className="text-[10px] text-gray-500 hover:text-white">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SequenceViewer;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { SweepAxes } from '../types';
+import { MAX_SWEEP_CELLS, parseSweepValues, SWEEP_MAX_SIZE } from '../services/sweep';
+
+interface SweepPanelProps {
+  disabled: boolean;
+  hasResults: boolean;
+  onRun: (axes: SweepAxes) => void;
+  onShowResults: () => void;
+}
+
+const FIELDS: { key: keyof SweepAxes; label: string }[] = [
+  { key: 'radius', label: 'Radius' },
+  { key: 'epsilon', label: 'Epsilon' },
+  { key: 'iterations', label: 'Iterations' }
+];
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ disabled, hasResults, onRun, onShowResults }) => {
+  const [text, setText] = useState<Record<keyof SweepAxes, string>>({
+    radius: '2, 4, 8',
+    epsilon: '0.001, 0.005, 0.02',
+    iterations: '3'
+  });
+
+  let axes: SweepAxes | null = null;
+  let error: string | null = null;
+  try {
+    axes = {
+      radius: parseSweepValues(text.radius, 'Radius'),
+      epsilon: parseSweepValues(text.epsilon, 'Epsilon'),
+      iterations: parseSweepValues(text.iterations, 'Iterations')
+    };
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+  const count = axes ? axes.radius.length * axes.epsilon.length * axes.iterations.length : 0;
+  if (axes && count > MAX_SWEEP_CELLS) error = `${count} combinations; at most ${MAX_SWEEP_CELLS}`;
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-gray-800">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-bold text-gray-300">Parameter Sweep</label>
+        {hasResults && (
+          <button onClick={onShowResults} className="text-[10px] text-gray-500 hover:text-white">
+            Show sheet
+          </button>
+        )}
+      </div>
+
+      {FIELDS.map(({ key, label }) => (
+        <div key={key} className="flex items-center gap-3">
+          <span className="text-[10px] text-gray-500 w-16">{label}</span>
+          <input
+            value={text[key]}
+            onChange={(e) => setText({ ...text, [key]: e.target.value })}
+            className="flex-1 min-w-0 bg-gray-950 border border-gray-800 rounded-md text-[10px] font-mono text-gray-300 px-2 py-1"
+          />
+        </div>
+      ))}
+
+      <button
+        disabled={disabled || !axes || error !== null}
+        onClick={() => axes && onRun(axes)}
+        className="w-full py-1.5 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all border border-gray-800 text-gray-500 hover:text-white disabled:opacity-40"
+      >
+        <i className="fa-solid fa-table-cells"></i> Run {count || ''} Combinations
+      </button>
+
+      <p className={`text-[10px] ${error ? 'text-red-400' : 'text-gray-600'}`}>
+        {error ?? `Each combination is filtered at up to ${SWEEP_MAX_SIZE}px, with the other parameters as set above. Click a cell to use its parameters.`}
+      </p>
+    </div>
+  );
+};
+
+export default SweepPanel;
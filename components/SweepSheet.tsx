@@ -0,0 +1,76 @@
+import React from 'react';
+import { FilterParams, SweepAxes, SweepCell } from '../types';
+
+interface SweepSheetProps {
+  axes: SweepAxes;
+  /** Filtered so far, in `sweepGrid` order; missing cells are still running. */
+  cells: SweepCell[];
+  onPick: (params: FilterParams) => void;
+  onClose: () => void;
+}
+
+/**
+ * Contact sheet of a parameter sweep: one table per iteration count, radius
+ * down the rows and epsilon across the columns.
+ */
+const SweepSheet: React.FC<SweepSheetProps> = ({ axes, cells, onPick, onClose }) => {
+  const perSheet = axes.radius.length * axes.epsilon.length;
+
+  return (
+    <div className="flex-1 bg-gray-950 p-4 overflow-auto">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-[10px] font-black uppercase text-gray-500 tracking-[0.2em]">
+          Sweep · {cells.length}/{perSheet * axes.iterations.length}
+        </h3>
+        <button onClick={onClose} className="text-[10px] text-gray-500 hover:text-white">
+          <i className="fa-solid fa-xmark mr-1"></i>Close
+        </button>
+      </div>
+
+      {axes.iterations.map((iterations, sheet) => (
+        <div key={iterations} className="mb-6">
+          <p className="text-[10px] text-gray-500 mb-2">{iterations} iteration{iterations === 1 ? '' : 's'}</p>
+          <div
+            className="grid gap-2 items-center"
+            style={{ gridTemplateColumns: `auto repeat(${axes.epsilon.length}, minmax(0, 1fr))` }}
+          >
+            <span></span>
+            {axes.epsilon.map(epsilon => (
+              <span key={epsilon} className="text-[9px] font-mono text-gray-500 text-center">ε {epsilon}</span>
+            ))}
+            {axes.radius.map((radius, row) => (
+              <React.Fragment key={radius}>
+                <span className="text-[9px] font-mono text-gray-500 pr-1">r {radius}</span>
+                {axes.epsilon.map((epsilon, column) => {
+                  const cell = cells[sheet * perSheet + row * axes.epsilon.length + column];
+                  return cell ? (
+                    <button
+                      key={epsilon}
+                      onClick={() => onPick(cell.params)}
+                      title="Use these parameters"
+                      className="group rounded-lg overflow-hidden border border-gray-800 hover:border-blue-500 bg-gray-900 text-left"
+                    >
+                      <img src={cell.src} alt={`r ${radius}, ε ${epsilon}`} className="w-full block" />
+                      {cell.metrics && (
+                        <div className="px-1.5 py-1 text-[8px] font-mono text-gray-500 flex justify-between">
+                          <span>{cell.metrics.psnr.toFixed(1)} dB</span>
+                          <span>RTV {cell.metrics.relativeTotalVariation.toFixed(2)}</span>
+                        </div>
+                      )}
+                    </button>
+                  ) : (
+                    <div key={epsilon} className="aspect-video rounded-lg border border-gray-800 bg-gray-900 flex items-center justify-center">
+                      <i className="fa-solid fa-compact-disc animate-spin text-gray-700"></i>
+                    </div>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SweepSheet;
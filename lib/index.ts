@@ -0,0 +1,193 @@
+/**
+ * Library entry point of the mutual-structure joint filter.
+ *
+ * Nothing here depends on React, the DOM or a worker: images go in and come
+ * out as float channels in [0, 1] (see `ImageDataRGB`), and the codecs read
+ * and write PNG, Netpbm and PFM bytes, so the module runs as it is in Node,
+ * Deno, workers and bundlers alike. The app and the CLI are built on the same
+ * services. The package's `exports` point at this module as bundled by
+ * `npm run build:lib`.
+ *
+ * Every call validates its options object before doing any work and throws
+ * an `MsjfError` subclass whose `code` says what was wrong:
+ *
+ *   INVALID_OPTIONS    the options object itself (unknown key, wrong type)
+ *   INVALID_PARAM      a filter, kernel or pyramid parameter out of range
+ *   INVALID_EPSILON    epsilon missing or not positive
+ *   RADIUS_TOO_LARGE   a window wider than the image
+ *   INVALID_IMAGE      dimensions or channel lengths that do not agree
+ *   SIZE_MISMATCH      guidance or mask at a different size from the target
+ *   NON_FINITE_PIXELS  NaN or infinite samples
+ */
+import {
+  FilterParams, FilterProgress, ImageDataGray, ImageDataRGB, KernelSettings, KernelValue, MutualFilterResult, PyramidLevel
+} from '../types';
+import { OptionsError } from '../services/errors';
+import { DEFAULT_PARAMS, validateParams } from '../services/presets';
+import { getKernel, isKernelName, validateKernelValues } from '../services/kernels';
+import { applyPyramidFilter, validatePyramidLevels } from '../services/pyramid';
+import { applyMutualStructureFilterTiled, DEFAULT_TILE_SIZE } from '../services/tiling';
+import { upsampleWithGuidance } from '../services/upsample';
+import { checkFilterImages, checkFilterInputs, checkImage } from '../services/validation';
+
+export type {
+  FilterMetrics, FilterParams, FilterProgress, GuidanceMode, ImageDataGray, ImageDataRGB, KernelName, KernelSettings,
+  KernelValue, MsjfErrorCode, MutualFilterResult, PyramidLevel, StructureMaps
+} from '../types';
+export { ImageError, MsjfError, OptionsError, ParamError } from '../services/errors';
+export { DEFAULT_PARAMS } from '../services/presets';
+export { KERNELS } from '../services/kernels';
+export { DEFAULT_PYRAMID, MAX_PYRAMID_LEVELS } from '../services/pyramid';
+export { DEFAULT_TILE_SIZE } from '../services/tiling';
+export { decodeGray, decodeImage, encodeGrayPFM, encodeGrayPNG, encodeImage, formatFromFileName } from '../services/codecs';
+export type { ImageFormat } from '../services/codecs';
+export { computeMetrics } from '../services/metrics';
+export { structureMaps } from '../services/filters';
+
+/** Smallest tile edge `filter` accepts. */
+const MIN_TILE_SIZE = 16;
+
+export interface FilterOptions {
+  target: ImageDataRGB;
+  guidance: ImageDataRGB;
+  /** Filter parameters; missing ones are taken from `DEFAULT_PARAMS`. */
+  params?: Partial<FilterParams>;
+  /** Region to filter, in [0, 1] at the target's size. */
+  mask?: ImageDataGray;
+  /** A baseline kernel to run instead of the mutual-structure filter; `params` is then unused. */
+  kernel?: { name: string; values?: Record<string, KernelValue> };
+  /** Filter coarse to fine over these levels, full resolution first. */
+  pyramid?: PyramidLevel[];
+  /** Edge length of the tiles large images are filtered in (default `DEFAULT_TILE_SIZE`). */
+  tileSize?: number;
+  onProgress?: (p: number, detail?: FilterProgress) => void;
+  /** Aborting rejects the call with the signal's reason at the next box-filter pass. */
+  signal?: AbortSignal;
+}
+
+export interface UpsampleOptions {
+  /** The low-resolution map, in any units and at any size. */
+  target: ImageDataGray;
+  guidance: ImageDataRGB;
+  params?: Partial<FilterParams>;
+  onProgress?: (p: number, detail?: FilterProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** `FilterOptions` after `validateFilterOptions`: every setting present and checked. */
+export interface ValidatedFilterOptions {
+  target: ImageDataRGB;
+  guidance: ImageDataRGB;
+  params: FilterParams;
+  mask?: ImageDataGray;
+  kernel?: KernelSettings;
+  pyramid?: PyramidLevel[];
+  tileSize: number;
+  onProgress: (p: number, detail?: FilterProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface FilterOutput extends MutualFilterResult {
+  /** Target results of the coarser pyramid levels, fine to coarse; empty without `pyramid`. */
+  levels: ImageDataRGB[];
+}
+
+const FILTER_KEYS = ['target', 'guidance', 'params', 'mask', 'kernel', 'pyramid', 'tileSize', 'onProgress', 'signal'];
+const UPSAMPLE_KEYS = ['target', 'guidance', 'params', 'onProgress', 'signal'];
+
+/** Checks the keys and callback types shared by both entry points. */
+function checkOptionsObject(options: unknown, keys: string[]): Record<string, unknown> {
+  if (typeof options !== 'object' || options === null) {
+    throw new OptionsError('options', 'Options must be an object');
+  }
+  const o = options as Record<string, unknown>;
+  const unknown = Object.keys(o).find(key => !keys.includes(key));
+  if (unknown) throw new OptionsError(unknown, `Unknown option "${unknown}"; expected one of ${keys.join(', ')}`);
+  if (o.params !== undefined && (typeof o.params !== 'object' || o.params === null)) {
+    throw new OptionsError('params', 'params must be an object');
+  }
+  if (o.onProgress !== undefined && typeof o.onProgress !== 'function') {
+    throw new OptionsError('onProgress', 'onProgress must be a function');
+  }
+  if (o.signal !== undefined && !(o.signal instanceof AbortSignal)) {
+    throw new OptionsError('signal', 'signal must be an AbortSignal');
+  }
+  return o;
+}
+
+/**
+ * Checks `options` for `filter` and fills in the defaults. Throws the
+ * `MsjfError` of the first problem found, images included, so a call that
+ * passes will not fail on its inputs.
+ */
+export function validateFilterOptions(options: unknown): ValidatedFilterOptions {
+  const o = checkOptionsObject(options, FILTER_KEYS);
+  const target = o.target as ImageDataRGB;
+  const guidance = o.guidance as ImageDataRGB;
+  const mask = o.mask as ImageDataGray | undefined;
+  const params = validateParams({ ...DEFAULT_PARAMS, ...(o.params as Partial<FilterParams> | undefined) });
+
+  let kernel: KernelSettings | undefined;
+  if (o.kernel !== undefined) {
+    const { name, values = {} } = (o.kernel ?? {}) as { name?: unknown; values?: Record<string, KernelValue> };
+    if (typeof name !== 'string' || !isKernelName(name)) {
+      throw new OptionsError('kernel', `Unknown kernel ${JSON.stringify(name)}`);
+    }
+    if (name === 'msjf') throw new OptionsError('kernel', 'Set mutual-structure parameters with params, not kernel');
+    kernel = validateKernelValues(name, values);
+  }
+
+  const pyramid = o.pyramid === undefined ? undefined : validatePyramidLevels(o.pyramid);
+  if (kernel && pyramid) throw new OptionsError('pyramid', 'pyramid needs the mutual-structure filter, not a baseline kernel');
+
+  const tileSize = o.tileSize ?? DEFAULT_TILE_SIZE;
+  if (typeof tileSize !== 'number' || !Number.isInteger(tileSize) || tileSize < MIN_TILE_SIZE) {
+    throw new OptionsError('tileSize', `tileSize must be a whole number of at least ${MIN_TILE_SIZE}, got ${JSON.stringify(tileSize)}`);
+  }
+
+  if (kernel) {
+    checkFilterImages(target, guidance, mask);
+  } else {
+    checkFilterInputs(target, guidance, pyramid ? { ...params, ...pyramid[0] } : params, mask);
+  }
+
+  return {
+    target, guidance, params, mask, kernel, pyramid, tileSize,
+    onProgress: (o.onProgress as ValidatedFilterOptions['onProgress'] | undefined) ?? (() => {}),
+    signal: o.signal as AbortSignal | undefined
+  };
+}
+
+/**
+ * Filters `target` and `guidance` with the mutual-structure filter, or the
+ * given baseline kernel, after `validateFilterOptions`. The inputs are left
+ * untouched. Baseline kernels return the guidance as given.
+ */
+export async function filter(options: FilterOptions): Promise<FilterOutput> {
+  const { target, guidance, params, mask, kernel, pyramid, tileSize, onProgress, signal } = validateFilterOptions(options);
+  if (kernel) {
+    const filtered = await getKernel(kernel.name).apply(target, guidance, kernel.values, onProgress, signal, mask);
+    return { target: filtered, guidance, levels: [] };
+  }
+  if (pyramid) {
+    const { result, levels } = await applyPyramidFilter(target, guidance, params, pyramid, onProgress, signal, mask, tileSize);
+    return { ...result, levels };
+  }
+  const result = await applyMutualStructureFilterTiled(target, guidance, params, onProgress, signal, mask, tileSize);
+  return { ...result, levels: [] };
+}
+
+/**
+ * Joint upsampling of a scalar map onto the guidance's grid (see
+ * `upsampleWithGuidance`), with its options checked like `filter`'s.
+ */
+export async function upsample(options: UpsampleOptions): Promise<{ target: ImageDataGray; guidance: ImageDataRGB }> {
+  const o = checkOptionsObject(options, UPSAMPLE_KEYS);
+  const params = validateParams({ ...DEFAULT_PARAMS, ...(o.params as Partial<FilterParams> | undefined) });
+  const target = o.target as ImageDataGray;
+  const guidance = o.guidance as ImageDataRGB;
+  checkImage(target, 'target', 'gray');
+  checkImage(guidance, 'guidance', 'rgb');
+  const onProgress = (o.onProgress as UpsampleOptions['onProgress']) ?? (() => {});
+  return upsampleWithGuidance(target, guidance, params, onProgress, o.signal as AbortSignal | undefined);
+}
@@ -0,0 +1,136 @@
+import { AlgorithmMode, AnalysisProviderName, AnalysisRequest, AnalysisResult, FilterParams, ImageDataRGB, ImageDescriptor } from '../types';
+import { estimateParams, percentile } from './autoParams';
+import { encodePNG } from './codecs';
+import { luminance, resampleRGB } from './filters';
+import { bytesToDataURL } from './imageLoader';
+import { gradientCorrelation, gradientMagnitude, relativeTotalVariation } from './metrics';
+import { downscaleToFit } from './preview';
+
+/**
+ * Something that looks at a pair of inputs and comments on them, optionally
+ * suggesting parameters. Providers only ever receive `AnalysisRequest`s,
+ * never the full-resolution images.
+ */
+export interface AnalysisProvider {
+  name: Exclude<AnalysisProviderName, 'off'>;
+  label: string;
+  /** Whether the provider sends data off this machine. */
+  remote: boolean;
+  analyse(request: AnalysisRequest): Promise<AnalysisResult>;
+}
+
+/** Longest edge of the thumbnails descriptors are computed on, in pixels. */
+export const ANALYSIS_MAX_SIZE = 256;
+
+/** Gradient magnitude above which a thumbnail pixel counts as an edge. */
+const EDGE_THRESHOLD = 0.08;
+
+/** Descriptor of an image already reduced to thumbnail size. */
+function describeThumbnail(thumb: ImageDataRGB, width: number, height: number): ImageDescriptor {
+  const lum = luminance(thumb);
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < lum.length; i++) {
+    sum += lum[i];
+    sumSq += lum[i] * lum[i];
+  }
+  const mean = sum / lum.length;
+  const gradient = gradientMagnitude(lum, thumb.width, thumb.height);
+  let edges = 0;
+  for (let i = 0; i < gradient.length; i++) if (gradient[i] > EDGE_THRESHOLD) edges++;
+
+  return {
+    width,
+    height,
+    thumbnail: bytesToDataURL(encodePNG(thumb, 8), 'image/png'),
+    meanLuminance: mean,
+    contrast: Math.sqrt(Math.max(0, sumSq / lum.length - mean * mean)),
+    gradientMedian: percentile(gradient, 0.5),
+    gradientP99: percentile(gradient, 0.99),
+    edgeDensity: edges / gradient.length,
+    relativeTotalVariation: relativeTotalVariation(thumb)
+  };
+}
+
+/**
+ * Builds the request providers see. The images may differ in size (an
+ * upsampling pair); each is described at thumbnail size, and the guidance
+ * thumbnail is resampled to the target's for the correlation. The
+ * `estimateParams` suggestion is taken at full resolution, on the target
+ * stretched to the guidance's size when they differ.
+ */
+export function describeInputs(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  mode: AlgorithmMode,
+  params: FilterParams
+): AnalysisRequest {
+  const targetThumb = downscaleToFit(target, ANALYSIS_MAX_SIZE);
+  const guidanceThumb = downscaleToFit(guidance, ANALYSIS_MAX_SIZE);
+  const sameSize = target.width === guidance.width && target.height === guidance.height;
+  return {
+    mode,
+    params,
+    target: describeThumbnail(targetThumb, target.width, target.height),
+    guidance: describeThumbnail(guidanceThumb, guidance.width, guidance.height),
+    gradientCorrelation: gradientCorrelation(
+      targetThumb,
+      resampleRGB(guidanceThumb, targetThumb.width, targetThumb.height)
+    ),
+    estimate: estimateParams(sameSize ? target : resampleRGB(target, guidance.width, guidance.height), guidance, params)
+  };
+}
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+/**
+ * Offline provider: describes the pair from its statistics and suggests the
+ * parameters `estimateParams` found for it, as Auto would.
+ */
+export const localProvider: AnalysisProvider = {
+  name: 'local',
+  label: 'Local',
+  remote: false,
+  async analyse(request) {
+    const { target, guidance, gradientCorrelation: shared, estimate } = request;
+    const textureRatio = target.gradientP99 > 0 ? target.gradientMedian / target.gradientP99 : 0;
+    const textured = textureRatio > 0.15;
+    const summary = [
+      `Target: ${target.width}×${target.height}, contrast ${target.contrast.toFixed(2)}, ` +
+        `${percent(target.edgeDensity)} edge pixels` +
+        (textured ? ', with texture close to edge strength.' : ', mostly flat between edges.'),
+      `Guidance: ${guidance.width}×${guidance.height}, contrast ${guidance.contrast.toFixed(2)}, ${percent(guidance.edgeDensity)} edge pixels.`,
+      shared > 0.5
+        ? `The two share most of their structure (gradient correlation ${shared.toFixed(2)}), so mutual filtering can smooth hard.`
+        : shared > 0.2
+          ? `They share part of their structure (gradient correlation ${shared.toFixed(2)}).`
+          : `They share little structure (gradient correlation ${shared.toFixed(2)}); check the registration or the choice of guidance.`
+    ].join(' ');
+
+    return {
+      provider: 'local',
+      summary,
+      suggestion: { params: estimate.params, rationale: estimate.rationale }
+    };
+  }
+};
+
+const STORAGE_KEY = 'msjf:analysis';
+
+/** The provider chosen in this browser; analysis is off until the user opts in. */
+export function loadAnalysisChoice(): AnalysisProviderName {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === 'local' || stored === 'gemini' ? stored : 'off';
+  } catch {
+    return 'off';
+  }
+}
+
+export function saveAnalysisChoice(choice: AnalysisProviderName) {
+  try {
+    localStorage.setItem(STORAGE_KEY, choice);
+  } catch (err) {
+    console.warn("Could not save the analysis choice", err);
+  }
+}
@@ -0,0 +1,226 @@
+import { FilterParams, ImageDataRGB, ParamEstimate, ParamSuggestion } from '../types';
+import { cpuBackend } from './backend';
+import { luminance } from './filters';
+import { gradientCorrelation, gradientMagnitude } from './metrics';
+import { validateParams } from './presets';
+
+/** Longest edge of the centre crop the estimate is taken on, in pixels. */
+export const AUTO_MAX_SIZE = 768;
+
+/** Radius of the box blur separating texture from the base layer. */
+const DETAIL_RADIUS = 12;
+
+/**
+ * Gradients above this share of the 99.5th percentile count as edges when
+ * looking for texture; texture rarely comes near the strongest edges.
+ */
+const EDGE_EXCLUSION = 0.5;
+
+/** Longest texture half-period looked for, in pixels. */
+const MAX_LAG = 24;
+
+/** Share of the strongest gradients left out of the noise estimate as edges. */
+const NOISE_EDGE_SHARE = 0.1;
+
+/** Epsilon values any suggestion is kept within. */
+export const EPSILON_RANGE = [1e-4, 0.05] as const;
+const RADIUS_RANGE = [1, 20] as const;
+
+export const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+/** The value below which a share `p` of `values` lies. */
+export function percentile(values: Float32Array, p: number): number {
+  const sorted = values.slice().sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Centre crop of at most `size` pixels a side. Cropping rather than
+ * downscaling keeps noise and texture at their full-resolution scale.
+ */
+function centreCrop(rgb: ImageDataRGB, size: number): ImageDataRGB {
+  const width = Math.min(rgb.width, size);
+  const height = Math.min(rgb.height, size);
+  if (width === rgb.width && height === rgb.height) return rgb;
+
+  const x0 = Math.floor((rgb.width - width) / 2);
+  const y0 = Math.floor((rgb.height - height) / 2);
+  const crop = (src: Float32Array) => {
+    const out = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      out.set(src.subarray((y0 + y) * rgb.width + x0, (y0 + y) * rgb.width + x0 + width), y * width);
+    }
+    return out;
+  };
+  return { r: crop(rgb.r), g: crop(rgb.g), b: crop(rgb.b), width, height };
+}
+
+/**
+ * Noise standard deviation by Immerkær's Laplacian-difference mask (1996),
+ * which cancels image structure up to second order. The strongest gradients
+ * are skipped so edges do not pass for noise.
+ */
+export function estimateNoise(data: Float32Array, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+  const gradient = gradientMagnitude(data, width, height);
+  const edge = percentile(gradient, 1 - NOISE_EDGE_SHARE);
+
+  let sum = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (gradient[i] > edge) continue;
+      const up = i - width;
+      const down = i + width;
+      sum += Math.abs(
+        data[up - 1] - 2 * data[up] + data[up + 1]
+        - 2 * data[i - 1] + 4 * data[i] - 2 * data[i + 1]
+        + data[down - 1] - 2 * data[down] + data[down + 1]
+      );
+      count++;
+    }
+  }
+  return count ? Math.sqrt(Math.PI / 2) * sum / (6 * count) : 0;
+}
+
+/**
+ * Half-period of the dominant texture: the first clear trough of the detail
+ * layer's autocorrelation, averaged over x and y. Pixels within the blur
+ * radius of a strong edge are left out, since the blur leaves a slowly
+ * decaying residual there that would mask the texture. Returns null when the autocorrelation
+ * only decays, as for noise or smooth shading.
+ */
+export function estimateTextureScale(data: Float32Array, width: number, height: number): number | null {
+  const base = cpuBackend.boxFilter(data, width, height, DETAIL_RADIUS);
+  const gradient = gradientMagnitude(data, width, height);
+  const edgeLevel = EDGE_EXCLUSION * percentile(gradient, 0.995);
+  const edges = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) edges[i] = gradient[i] > edgeLevel ? 1 : 0;
+  const nearEdge = cpuBackend.boxFilter(edges, width, height, DETAIL_RADIUS);
+
+  const detail = new Float32Array(data.length);
+  const valid = new Uint8Array(data.length);
+  let energy = 0;
+  let count = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (nearEdge[i] > 0) continue;
+    valid[i] = 1;
+    detail[i] = data[i] - base[i];
+    energy += detail[i] * detail[i];
+    count++;
+  }
+  if (energy === 0) return null;
+  const variance = energy / count;
+
+  const maxLag = Math.min(MAX_LAG, width - 1, height - 1);
+  const correlation: number[] = [1];
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    let pairs = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (!valid[i]) continue;
+        if (x + lag < width && valid[i + lag]) {
+          sum += detail[i] * detail[i + lag];
+          pairs++;
+        }
+        if (y + lag < height && valid[i + lag * width]) {
+          sum += detail[i] * detail[i + lag * width];
+          pairs++;
+        }
+      }
+    }
+    correlation.push(pairs ? sum / pairs / variance : 0);
+  }
+
+  for (let lag = 1; lag < maxLag; lag++) {
+    // A real trough: lower than both neighbours and clearly anti-correlated
+    if (correlation[lag] < correlation[lag - 1] && correlation[lag] <= correlation[lag + 1] && correlation[lag] < -0.1) {
+      return lag;
+    }
+  }
+  return null;
+}
+
+/**
+ * Recommends filter parameters from the target's noise level, texture scale
+ * and distribution of local variance, and the structure it shares with the
+ * guidance. The images must have the same size; only a centre crop of at most
+ * AUTO_MAX_SIZE pixels a side is examined. Parameters not estimated are taken
+ * from `base`.
+ *
+ * The radius makes each window span one and a half texture periods, so the
+ * texture averages out. A guided-filter window keeps structure whose local
+ * variance is well above epsilon, so epsilon sits at the geometric mean of the
+ * variance typical of flat and textured regions (the median) and of edges
+ * (the 95th percentile), and never below twice the noise variance.
+ */
+export function estimateParams(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  base: FilterParams
+): ParamSuggestion & { estimate: ParamEstimate } {
+  const crop = centreCrop(target, AUTO_MAX_SIZE);
+  const { width, height } = crop;
+  const lum = luminance(crop);
+
+  const noiseSigma = estimateNoise(lum, width, height);
+  const textureScale = estimateTextureScale(lum, width, height);
+  const radius = Math.round(clamp(textureScale === null ? 2 : 1.5 * textureScale, ...RADIUS_RANGE));
+
+  const mean = cpuBackend.boxFilter(lum, width, height, radius);
+  const squared = new Float32Array(lum.length);
+  for (let i = 0; i < lum.length; i++) squared[i] = lum[i] * lum[i];
+  const meanSquared = cpuBackend.boxFilter(squared, width, height, radius);
+  const variance = new Float32Array(lum.length);
+  for (let i = 0; i < lum.length; i++) variance[i] = Math.max(0, meanSquared[i] - mean[i] * mean[i]);
+  const textureVariance = percentile(variance, 0.5);
+  const edgeVariance = percentile(variance, 0.95);
+
+  const between = Math.sqrt(textureVariance * edgeVariance);
+  const floor = 2 * noiseSigma * noiseSigma;
+  const unclamped = Math.max(between, floor);
+  const epsilon = clamp(unclamped, ...EPSILON_RANGE);
+
+  // Texture nearly as strong as the edges needs more passes to flatten
+  const contrast = edgeVariance > 0 ? textureVariance / edgeVariance : 0;
+  const iterations = contrast > 0.1 ? 4 : contrast > 0.02 ? 3 : 2;
+
+  const sharedStructure = gradientCorrelation(crop, centreCrop(guidance, AUTO_MAX_SIZE));
+  const weakGuidance = sharedStructure < 0.2;
+
+  const params = validateParams({
+    ...base,
+    radius,
+    epsilon: Number(epsilon.toPrecision(2)),
+    iterations,
+    targetFidelity: weakGuidance ? Math.max(base.targetFidelity, 0.3) : base.targetFidelity,
+    guidanceFidelity: weakGuidance ? Math.max(base.guidanceFidelity, 0.3) : base.guidanceFidelity
+  });
+
+  const rationale = [
+    textureScale === null
+      ? `No repeating texture found, so radius ${radius} stays small.`
+      : `Texture repeats about every ${2 * textureScale} px, so radius ${radius} spans one and a half periods.`,
+    `Local variance is ${textureVariance.toExponential(1)} in flat or textured areas and ${edgeVariance.toExponential(1)} at edges; ` +
+      `their geometric mean is ${between.toExponential(1)}` +
+      (floor > between
+        ? `, raised to ${floor.toExponential(1)} to clear the noise (σ ≈ ${noiseSigma.toFixed(3)})`
+        : ` (noise σ ≈ ${noiseSigma.toFixed(3)})`) +
+      (epsilon !== unclamped
+        ? `, ${unclamped < epsilon ? 'below' : 'above'} the usable range, so epsilon is held at its ${unclamped < epsilon ? 'lower' : 'upper'} limit ${params.epsilon}.`
+        : `, so epsilon is ${params.epsilon}.`),
+    `${iterations} iterations for texture at ${Math.round(contrast * 100)}% of edge variance.`,
+    weakGuidance
+      ? `Guidance shares little structure (correlation ${sharedStructure.toFixed(2)}), so fidelity is raised.`
+      : `Guidance shares structure (correlation ${sharedStructure.toFixed(2)}).`
+  ].join(' ');
+
+  return {
+    params,
+    rationale,
+    estimate: { noiseSigma, textureScale, textureVariance, edgeVariance, sharedStructure }
+  };
+}
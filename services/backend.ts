@@ -0,0 +1,180 @@
+import { BackendName, BackendPreference } from '../types';
+import { createWebGLBackend } from './webglBackend';
+
+/**
+ * The two hot stages of the guided and mutual structure filters, implemented
+ * once on the CPU and optionally on the GPU. Both operate on row-major float
+ * planes and must agree to within `BACKEND_TOLERANCE`.
+ */
+export interface FilterBackend {
+  readonly name: BackendName;
+  /** Mean over the (2r + 1)^2 window around each pixel, edges clamped. */
+  boxFilter(data: Float32Array, width: number, height: number, r: number): Float32Array;
+  /** Per-window linear coefficients (a, b) of `P` regressed on guide `I`. */
+  linearCoefficients(
+    P: Float32Array,
+    I: Float32Array,
+    width: number,
+    height: number,
+    r: number,
+    eps: number
+  ): { a: Float32Array; b: Float32Array };
+  dispose(): void;
+}
+
+/** Largest absolute difference from the CPU reference a GPU backend may show in its self-check. */
+export const BACKEND_TOLERANCE = 1e-4;
+
+/**
+ * Robust Box Filter implementation with boundary checking.
+ */
+function cpuBoxFilter(data: Float32Array, width: number, height: number, r: number): Float32Array {
+  const n = data.length;
+  const dest = new Float32Array(n);
+  const temp = new Float32Array(n);
+
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    const offset = y * width;
+    let sum = 0;
+    // Initial window
+    for (let x = -r; x <= r; x++) {
+      sum += data[offset + Math.min(Math.max(x, 0), width - 1)];
+    }
+    for (let x = 0; x < width; x++) {
+      dest[offset + x] = sum / (2 * r + 1);
+      const nextX = x + r + 1;
+      const prevX = x - r;
+      sum += data[offset + Math.min(nextX, width - 1)] - data[offset + Math.max(prevX, 0)];
+    }
+  }
+
+  // Vertical pass
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    // Initial window
+    for (let y = -r; y <= r; y++) {
+      sum += dest[Math.min(Math.max(y, 0), height - 1) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      temp[y * width + x] = sum / (2 * r + 1);
+      const nextY = y + r + 1;
+      const prevY = y - r;
+      sum += dest[Math.min(nextY, height - 1) * width + x] - dest[Math.max(prevY, 0) * width + x];
+    }
+  }
+
+  return temp;
+}
+
+/**
+ * Linear coefficients of `P` on `I` from any window mean (plain box filter,
+ * masked mean, GPU box filter). `onPass` runs after each of the four means.
+ */
+export function coefficientsFromMeans(
+  mean: (data: Float32Array) => Float32Array,
+  P: Float32Array,
+  I: Float32Array,
+  eps: number,
+  onPass: () => void = () => {}
+): { a: Float32Array; b: Float32Array } {
+  const meanI = mean(I);
+  onPass();
+  const meanP = mean(P);
+  onPass();
+  
+  const II = new Float32Array(I.length);
+  const IP = new Float32Array(I.length);
+  for (let i = 0; i < I.length; i++) {
+    II[i] = I[i] * I[i];
+    IP[i] = I[i] * P[i];
+  }
+
+  const varI = mean(II);
+  onPass();
+  const covIP = mean(IP);
+  onPass();
+
+  for (let i = 0; i < I.length; i++) {
+    varI[i] = varI[i] - meanI[i] * meanI[i];
+    covIP[i] = covIP[i] - meanI[i] * meanP[i];
+  }
+
+  const a = new Float32Array(I.length);
+  const b = new Float32Array(I.length);
+  for (let i = 0; i < I.length; i++) {
+    a[i] = covIP[i] / (varI[i] + eps);
+    b[i] = meanP[i] - a[i] * meanI[i];
+  }
+
+  return { a, b };
+}
+
+/** The scalar JavaScript reference implementation; always available. */
+export const cpuBackend: FilterBackend = {
+  name: 'cpu',
+  boxFilter: cpuBoxFilter,
+  linearCoefficients: (P, I, width, height, r, eps) =>
+    coefficientsFromMeans(data => cpuBoxFilter(data, width, height, r), P, I, eps),
+  dispose: () => {}
+};
+
+let active: FilterBackend = cpuBackend;
+
+/** The backend used by services/filters.ts. */
+export function getFilterBackend(): FilterBackend {
+  return active;
+}
+
+export function setFilterBackend(backend: FilterBackend) {
+  active = backend;
+}
+
+/**
+ * Compares a candidate backend with the CPU reference on a small fixed
+ * pseudo-random image, catching drivers that lack float precision or
+ * mis-render. The box filter must agree to within `BACKEND_TOLERANCE`; the
+ * coefficients divide by small variances, so they get 100 times as much.
+ */
+export function matchesReference(backend: FilterBackend): boolean {
+  const width = 37;
+  const height = 23;
+  const P = new Float32Array(width * height);
+  const I = new Float32Array(width * height);
+  // A fixed linear congruential sequence, so every run checks the same image
+  let seed = 1;
+  const next = () => (seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0) / 4294967296;
+  for (let i = 0; i < P.length; i++) {
+    P[i] = next();
+    I[i] = 0.5 * P[i] + 0.5 * next();
+  }
+
+  const maxDiff = (x: Float32Array, y: Float32Array) => {
+    let d = 0;
+    for (let i = 0; i < x.length; i++) d = Math.max(d, Math.abs(x[i] - y[i]));
+    return d;
+  };
+  const expected = cpuBackend.linearCoefficients(P, I, width, height, 3, 0.01);
+  const actual = backend.linearCoefficients(P, I, width, height, 3, 0.01);
+  return maxDiff(cpuBoxFilter(P, width, height, 4), backend.boxFilter(P, width, height, 4)) < BACKEND_TOLERANCE
+    && maxDiff(expected.a, actual.a) < BACKEND_TOLERANCE * 100
+    && maxDiff(expected.b, actual.b) < BACKEND_TOLERANCE * 100;
+}
+
+/**
+ * Creates the backend for `preference`. 'webgl' and 'auto' try WebGL2 with
+ * float render targets and fall back to the CPU when it is unavailable (Node,
+ * old browsers) or fails the self-check against the CPU reference.
+ */
+export function createFilterBackend(preference: BackendPreference): FilterBackend {
+  if (preference === 'cpu') return cpuBackend;
+
+  const gpu = createWebGLBackend(cpuBackend);
+  if (!gpu) return cpuBackend;
+  if (!matchesReference(gpu)) {
+    console.warn('WebGL filter backend disagrees with the CPU reference; using the CPU');
+    gpu.dispose();
+    return cpuBackend;
+  }
+  return gpu;
+}
@@ -0,0 +1,310 @@
+import { decode as decodePngData, encode as encodePngData, convertIndexedToRgb } from 'fast-png';
+import { ImageDataGray, ImageDataRGB } from '../types';
+import { extractRGBData, combineRGBData } from './filters';
+
+export type ImageFormat = 'png' | 'ppm' | 'pfm';
+
+/**
+ * Picks the codec from a file name, or null if the extension is not supported.
+ * PGM/PNM inputs share the PPM codec.
+ */
+export function formatFromFileName(name: string): ImageFormat | null {
+  const ext = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+  if (ext === 'png') return 'png';
+  if (ext === 'ppm' || ext === 'pgm' || ext === 'pnm') return 'ppm';
+  if (ext === 'pfm') return 'pfm';
+  return null;
+}
+
+/**
+ * Picks the codec from a file's leading bytes, or null for formats left to the
+ * browser (JPEG, WebP, ...).
+ */
+export function sniffFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] !== 0x50) return null;
+  if (bytes[1] === 0x46 || bytes[1] === 0x66) return 'pfm';
+  if (bytes[1] >= 0x32 && bytes[1] <= 0x36 && bytes[1] !== 0x34) return 'ppm';
+  return null;
+}
+
+export function decodeImage(bytes: Uint8Array, format: ImageFormat): ImageDataRGB {
+  if (format === 'pfm') return decodePFM(bytes);
+  return format === 'png' ? decodePNG(bytes) : decodePNM(bytes);
+}
+
+/**
+ * Encodes with the given codec. `depth` selects 8- or 16-bit samples for PNG;
+ * PPM is always 8-bit and PFM always 32-bit float. Only PNG stores alpha.
+ */
+export function encodeImage(rgb: ImageDataRGB, format: ImageFormat, depth: 8 | 16 = 8): Uint8Array {
+  if (format === 'pfm') return encodePFM(rgb);
+  return format === 'png' ? encodePNG(rgb, depth) : encodePPM(rgb);
+}
+
+/** Interleaved integer samples as stored in the file. */
+type RawSamples = {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+  channels: number;
+  maxValue: number;
+};
+
+/**
+ * Decodes a single-channel map (depth, confidence, thermal) normalised to
+ * [0, 1]; `maxValue` is the source's full-scale sample value (65535 for 16-bit
+ * files), so raw values are `data * maxValue`. Color inputs are reduced to
+ * luminance.
+ */
+export function decodeGray(bytes: Uint8Array, format: ImageFormat): { image: ImageDataGray; maxValue: number } {
+  const raw = format === 'png' ? readPNG(bytes) : format === 'pfm' ? readPFM(bytes) : readPNM(bytes);
+  const { width, height, channels, maxValue } = raw;
+  const size = width * height;
+  const data = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const o = i * channels;
+    data[i] = channels < 3
+      ? raw.data[o] / maxValue
+      : (0.299 * raw.data[o] + 0.587 * raw.data[o + 1] + 0.114 * raw.data[o + 2]) / maxValue;
+  }
+
+  return { image: { data, width, height }, maxValue };
+}
+
+/**
+ * Decodes any non-animated PNG (palette, gray, gray+alpha, RGB, RGBA at any
+ * bit depth).
+ */
+export function decodePNG(bytes: Uint8Array): ImageDataRGB {
+  const { data, width, height, channels, maxValue } = readPNG(bytes);
+  return extractRGBData(data, width, height, channels, maxValue);
+}
+
+function readPNG(bytes: Uint8Array): RawSamples {
+  const png = decodePngData(bytes);
+  const { width, height } = png;
+
+  if (png.palette) {
+    const rgb = convertIndexedToRgb(png);
+    return { data: rgb, width, height, channels: rgb.length / (width * height), maxValue: 255 };
+  }
+
+  const data = png.depth < 8 ? unpackSamples(png.data, width, height, png.channels, png.depth) : png.data;
+  return { data, width, height, channels: png.channels, maxValue: 2 ** png.depth - 1 };
+}
+
+/**
+ * Encodes RGB, or RGBA when the image has an alpha channel, with 8- or 16-bit
+ * samples.
+ */
+export function encodePNG(rgb: ImageDataRGB, depth: 8 | 16 = 8): Uint8Array {
+  const channels = rgb.a ? 4 : 3;
+  if (depth === 8) {
+    return encodePngData({
+      width: rgb.width,
+      height: rgb.height,
+      data: combineRGBData(rgb, channels),
+      depth: 8,
+      channels
+    });
+  }
+
+  const planes = rgb.a ? [rgb.r, rgb.g, rgb.b, rgb.a] : [rgb.r, rgb.g, rgb.b];
+  const size = rgb.width * rgb.height;
+  const data = new Uint16Array(size * channels);
+  for (let i = 0; i < size; i++) {
+    for (let c = 0; c < channels; c++) {
+      data[i * channels + c] = Math.round(Math.min(1, Math.max(0, planes[c][i])) * 65535);
+    }
+  }
+  return encodePngData({ width: rgb.width, height: rgb.height, data, depth: 16, channels });
+}
+
+/**
+ * Encodes a [0, 1] single-channel map as an 8- or 16-bit grayscale PNG.
+ */
+export function encodeGrayPNG(image: ImageDataGray, depth: 8 | 16 = 16): Uint8Array {
+  const maxValue = 2 ** depth - 1;
+  const data = depth === 16 ? new Uint16Array(image.data.length) : new Uint8Array(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round(Math.min(1, Math.max(0, image.data[i])) * maxValue);
+  }
+  return encodePngData({ width: image.width, height: image.height, data, depth, channels: 1 });
+}
+
+/**
+ * Expands 1/2/4-bit rows (each padded to a whole byte) to one sample per entry.
+ */
+function unpackSamples(
+  packed: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels: number,
+  depth: number
+): Uint8Array {
+  const samplesPerRow = width * channels;
+  const bytesPerRow = Math.ceil((samplesPerRow * depth) / 8);
+  const mask = (1 << depth) - 1;
+  const out = new Uint8Array(samplesPerRow * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let s = 0; s < samplesPerRow; s++) {
+      const bit = s * depth;
+      const byte = packed[y * bytesPerRow + (bit >> 3)];
+      out[y * samplesPerRow + s] = (byte >> (8 - depth - (bit & 7))) & mask;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Decodes Netpbm gray and color maps: P2/P5 (PGM) and P3/P6 (PPM), with
+ * 16-bit big-endian samples when maxval exceeds 255.
+ */
+export function decodePNM(bytes: Uint8Array): ImageDataRGB {
+  const { data, width, height, channels, maxValue } = readPNM(bytes);
+  return extractRGBData(data, width, height, channels, maxValue);
+}
+
+function readPNM(bytes: Uint8Array): RawSamples {
+  let pos = 0;
+
+  const skipWhitespaceAndComments = () => {
+    while (pos < bytes.length) {
+      const c = bytes[pos];
+      if (c === 0x23) {
+        while (pos < bytes.length && bytes[pos] !== 0x0a) pos++;
+      } else if (c === 0x20 || c === 0x09 || c === 0x0a || c === 0x0d) {
+        pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readToken = (): string => {
+    skipWhitespaceAndComments();
+    const start = pos;
+    while (pos < bytes.length && bytes[pos] > 0x20) pos++;
+    return String.fromCharCode(...bytes.subarray(start, pos));
+  };
+
+  const magic = readToken();
+  if (!['P2', 'P3', 'P5', 'P6'].includes(magic)) {
+    throw new Error(`Unsupported Netpbm type "${magic}"`);
+  }
+
+  const width = parseInt(readToken(), 10);
+  const height = parseInt(readToken(), 10);
+  const maxValue = parseInt(readToken(), 10);
+  if (!(width > 0 && height > 0 && maxValue > 0 && maxValue < 65536)) {
+    throw new Error('Malformed Netpbm header');
+  }
+
+  const channels = magic === 'P3' || magic === 'P6' ? 3 : 1;
+  const count = width * height * channels;
+  const samples = new Uint16Array(count);
+
+  if (magic === 'P2' || magic === 'P3') {
+    for (let i = 0; i < count; i++) samples[i] = parseInt(readToken(), 10);
+  } else {
+    // Exactly one whitespace byte separates the header from the raster
+    pos++;
+    const wide = maxValue > 255;
+    if (bytes.length - pos < count * (wide ? 2 : 1)) {
+      throw new Error('Truncated Netpbm raster');
+    }
+    for (let i = 0; i < count; i++) {
+      samples[i] = wide ? (bytes[pos + 2 * i] << 8) | bytes[pos + 2 * i + 1] : bytes[pos + i];
+    }
+  }
+
+  return { data: samples, width, height, channels, maxValue };
+}
+
+export function encodePPM(rgb: ImageDataRGB): Uint8Array {
+  const header = new TextEncoder().encode(`P6\n${rgb.width} ${rgb.height}\n255\n`);
+  const raster = combineRGBData(rgb, 3);
+  const out = new Uint8Array(header.length + raster.length);
+  out.set(header);
+  out.set(raster, header.length);
+  return out;
+}
+
+/**
+ * Decodes a Portable Float Map: "PF" (RGB) or "Pf" (gray), rows stored
+ * bottom to top, little-endian when the scale field is negative. Values are
+ * kept as-is, so HDR data above 1 survives.
+ */
+export function decodePFM(bytes: Uint8Array): ImageDataRGB {
+  const { data, width, height, channels } = readPFM(bytes);
+  return extractRGBData(data, width, height, channels, 1);
+}
+
+function readPFM(bytes: Uint8Array): RawSamples {
+  // Header: type, dimensions and scale, each line ending in a newline
+  const fields: string[] = [];
+  let pos = 0;
+  while (fields.length < 4 && pos < bytes.length) {
+    const start = pos;
+    while (pos < bytes.length && bytes[pos] !== 0x0a) pos++;
+    const line = String.fromCharCode(...bytes.subarray(start, pos)).trim();
+    pos++;
+    if (line) fields.push(...line.split(/\s+/));
+  }
+
+  const [magic, w = '', h = '', scaleField = ''] = fields;
+  if (magic !== 'PF' && magic !== 'Pf') throw new Error(`Unsupported PFM type "${magic}"`);
+  const width = parseInt(w, 10);
+  const height = parseInt(h, 10);
+  const scale = parseFloat(scaleField);
+  if (!(width > 0 && height > 0) || !Number.isFinite(scale) || scale === 0) {
+    throw new Error('Malformed PFM header');
+  }
+
+  const channels = magic === 'PF' ? 3 : 1;
+  const rowLength = width * channels;
+  if (bytes.length - pos < rowLength * height * 4) throw new Error('Truncated PFM raster');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + pos);
+  const littleEndian = scale < 0;
+  const data = new Float32Array(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const src = (height - 1 - y) * rowLength;
+    for (let k = 0; k < rowLength; k++) {
+      data[y * rowLength + k] = view.getFloat32((src + k) * 4, littleEndian);
+    }
+  }
+
+  return { data, width, height, channels, maxValue: 1 };
+}
+
+export function encodePFM(rgb: ImageDataRGB): Uint8Array {
+  return writePFM([rgb.r, rgb.g, rgb.b], rgb.width, rgb.height);
+}
+
+export function encodeGrayPFM(image: ImageDataGray): Uint8Array {
+  return writePFM([image.data], image.width, image.height);
+}
+
+function writePFM(channels: Float32Array[], width: number, height: number): Uint8Array {
+  const header = new TextEncoder().encode(`${channels.length === 3 ? 'PF' : 'Pf'}\n${width} ${height}\n-1.0\n`);
+  const out = new Uint8Array(header.length + width * height * channels.length * 4);
+  out.set(header);
+
+  const view = new DataView(out.buffer, header.length);
+  let offset = 0;
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = 0; x < width; x++) {
+      for (const c of channels) {
+        view.setFloat32(offset, c[y * width + x], true);
+        offset += 4;
+      }
+    }
+  }
+
+  return out;
+}
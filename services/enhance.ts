@@ -0,0 +1,128 @@
+import { EnhanceParams, FilterParams, FilterProgress, ImageDataGray, ImageDataRGB, MutualFilterResult } from '../types';
+import { applyMutualStructureFilterTiled } from './tiling';
+
+/** Widest soft-clipping shoulder at each end of [0, 1]. */
+const SOFT_CLIP_KNEE = 0.1;
+
+const CHANNELS = ['r', 'g', 'b'] as const;
+
+/**
+ * Runs the mutual structure filter once per detail scale. The first base is
+ * the regular filter output; every further base re-filters the previous one
+ * with twice the radius, so base k holds structure coarser than base k - 1.
+ * The doubled radius stops at the widest window the image holds.
+ * `mask` restricts every run to the same region. Large images are filtered
+ * in tiles.
+ */
+export async function applyMultiScaleFilter(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  scales: number,
+  onProgress: (p: number, detail?: FilterProgress) => void,
+  signal?: AbortSignal,
+  mask?: ImageDataGray
+): Promise<{ result: MutualFilterResult; coarseBases: ImageDataRGB[] }> {
+  const count = Math.max(1, scales);
+  const scaled = (k: number) => (p: number, detail?: FilterProgress) => onProgress((k * 100 + p) / count, detail);
+
+  const result = await applyMutualStructureFilterTiled(target, guidance, params, scaled(0), signal, mask);
+  const coarseBases: ImageDataRGB[] = [];
+  let previous = result.target;
+  const widest = Math.floor((Math.max(target.width, target.height) - 1) / 2);
+  for (let k = 1; k < count; k++) {
+    const next = await applyMutualStructureFilterTiled(
+      previous, guidance, { ...params, radius: Math.max(params.radius, Math.min(widest, params.radius * 2 ** k)) }, scaled(k), signal, mask
+    );
+    previous = next.target;
+    coarseBases.push(previous);
+  }
+
+  return { result, coarseBases };
+}
+
+/**
+ * Smoothly compresses values that overshoot [0, 1] instead of hard clamping
+ * them: the top `high` and bottom `low` of the range become shoulders that
+ * approach 1 and 0 asymptotically. With both widths 0 values are returned
+ * unchanged, so callers size the shoulders from the actual overshoot (see
+ * `shoulderWidths`).
+ */
+export function softClip(v: number, low: number, high: number): number {
+  const hi = 1 - high;
+  if (high > 0 && v > hi) return hi + high * Math.tanh((v - hi) / high);
+  if (low > 0 && v < low) return low - low * Math.tanh((low - v) / low);
+  return v;
+}
+
+/**
+ * Shoulder widths for `softClip` over `values`: as far as the values
+ * overshoot each end of [0, 1], at most `SOFT_CLIP_KNEE`. An end nothing
+ * overshoots gets no shoulder, so in-range images pass through unchanged.
+ */
+export function shoulderWidths(values: Float32Array[]): { low: number; high: number } {
+  let under = 0;
+  let over = 0;
+  for (const data of values) {
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] < -under) under = -data[i];
+      if (data[i] - 1 > over) over = data[i] - 1;
+    }
+  }
+  return { low: Math.min(SOFT_CLIP_KNEE, under), high: Math.min(SOFT_CLIP_KNEE, over) };
+}
+
+/**
+ * Base/detail decomposition and enhancement.
+ *
+ * With bases B_1..B_K (fine to coarse) and B_0 the original, the detail
+ * layers are D_k = B_(k-1) - B_k. The enhanced image is
+ * softClip(B_K + sum_k gains[k] * D_k), with shoulders only as wide as the
+ * boosted image overshoots [0, 1], so gains of 1 reproduce the original.
+ * `detail` is the amplified sum, offset by 0.5 so it can be displayed.
+ * All three layers keep the original's alpha.
+ */
+export function enhanceDetail(
+  original: ImageDataRGB,
+  bases: ImageDataRGB[],
+  params: EnhanceParams
+): { base: ImageDataRGB; detail: ImageDataRGB; enhanced: ImageDataRGB } {
+  const { width, height } = original;
+  const size = width * height;
+  const base = bases[bases.length - 1];
+  const layer = (): ImageDataRGB => {
+    const out: ImageDataRGB = {
+      r: new Float32Array(size),
+      g: new Float32Array(size),
+      b: new Float32Array(size),
+      width,
+      height
+    };
+    if (original.a) out.a = new Float32Array(original.a);
+    return out;
+  };
+  const detail = layer();
+  const enhanced = layer();
+
+  for (const c of CHANNELS) {
+    for (let i = 0; i < size; i++) {
+      let boosted = 0;
+      let finer = original[c][i];
+      for (let k = 0; k < bases.length; k++) {
+        const coarser = bases[k][c][i];
+        boosted += (params.gains[k] ?? 1) * (finer - coarser);
+        finer = coarser;
+      }
+      detail[c][i] = 0.5 + boosted;
+      enhanced[c][i] = base[c][i] + boosted;
+    }
+  }
+
+  const { low, high } = shoulderWidths(CHANNELS.map(c => enhanced[c]));
+  for (const c of CHANNELS) {
+    const data = enhanced[c];
+    for (let i = 0; i < size; i++) data[i] = softClip(data[i], low, high);
+  }
+
+  return { base, detail, enhanced };
+}
@@ -0,0 +1,67 @@
+import { MsjfErrorCode } from '../types';
+
+/**
+ * Base class of every error the filter raises for bad input. `code` is
+ * stable across releases and meant for programs; `message` is meant for
+ * people and may change.
+ */
+export class MsjfError extends Error {
+  readonly code: MsjfErrorCode;
+  /** Name of the parameter, option or image at fault. */
+  readonly subject: string;
+
+  constructor(code: MsjfErrorCode, subject: string, message: string) {
+    super(message);
+    this.name = 'MsjfError';
+    this.code = code;
+    this.subject = subject;
+  }
+}
+
+/** A filter parameter is missing, not finite or out of range. */
+export class ParamError extends MsjfError {
+  constructor(code: 'INVALID_PARAM' | 'INVALID_EPSILON' | 'RADIUS_TOO_LARGE', param: string, message: string) {
+    super(code, param, message);
+    this.name = 'ParamError';
+  }
+}
+
+/** An image is malformed, contains NaN or infinite samples, or does not match the size of the others. */
+export class ImageError extends MsjfError {
+  constructor(code: 'INVALID_IMAGE' | 'SIZE_MISMATCH' | 'NON_FINITE_PIXELS', image: string, message: string) {
+    super(code, image, message);
+    this.name = 'ImageError';
+  }
+}
+
+/** The options object handed to the library entry point is not usable (see lib/index.ts). */
+export class OptionsError extends MsjfError {
+  constructor(option: string, message: string) {
+    super('INVALID_OPTIONS', option, message);
+    this.name = 'OptionsError';
+  }
+}
+
+/** The worker's error reply for `err`, keeping the code of an `MsjfError`. */
+export function errorReply(err: unknown): { type: 'error'; message: string; code?: MsjfErrorCode; subject?: string } {
+  if (err instanceof MsjfError) return { type: 'error', message: err.message, code: err.code, subject: err.subject };
+  return { type: 'error', message: err instanceof Error ? err.message : String(err) };
+}
+
+/** Rebuilds the error a worker reported with `errorReply`. */
+export function errorFromReply({ message, code, subject = '' }: { message: string; code?: MsjfErrorCode; subject?: string }): Error {
+  switch (code) {
+    case 'INVALID_PARAM':
+    case 'INVALID_EPSILON':
+    case 'RADIUS_TOO_LARGE':
+      return new ParamError(code, subject, message);
+    case 'INVALID_IMAGE':
+    case 'SIZE_MISMATCH':
+    case 'NON_FINITE_PIXELS':
+      return new ImageError(code, subject, message);
+    case 'INVALID_OPTIONS':
+      return new OptionsError(subject, message);
+    default:
+      return new Error(message);
+  }
+}
@@ -0,0 +1,128 @@
+import { BackendName, BackendPreference, FilterMetrics, FilterParams, FilterProgress, FilterWorkerRequest, FilterWorkerResponse, ImageDataGray, ImageDataRGB, KernelSettings, MutualFilterResult, PyramidLevel, StructureMaps } from '../types';
+import { errorFromReply } from './errors';
+
+const buffersOf = (rgb: ImageDataRGB): ArrayBuffer[] =>
+  [rgb.r, rgb.g, rgb.b, ...(rgb.a ? [rgb.a] : [])].map(c => c.buffer as ArrayBuffer);
+
+type WorkerResult = Exclude<FilterWorkerResponse, { type: 'progress' } | { type: 'error' }>;
+
+export interface WorkerRunOptions {
+  onProgress: (p: number, detail?: FilterProgress) => void;
+  signal?: AbortSignal;
+  /** Number of filter scales for detail enhancement (see `applyMultiScaleFilter`). */
+  detailScales?: number;
+  /** Region to filter, at the target's size (see `applyMutualStructureFilter`). */
+  mask?: ImageDataGray;
+  /** Where the filter runs; defaults to 'auto' (see `createFilterBackend`). */
+  backend?: BackendPreference;
+  /** Baseline kernel to run instead of the mutual-structure filter (see services/kernels.ts). */
+  kernel?: KernelSettings;
+  /** Levels of a coarse-to-fine run (see `applyPyramidFilter`). */
+  pyramid?: PyramidLevel[];
+  /** Also return the result's `computeMetrics`; off for previews and other runs that do not show them. */
+  metrics?: boolean;
+  /** Also return the inputs' `structureMaps`, at the window the run used (the finest level's for a pyramid). */
+  maps?: boolean;
+}
+
+/**
+ * Posts one request to a fresh filter worker and resolves with its final
+ * message. Aborting `signal` terminates the worker immediately and rejects
+ * with the signal's reason; filter errors are rethrown as the `MsjfError`
+ * subclass the worker raised.
+ */
+function runWorkerJob(
+  request: FilterWorkerRequest,
+  transfer: Transferable[],
+  { onProgress, signal }: WorkerRunOptions
+): Promise<WorkerResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('./filterWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<FilterWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress, message.detail);
+      } else if (message.type === 'error') {
+        finish();
+        reject(errorFromReply(message));
+      } else {
+        finish();
+        resolve(message);
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Filter worker failed'));
+    };
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Runs `applyMultiScaleFilter`, `applyPyramidFilter` or the kernel named in
+ * `options` in a dedicated worker.
+ *
+ * The channel buffers of `target` and `guidance` are transferred, so they are
+ * detached on return; the mask is copied. With `options.metrics` and
+ * `options.maps` the worker also returns the `computeMetrics` of the result
+ * against the inputs and the inputs' `structureMaps`.
+ */
+export async function runFilterInWorker(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  options: WorkerRunOptions
+): Promise<{
+  result: MutualFilterResult;
+  coarseBases: ImageDataRGB[];
+  metrics?: FilterMetrics;
+  maps?: StructureMaps;
+  levels: ImageDataRGB[];
+  backend: BackendName;
+}> {
+  const request: FilterWorkerRequest = {
+    type: 'filter', target, guidance, params,
+    detailScales: options.detailScales ?? 1, mask: options.mask, backend: options.backend ?? 'auto',
+    kernel: options.kernel,
+    pyramid: options.pyramid,
+    metrics: options.metrics ?? false,
+    maps: options.maps ?? false
+  };
+  const message = await runWorkerJob(request, [...buffersOf(target), ...buffersOf(guidance)], options);
+  if (message.type !== 'result') throw new Error(`Unexpected worker reply "${message.type}"`);
+  const { result, coarseBases, metrics, maps, levels, backend } = message;
+  return { result, coarseBases, metrics, maps, levels, backend };
+}
+
+/**
+ * Runs `upsampleWithGuidance` in a dedicated worker, transferring the input
+ * buffers like `runFilterInWorker`.
+ */
+export async function runUpsampleInWorker(
+  target: ImageDataGray,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  options: WorkerRunOptions
+): Promise<{ target: ImageDataGray; guidance: ImageDataRGB; backend: BackendName }> {
+  const request: FilterWorkerRequest = { type: 'upsample', target, guidance, params, backend: options.backend ?? 'auto' };
+  const message = await runWorkerJob(request, [target.data.buffer as ArrayBuffer, ...buffersOf(guidance)], options);
+  if (message.type !== 'upsampled') throw new Error(`Unexpected worker reply "${message.type}"`);
+  return { target: message.target, guidance: message.guidance, backend: message.backend };
+}
@@ -0,0 +1,65 @@
+import { applyMultiScaleFilter } from './enhance';
+import { upsampleWithGuidance } from './upsample';
+import { computeMetrics } from './metrics';
+import { createFilterBackend, getFilterBackend, setFilterBackend } from './backend';
+import { structureMaps } from './filters';
+import { getKernel } from './kernels';
+import { applyPyramidFilter } from './pyramid';
+import { errorReply } from './errors';
+import { FilterProgress, FilterWorkerRequest, FilterWorkerResponse, ImageDataRGB, MutualFilterResult } from '../types';
+
+const ctx = self as unknown as Worker;
+
+const buffersOf = (rgb: ImageDataRGB): ArrayBuffer[] =>
+  [rgb.r, rgb.g, rgb.b, ...(rgb.a ? [rgb.a] : [])].map(c => c.buffer as ArrayBuffer);
+
+const post = (message: FilterWorkerResponse, transfer: Transferable[] = []) => {
+  ctx.postMessage(message, transfer);
+};
+
+const onProgress = (progress: number, detail?: FilterProgress) => {
+  post({ type: 'progress', progress, detail });
+};
+
+ctx.onmessage = async (e: MessageEvent<FilterWorkerRequest>) => {
+  const request = e.data;
+  try {
+    getFilterBackend().dispose();
+    setFilterBackend(createFilterBackend(request.backend));
+    const backend = getFilterBackend().name;
+
+    if (request.type === 'upsample') {
+      const { target, guidance } = await upsampleWithGuidance(request.target, request.guidance, request.params, onProgress);
+      post({ type: 'upsampled', target, guidance, backend }, [target.data.buffer as ArrayBuffer, ...buffersOf(guidance)]);
+      return;
+    }
+
+    const { target, guidance, params, detailScales, mask, kernel, pyramid, metrics: withMetrics, maps: withMaps } = request;
+    const baseline = kernel && kernel.name !== 'msjf';
+    let result: MutualFilterResult;
+    let coarseBases: ImageDataRGB[] = [];
+    let levels: ImageDataRGB[] = [];
+    if (baseline) {
+      // Baselines filter the target only; the guidance comes back as given
+      result = { target: await getKernel(kernel.name).apply(target, guidance, kernel.values, onProgress, undefined, mask), guidance };
+    } else if (pyramid) {
+      ({ result, levels } = await applyPyramidFilter(target, guidance, params, pyramid, onProgress, undefined, mask));
+    } else {
+      ({ result, coarseBases } = await applyMultiScaleFilter(target, guidance, params, detailScales, onProgress, undefined, mask));
+    }
+    const metrics = withMetrics ? computeMetrics(target, guidance, result.target) : undefined;
+    // The maps describe the window the run used: the finest level's for a pyramid
+    const finest = pyramid ? pyramid[0] : params;
+    const maps = withMaps ? structureMaps(target, guidance, finest.radius, finest.epsilon, mask?.data) : undefined;
+    post(
+      // Baseline kernels always run on the CPU
+      { type: 'result', result, coarseBases, metrics, maps, levels, backend: baseline ? 'cpu' : backend },
+      [
+        ...buffersOf(result.target), ...buffersOf(result.guidance), ...coarseBases.flatMap(buffersOf), ...levels.flatMap(buffersOf),
+        ...Object.values(maps ?? {}).map(map => map.data.buffer as ArrayBuffer)
+      ]
+    );
+  } catch (err) {
+    post(errorReply(err));
+  }
+};
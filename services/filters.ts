@@ -1,157 +1,779 @@
+import { ImageDataRGB, ImageDataGray, FilterParams, MutualFilterResult, FilterProgress, StructureMaps } from '../types';
+import { coefficientsFromMeans, getFilterBackend } from './backend';
+import { ImageError } from './errors';
+import { checkFilterInputs } from './validation';
 
-import { ImageDataRGB, FilterParams } from '../types';
+/** Box-filter passes spent in one `mutualCoefficients` call. */
+const MUTUAL_BOX_PASSES = 8;
+
+/** Box-filter passes spent in one `colorCoefficients` call. */
+const COLOR_BOX_PASSES = 42;
+
+/** Box-filter passes spent in one `mutualStructureConfidence` call. */
+const CONFIDENCE_BOX_PASSES = 5;
+
+/** Upper-triangle index pairs of a symmetric 3x3 matrix: xx, xy, xz, yy, yz, zz. */
+const SYM3 = [[0, 0], [0, 1], [0, 2], [1, 1], [1, 2], [2, 2]];
+
+const CHANNEL_NAMES = ['R', 'G', 'B'];
+
+/** Box filter on the active backend (see services/backend.ts). */
+const boxFilter = (data: Float32Array, width: number, height: number, r: number) =>
+  getFilterBackend().boxFilter(data, width, height, r);
 
 /**
- * Robust Box Filter implementation with boundary checking.
+ * Returns the window mean over radius `r`. With a `mask`, the mean is
+ * weighted by it, box(mask * X) / box(mask), so pixels outside the mask do not
+ * contribute to the statistics of pixels inside it. Windows that contain no
+ * masked pixel at all average to 0.
  */
-function boxFilter(data: Float32Array, width: number, height: number, r: number): Float32Array {
-  const n = data.length;
-  const dest = new Float32Array(n);
-  const temp = new Float32Array(n);
+function windowMean(
+  width: number,
+  height: number,
+  r: number,
+  mask?: Float32Array
+): (data: Float32Array) => Float32Array {
+  if (!mask) return (data) => boxFilter(data, width, height, r);
 
-  // Horizontal pass
-  for (let y = 0; y < height; y++) {
-    const offset = y * width;
-    let sum = 0;
-    // Initial window
-    for (let x = -r; x <= r; x++) {
-      sum += data[offset + Math.min(Math.max(x, 0), width - 1)];
-    }
-    for (let x = 0; x < width; x++) {
-      dest[offset + x] = sum / (2 * r + 1);
-      const nextX = x + r + 1;
-      const prevX = x - r;
-      sum += data[offset + Math.min(nextX, width - 1)] - data[offset + Math.max(prevX, 0)];
-    }
-  }
+  const norm = boxFilter(mask, width, height, r);
+  return (data) => {
+    const weighted = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i++) weighted[i] = mask[i] * data[i];
+    const mean = boxFilter(weighted, width, height, r);
+    for (let i = 0; i < mean.length; i++) mean[i] = norm[i] > 1e-6 ? mean[i] / norm[i] : 0;
+    return mean;
+  };
+}
 
-  // Vertical pass
-  for (let x = 0; x < width; x++) {
-    let sum = 0;
-    // Initial window
-    for (let y = -r; y <= r; y++) {
-      sum += dest[Math.min(Math.max(y, 0), height - 1) * width + x];
-    }
-    for (let y = 0; y < height; y++) {
-      temp[y * width + x] = sum / (2 * r + 1);
-      const nextY = y + r + 1;
-      const prevY = y - r;
-      sum += dest[Math.min(nextY, height - 1) * width + x] - dest[Math.max(prevY, 0) * width + x];
-    }
-  }
+/**
+ * Per-window linear coefficients (a, b) of `P` regressed on guide `I`, with
+ * window statistics restricted to `mask` when given (see `windowMean`). The
+ * unmasked case runs on the active filter backend.
+ */
+function linearCoefficients(
+  P: Float32Array,
+  I: Float32Array,
+  width: number,
+  height: number,
+  r: number,
+  eps: number,
+  onPass: () => void = () => {},
+  mask?: Float32Array
+): { a: Float32Array; b: Float32Array } {
+  if (mask) return coefficientsFromMeans(windowMean(width, height, r, mask), P, I, eps, onPass);
+
+  const coefficients = getFilterBackend().linearCoefficients(P, I, width, height, r, eps);
+  for (let pass = 0; pass < 4; pass++) onPass();
+  return coefficients;
+}
 
-  return temp;
+/**
+ * Size of the coefficient grid and radius used for subsampling factor `s`
+ * (fast guided filter, He & Sun 2015).
+ */
+function coarseGrid(width: number, height: number, r: number, s: number) {
+  return {
+    w: Math.max(1, Math.round(width / s)),
+    h: Math.max(1, Math.round(height / s)),
+    r: Math.max(1, Math.round(r / s))
+  };
 }
 
 /**
  * Joint Guided Filter Channel
+ *
+ * With `s > 1` the coefficients are computed on a grid subsampled by `s` and
+ * bilinearly upsampled before producing the output, which costs roughly 1/s^2
+ * of the box filtering.
  */
-function guidedFilterChannel(
+export function guidedFilterChannel(
   P: Float32Array, 
   I: Float32Array, 
   width: number, 
   height: number, 
   r: number, 
-  eps: number
+  eps: number,
+  s: number = 1
 ): Float32Array {
-  const meanI = boxFilter(I, width, height, r);
-  const meanP = boxFilter(P, width, height, r);
-  
-  const II = new Float32Array(I.length);
-  const IP = new Float32Array(I.length);
+  let meanA: Float32Array;
+  let meanB: Float32Array;
+  if (s > 1) {
+    const c = coarseGrid(width, height, r, s);
+    const { a, b } = linearCoefficients(
+      resampleChannel(P, width, height, c.w, c.h),
+      resampleChannel(I, width, height, c.w, c.h),
+      c.w, c.h, c.r, eps
+    );
+    meanA = resampleChannel(boxFilter(a, c.w, c.h, c.r), c.w, c.h, width, height);
+    meanB = resampleChannel(boxFilter(b, c.w, c.h, c.r), c.w, c.h, width, height);
+  } else {
+    const { a, b } = linearCoefficients(P, I, width, height, r, eps);
+    meanA = boxFilter(a, width, height, r);
+    meanB = boxFilter(b, width, height, r);
+  }
+
+  const q = new Float32Array(I.length);
   for (let i = 0; i < I.length; i++) {
-    II[i] = I[i] * I[i];
-    IP[i] = I[i] * P[i];
+    q[i] = meanA[i] * I[i] + meanB[i];
   }
 
-  const varI = boxFilter(II, width, height, r);
-  const covIP = boxFilter(IP, width, height, r);
+  return q;
+}
 
-  for (let i = 0; i < I.length; i++) {
-    varI[i] = varI[i] - meanI[i] * meanI[i];
-    covIP[i] = covIP[i] - meanI[i] * meanP[i];
+/**
+ * Window-averaged coefficients of `P` on `I` plus the second-order means
+ * (a^2, a*b) that appear when the regressed image is itself being solved for.
+ * `s > 1` computes them on a subsampled grid, as in `guidedFilterChannel`;
+ * `mask` restricts every window average to the masked pixels.
+ */
+function mutualCoefficients(
+  P: Float32Array,
+  I: Float32Array,
+  width: number,
+  height: number,
+  r: number,
+  eps: number,
+  onPass: () => void,
+  s: number = 1,
+  mask?: Float32Array
+): { meanA: Float32Array; meanB: Float32Array; meanAA: Float32Array; meanAB: Float32Array } {
+  if (s > 1) {
+    const c = coarseGrid(width, height, r, s);
+    const down = (m: Float32Array) => resampleChannel(m, width, height, c.w, c.h);
+    const coarse = mutualCoefficients(
+      down(P), down(I), c.w, c.h, c.r, eps, onPass, 1, mask && down(mask)
+    );
+    const up = (m: Float32Array) => resampleChannel(m, c.w, c.h, width, height);
+    return {
+      meanA: up(coarse.meanA),
+      meanB: up(coarse.meanB),
+      meanAA: up(coarse.meanAA),
+      meanAB: up(coarse.meanAB)
+    };
   }
 
-  const a = new Float32Array(I.length);
-  const b = new Float32Array(I.length);
+  const { a, b } = linearCoefficients(P, I, width, height, r, eps, onPass, mask);
+
+  const aa = new Float32Array(I.length);
+  const ab = new Float32Array(I.length);
   for (let i = 0; i < I.length; i++) {
-    a[i] = covIP[i] / (varI[i] + eps);
-    b[i] = meanP[i] - a[i] * meanI[i];
+    aa[i] = a[i] * a[i];
+    ab[i] = a[i] * b[i];
   }
 
-  const meanA = boxFilter(a, width, height, r);
-  const meanB = boxFilter(b, width, height, r);
+  const windowed = windowMean(width, height, r, mask);
+  const means = [a, b, aa, ab].map(m => {
+    const mean = windowed(m);
+    onPass();
+    return mean;
+  });
 
-  const q = new Float32Array(I.length);
-  for (let i = 0; i < I.length; i++) {
-    q[i] = meanA[i] * I[i] + meanB[i];
+  return { meanA: means[0], meanB: means[1], meanAA: means[2], meanAB: means[3] };
+}
+
+/**
+ * Solves the symmetric 3x3 system `A x = y` (A given as its upper triangle
+ * xx, xy, xz, yy, yz, zz) by cofactor expansion, writing x into `out[*][i]`.
+ */
+function solveSymmetric3(
+  a00: number, a01: number, a02: number, a11: number, a12: number, a22: number,
+  y0: number, y1: number, y2: number,
+  out: Float32Array[], i: number
+) {
+  const c00 = a11 * a22 - a12 * a12;
+  const c01 = a02 * a12 - a01 * a22;
+  const c02 = a01 * a12 - a02 * a11;
+  const c11 = a00 * a22 - a02 * a02;
+  const c12 = a01 * a02 - a00 * a12;
+  const c22 = a00 * a11 - a01 * a01;
+  const det = a00 * c00 + a01 * c01 + a02 * c02;
+  out[0][i] = (c00 * y0 + c01 * y1 + c02 * y2) / det;
+  out[1][i] = (c01 * y0 + c11 * y1 + c12 * y2) / det;
+  out[2][i] = (c02 * y0 + c12 * y1 + c22 * y2) / det;
+}
+
+type ColorCoefficients = {
+  /** Per regressed channel d, the window means of its vector coefficient a_d. */
+  meanA: Float32Array[][];
+  meanB: Float32Array[];
+  /** sum_d mean(a_d a_d^T), upper triangle in `SYM3` order. */
+  meanAAt: Float32Array[];
+  /** sum_d mean(a_d b_d). */
+  meanAB: Float32Array[];
+};
+
+/**
+ * Color guided filter coefficients (He et al., 2010): every channel of `P` is
+ * regressed on the RGB vector of `I` through the per-pixel 3x3 covariance,
+ * a_d = (Sigma_I + eps U)^-1 cov(I, P_d). Also returns the second-order means
+ * needed when `I` is itself solved for. `mask` restricts the window
+ * statistics as in `mutualCoefficients`.
+ */
+function colorCoefficients(
+  P: Float32Array[],
+  I: Float32Array[],
+  width: number,
+  height: number,
+  r: number,
+  eps: number,
+  onPass: () => void,
+  s: number = 1,
+  mask?: Float32Array
+): ColorCoefficients {
+  if (s > 1) {
+    const c = coarseGrid(width, height, r, s);
+    const down = (m: Float32Array) => resampleChannel(m, width, height, c.w, c.h);
+    const coarse = colorCoefficients(P.map(down), I.map(down), c.w, c.h, c.r, eps, onPass, 1, mask && down(mask));
+    const up = (m: Float32Array) => resampleChannel(m, c.w, c.h, width, height);
+    return {
+      meanA: coarse.meanA.map(a => a.map(up)),
+      meanB: coarse.meanB.map(up),
+      meanAAt: coarse.meanAAt.map(up),
+      meanAB: coarse.meanAB.map(up)
+    };
   }
 
-  return q;
+  const n = width * height;
+  const windowed = windowMean(width, height, r, mask);
+  const box = (data: Float32Array) => {
+    const mean = windowed(data);
+    onPass();
+    return mean;
+  };
+  const product = (x: Float32Array, y: Float32Array) => {
+    const out = new Float32Array(n);
+    for (let i = 0; i < n; i++) out[i] = x[i] * y[i];
+    return out;
+  };
+
+  const meanI = I.map(box);
+  const sigma = SYM3.map(([j, k]) => box(product(I[j], I[k])));
+  for (let e = 0; e < SYM3.length; e++) {
+    const [j, k] = SYM3[e];
+    for (let i = 0; i < n; i++) {
+      sigma[e][i] -= meanI[j][i] * meanI[k][i];
+      if (j === k) sigma[e][i] += eps;
+    }
+  }
+
+  const aa = SYM3.map(() => new Float32Array(n));
+  const ab = [0, 1, 2].map(() => new Float32Array(n));
+  const meanA: Float32Array[][] = [];
+  const meanB: Float32Array[] = [];
+
+  for (const Pd of P) {
+    const meanP = box(Pd);
+    const cov = I.map((Ik, k) => {
+      const c = box(product(Ik, Pd));
+      for (let i = 0; i < n; i++) c[i] -= meanI[k][i] * meanP[i];
+      return c;
+    });
+
+    const a = [0, 1, 2].map(() => new Float32Array(n));
+    const b = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      solveSymmetric3(
+        sigma[0][i], sigma[1][i], sigma[2][i], sigma[3][i], sigma[4][i], sigma[5][i],
+        cov[0][i], cov[1][i], cov[2][i],
+        a, i
+      );
+      b[i] = meanP[i] - a[0][i] * meanI[0][i] - a[1][i] * meanI[1][i] - a[2][i] * meanI[2][i];
+      for (let e = 0; e < SYM3.length; e++) aa[e][i] += a[SYM3[e][0]][i] * a[SYM3[e][1]][i];
+      for (let k = 0; k < 3; k++) ab[k][i] += a[k][i] * b[i];
+    }
+
+    meanA.push(a.map(box));
+    meanB.push(box(b));
+  }
+
+  return { meanA, meanB, meanAAt: aa.map(box), meanAB: ab.map(box) };
 }
 
-export function extractRGB(imageData: ImageData): ImageDataRGB {
-  const { width, height, data } = imageData;
+/**
+ * Pointwise color update of image X (3 channels) given the other image Y:
+ *
+ *   ((1 + lambda) U + sum_d mean(a'_d a'_d^T)) X_j
+ *     = mean(A) Y_j + mean(B) - sum_d mean(a'_d b'_d) + sum_d mean(a'_d) Y_dj + lambda X0_j
+ *
+ * where (A, B) regress X on Y and (a'_d, b'_d) regress Y_d on X.
+ */
+function solveColorUpdate(
+  Y: Float32Array[],
+  X0: Float32Array[],
+  lambda: number,
+  xOnY: ColorCoefficients,
+  yOnX: ColorCoefficients
+): Float32Array[] {
+  const n = Y[0].length;
+  const out = [0, 1, 2].map(() => new Float32Array(n));
+  const rhs = [0, 0, 0];
+
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < 3; k++) {
+      const A = xOnY.meanA[k];
+      rhs[k] = A[0][i] * Y[0][i] + A[1][i] * Y[1][i] + A[2][i] * Y[2][i] + xOnY.meanB[k][i]
+        - yOnX.meanAB[k][i] + lambda * X0[k][i];
+      for (let d = 0; d < 3; d++) rhs[k] += yOnX.meanA[d][k][i] * Y[d][i];
+    }
+    const M = yOnX.meanAAt;
+    solveSymmetric3(
+      M[0][i] + 1 + lambda, M[1][i], M[2][i], M[3][i] + 1 + lambda, M[4][i], M[5][i] + 1 + lambda,
+      rhs[0], rhs[1], rhs[2],
+      out, i
+    );
+  }
+
+  return out;
+}
+
+/**
+ * Per-pixel mutual-structure confidence in [0, 1]: the squared local
+ * correlation cov(T, G)^2 / ((var T + eps)(var G + eps)) of two grayscale
+ * images. It is close to 1 on edges present in both and close to 0 in flat
+ * regions or where only one image has structure. `mask` restricts the window
+ * statistics to the masked pixels.
+ */
+export function mutualStructureConfidence(
+  T: Float32Array,
+  G: Float32Array,
+  width: number,
+  height: number,
+  r: number,
+  eps: number,
+  onPass: () => void = () => {},
+  mask?: Float32Array
+): Float32Array {
+  const n = T.length;
+  const TT = new Float32Array(n);
+  const GG = new Float32Array(n);
+  const TG = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    TT[i] = T[i] * T[i];
+    GG[i] = G[i] * G[i];
+    TG[i] = T[i] * G[i];
+  }
+
+  const windowed = windowMean(width, height, r, mask);
+  const [meanT, meanG, corrTT, corrGG, corrTG] = [T, G, TT, GG, TG].map(m => {
+    const mean = windowed(m);
+    onPass();
+    return mean;
+  });
+
+  const confidence = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const varT = Math.max(0, corrTT[i] - meanT[i] * meanT[i]);
+    const varG = Math.max(0, corrGG[i] - meanG[i] * meanG[i]);
+    const cov = corrTG[i] - meanT[i] * meanG[i];
+    confidence[i] = Math.min(1, (cov * cov) / ((varT + eps) * (varG + eps)));
+  }
+
+  return confidence;
+}
+
+/**
+ * Intermediate quantities of the guided filter of target luminance P on
+ * guidance luminance I, for inspection:
+ *
+ *   varI   local variance of I
+ *   covIP  local covariance of I and P
+ *   a      covIP / (varI + eps), the local edge strength carried from I to P
+ *   mutual rho^2 min(eP, eI) - (1 - rho^2) max(eP, eI), in [-1, 1]
+ *
+ * where e = var / (var + eps) marks an edge in each image and rho^2 is the
+ * `mutualStructureConfidence`. `mutual` is positive on edges present in both
+ * images, negative on edges present in only one and near 0 in flat regions.
+ */
+export function structureMaps(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  r: number,
+  eps: number,
+  mask?: Float32Array
+): StructureMaps {
+  const { width, height } = target;
+  const P = luminance(target);
+  const I = luminance(guidance);
+  const n = P.length;
+  const PP = new Float32Array(n);
+  const II = new Float32Array(n);
+  const IP = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    PP[i] = P[i] * P[i];
+    II[i] = I[i] * I[i];
+    IP[i] = I[i] * P[i];
+  }
+
+  const windowed = windowMean(width, height, r, mask);
+  const [meanP, meanI, corrPP, corrII, corrIP] = [P, I, PP, II, IP].map(windowed);
+
+  const a = new Float32Array(n);
+  const varI = new Float32Array(n);
+  const covIP = new Float32Array(n);
+  const mutual = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const vP = Math.max(0, corrPP[i] - meanP[i] * meanP[i]);
+    const vI = Math.max(0, corrII[i] - meanI[i] * meanI[i]);
+    const cov = corrIP[i] - meanI[i] * meanP[i];
+    varI[i] = vI;
+    covIP[i] = cov;
+    a[i] = cov / (vI + eps);
+    const rho2 = Math.min(1, (cov * cov) / ((vP + eps) * (vI + eps)));
+    const eP = vP / (vP + eps);
+    const eI = vI / (vI + eps);
+    mutual[i] = rho2 * Math.min(eP, eI) - (1 - rho2) * Math.max(eP, eI);
+  }
+
+  const gray = (data: Float32Array): ImageDataGray => ({ data, width, height });
+  return { a: gray(a), varI: gray(varI), covIP: gray(covIP), mutual: gray(mutual) };
+}
+
+export function luminance(rgb: { r: Float32Array; g: Float32Array; b: Float32Array }): Float32Array {
+  const gray = new Float32Array(rgb.r.length);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgb.r[i] + 0.587 * rgb.g[i] + 0.114 * rgb.b[i];
+  }
+  return gray;
+}
+
+/**
+ * Splits an interleaved buffer (gray, gray+alpha, RGB or RGBA) into normalised
+ * float channels. Alpha is kept as `a` unless every pixel is fully opaque.
+ */
+export function extractRGBData(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels: number = 4,
+  maxValue: number = 255
+): ImageDataRGB {
   const size = width * height;
   const r = new Float32Array(size);
   const g = new Float32Array(size);
   const b = new Float32Array(size);
+  const hasAlpha = channels === 2 || channels === 4;
+  const a = new Float32Array(hasAlpha ? size : 0);
+  let translucent = false;
 
   for (let i = 0; i < size; i++) {
-    r[i] = data[i * 4] / 255;
-    g[i] = data[i * 4 + 1] / 255;
-    b[i] = data[i * 4 + 2] / 255;
+    const o = i * channels;
+    if (channels < 3) {
+      r[i] = g[i] = b[i] = data[o] / maxValue;
+    } else {
+      r[i] = data[o] / maxValue;
+      g[i] = data[o + 1] / maxValue;
+      b[i] = data[o + 2] / maxValue;
+    }
+    if (hasAlpha) {
+      a[i] = data[o + channels - 1] / maxValue;
+      if (a[i] < 1) translucent = true;
+    }
   }
 
-  return { r, g, b, width, height };
+  return translucent ? { r, g, b, a, width, height } : { r, g, b, width, height };
 }
 
-export function combineRGB(rgb: ImageDataRGB): ImageData {
-  const { r, g, b, width, height } = rgb;
-  const data = new Uint8ClampedArray(width * height * 4);
+/**
+ * Interleaves float channels back into an 8-bit RGB or RGBA buffer; RGBA
+ * output is opaque where the image has no alpha channel.
+ */
+export function combineRGBData(rgb: ImageDataRGB, channels: 3 | 4 = 4): Uint8ClampedArray {
+  const { r, g, b, a, width, height } = rgb;
   const size = width * height;
+  const data = new Uint8ClampedArray(size * channels);
 
   for (let i = 0; i < size; i++) {
-    data[i * 4] = Math.min(255, Math.max(0, r[i] * 255));
-    data[i * 4 + 1] = Math.min(255, Math.max(0, g[i] * 255));
-    data[i * 4 + 2] = Math.min(255, Math.max(0, b[i] * 255));
-    data[i * 4 + 3] = 255;
+    const o = i * channels;
+    data[o] = Math.min(255, Math.max(0, r[i] * 255));
+    data[o + 1] = Math.min(255, Math.max(0, g[i] * 255));
+    data[o + 2] = Math.min(255, Math.max(0, b[i] * 255));
+    if (channels === 4) data[o + 3] = a ? Math.min(255, Math.max(0, a[i] * 255)) : 255;
   }
 
-  return new ImageData(data, width, height);
+  return data;
 }
 
+export function extractRGB(imageData: ImageData): ImageDataRGB {
+  const { width, height, data } = imageData;
+  return extractRGBData(data, width, height);
+}
+
+export function combineRGB(rgb: ImageDataRGB): ImageData {
+  return new ImageData(combineRGBData(rgb), rgb.width, rgb.height);
+}
+
+/**
+ * Bilinear resampling of every channel to `width` x `height` (pixel centres
+ * aligned, edges clamped).
+ */
+export function resampleRGB(rgb: ImageDataRGB, width: number, height: number): ImageDataRGB {
+  const resample = rgb.width === width && rgb.height === height
+    ? (src: Float32Array) => new Float32Array(src)
+    : (src: Float32Array) => resampleChannel(src, rgb.width, rgb.height, width, height);
+  const out: ImageDataRGB = { r: resample(rgb.r), g: resample(rgb.g), b: resample(rgb.b), width, height };
+  if (rgb.a) out.a = resample(rgb.a);
+  return out;
+}
+
+export function resampleChannel(
+  src: Float32Array,
+  srcWidth: number,
+  srcHeight: number,
+  width: number,
+  height: number
+): Float32Array {
+  const dest = new Float32Array(width * height);
+  const sx = srcWidth / width;
+  const sy = srcHeight / height;
+
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(Math.max((y + 0.5) * sy - 0.5, 0), srcHeight - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(y0 + 1, srcHeight - 1);
+    const wy = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(Math.max((x + 0.5) * sx - 0.5, 0), srcWidth - 1);
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(x0 + 1, srcWidth - 1);
+      const wx = fx - x0;
+      const top = src[y0 * srcWidth + x0] * (1 - wx) + src[y0 * srcWidth + x1] * wx;
+      const bottom = src[y1 * srcWidth + x0] * (1 - wx) + src[y1 * srcWidth + x1] * wx;
+      dest[y * width + x] = top * (1 - wy) + bottom * wy;
+    }
+  }
+
+  return dest;
+}
+
+/**
+ * Mutual-Structure Joint Filtering (Shen et al., ICCV 2015).
+ *
+ * Minimises, over the filtered target T and filtered guidance G,
+ *
+ *   sum_k sum_{j in w_k} (a_k G_j + b_k - T_j)^2 + (a'_k T_j + b'_k - G_j)^2
+ *     + eps (a_k^2 + a'_k^2)
+ *     + lambdaT |T - T0|^2 + lambdaG |G - G0|^2
+ *
+ * The first line is the dynamic (mutual structure) term: each image must be
+ * locally linear in the other, so structure present in only one of them is
+ * penalised in both directions. The last line is the static fidelity term that
+ * anchors each image to its input. Each iteration fixes T, G to solve the
+ * coefficients, then fixes the coefficients and solves T and G pointwise.
+ *
+ * In 'luminance' mode the guidance is collapsed to grayscale and its update
+ * accumulates the mutual terms of all three target channels. In 'color' mode
+ * both images stay RGB and each is regressed on the other's color vector, so
+ * a_k becomes a 3-vector per channel and the pointwise solve a 3x3 system;
+ * this keeps edges that differ only in chroma. `params.subsample` enables the
+ * fast guided filter approximation for the coefficient stage.
+ *
+ * `params.weight` in [0, 1] blends the result back towards the inputs where
+ * both show the same structure: each pixel becomes X0 + w (X - X0) with
+ * w = 1 - (1 - weight) c and c the `mutualStructureConfidence` of the inputs.
+ * At 1 the filtered output is returned unchanged; at 0 shared edges keep
+ * their original detail while texture elsewhere is still removed.
+ *
+ * An optional `mask` (values in [0, 1], same size as the target) restricts
+ * filtering to a region: window statistics are weighted by the mask, so
+ * excluded pixels do not bleed into the region, and the output is
+ * X0 + mask (X - X0), leaving excluded pixels untouched.
+ *
+ * Alpha channels are carried through unchanged.
+ *
+ * `initial`, if given, replaces the inputs as the starting estimates of T and
+ * G (e.g. an upsampled coarser result, see `applyPyramidFilter`); the
+ * fidelity terms still anchor to the inputs.
+ *
+ * The inputs are checked first (see `checkFilterInputs`): mismatched sizes,
+ * NaN samples, a non-positive epsilon or a window wider than the image throw
+ * an `MsjfError` before any work is done.
+ *
+ * `onProgress` is called after every box-filter pass. Aborting `signal` throws
+ * its reason at the next pass.
+ */
 export async function applyMutualStructureFilter(
   target: ImageDataRGB,
   guidance: ImageDataRGB,
   params: FilterParams,
-  onProgress: (p: number) => void
-): Promise<ImageDataRGB> {
+  onProgress: (p: number, detail?: FilterProgress) => void,
+  signal?: AbortSignal,
+  mask?: ImageDataGray,
+  initial?: MutualFilterResult
+): Promise<MutualFilterResult> {
+  checkFilterInputs(target, guidance, params, mask);
   const { width, height } = target;
-  const { radius, epsilon, iterations } = params;
+  const { T, G } = await mutualFilterChannels(
+    [target.r, target.g, target.b], CHANNEL_NAMES, guidance, params, onProgress, signal, mask?.data, initial
+  );
+  const result: MutualFilterResult = {
+    target: { r: T[0], g: T[1], b: T[2], width, height },
+    guidance: guidanceFromChannels(G, guidance, width, height)
+  };
+  if (target.a) result.target.a = new Float32Array(target.a);
+  return result;
+}
 
-  let currentR = new Float32Array(target.r);
-  let currentG = new Float32Array(target.g);
-  let currentB = new Float32Array(target.b);
+/**
+ * Single-channel variant of `applyMutualStructureFilter` for depth maps,
+ * confidence maps and other scalar targets. The guidance is always collapsed
+ * to luminance, since color guidance needs an RGB target to regress on.
+ * Inputs are checked like `applyMutualStructureFilter`'s.
+ */
+export async function applyMutualStructureFilterGray(
+  target: ImageDataGray,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  onProgress: (p: number, detail?: FilterProgress) => void,
+  signal?: AbortSignal,
+  mask?: ImageDataGray
+): Promise<{ target: ImageDataGray; guidance: ImageDataRGB }> {
+  checkFilterInputs(target, guidance, params, mask, 'gray');
+  const { width, height } = target;
+  const { T, G } = await mutualFilterChannels([target.data], ['Y'], guidance, params, onProgress, signal, mask?.data);
+  return {
+    target: { data: T[0], width, height },
+    guidance: guidanceFromChannels(G, guidance, width, height)
+  };
+}
+
+/**
+ * Expands the filtered guidance channels back to RGB, keeping the input
+ * guidance's alpha.
+ */
+function guidanceFromChannels(G: Float32Array[], source: ImageDataRGB, width: number, height: number): ImageDataRGB {
+  const [r, g = new Float32Array(G[0]), b = new Float32Array(G[0])] = G;
+  const out: ImageDataRGB = { r, g, b, width, height };
+  if (source.a) out.a = new Float32Array(source.a);
+  return out;
+}
 
-  // Convert guidance to grayscale
-  const grayI = new Float32Array(width * height);
-  for(let i=0; i < width * height; i++) {
-    grayI[i] = 0.299 * guidance.r[i] + 0.587 * guidance.g[i] + 0.114 * guidance.b[i];
+async function mutualFilterChannels(
+  T0: Float32Array[],
+  channelNames: string[],
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  onProgress: (p: number, detail?: FilterProgress) => void,
+  signal?: AbortSignal,
+  mask?: Float32Array,
+  initial?: MutualFilterResult
+): Promise<{ T: Float32Array[]; G: Float32Array[] }> {
+  const { width, height } = guidance;
+  const { radius, epsilon, iterations, weight, targetFidelity, guidanceFidelity, subsample, guidanceMode } = params;
+  const size = width * height;
+  const color = guidanceMode === 'color' && T0.length === 3;
+
+  // Luminance mode converts the guidance to grayscale
+  const G0 = color ? [guidance.r, guidance.g, guidance.b] : [luminance(guidance)];
+  const channelsOf = (rgb: ImageDataRGB) => [rgb.r, rgb.g, rgb.b];
+
+  if (initial && (initial.target.width !== width || initial.target.height !== height)) {
+    throw new ImageError(
+      'SIZE_MISMATCH', 'initial',
+      `The initial estimate is ${initial.target.width}x${initial.target.height} but the target is ${width}x${height}`
+    );
   }
+  let T = (initial ? channelsOf(initial.target).slice(0, T0.length) : T0).map(c => new Float32Array(c));
+  let G = initial
+    ? (color ? channelsOf(initial.guidance) : [luminance(initial.guidance)]).map(c => new Float32Array(c))
+    : G0.map(c => new Float32Array(c));
+
+  const blend = weight < 1;
+  const totalPasses = iterations * 2 * (color ? COLOR_BOX_PASSES : T.length * MUTUAL_BOX_PASSES)
+    + (blend ? CONFIDENCE_BOX_PASSES : 0);
+  let pass = 0;
+  const tracker = (iteration: number, channel: string, direction: FilterProgress['direction']) => () => {
+    signal?.throwIfAborted();
+    pass++;
+    onProgress((pass / totalPasses) * 100, { iteration, channel, direction, pass, totalPasses });
+  };
 
   for (let iter = 0; iter < iterations; iter++) {
-    onProgress((iter / iterations) * 100);
+    signal?.throwIfAborted();
     await new Promise(resolve => setTimeout(resolve, 10));
 
-    // Iterative application of Guided Filter using the joint structure
-    // In a more complex mutual structure filter, both would be updated.
-    // For this approximation, we filter the target using the guidance structure.
-    currentR = guidedFilterChannel(currentR, grayI, width, height, radius, epsilon);
-    currentG = guidedFilterChannel(currentG, grayI, width, height, radius, epsilon);
-    currentB = guidedFilterChannel(currentB, grayI, width, height, radius, epsilon);
+    if (color) {
+      const forward = colorCoefficients(
+        T, G, width, height, radius, epsilon, tracker(iter, 'RGB', 'guidance-to-target'), subsample, mask
+      );
+      const backward = colorCoefficients(
+        G, T, width, height, radius, epsilon, tracker(iter, 'RGB', 'target-to-guidance'), subsample, mask
+      );
+      const nextT = solveColorUpdate(G, T0, targetFidelity, forward, backward);
+      G = solveColorUpdate(T, G0, guidanceFidelity, backward, forward);
+      T = nextT;
+      continue;
+    }
+
+    const gray = G[0];
+
+    // Coefficients from the current estimates: G -> T and T -> G per channel
+    const forward = T.map((c, ch) => mutualCoefficients(
+      c, gray, width, height, radius, epsilon, tracker(iter, channelNames[ch], 'guidance-to-target'), subsample, mask
+    ));
+    const backward = T.map((c, ch) => mutualCoefficients(
+      gray, c, width, height, radius, epsilon, tracker(iter, channelNames[ch], 'target-to-guidance'), subsample, mask
+    ));
+
+    // Solve T per channel with G fixed at the previous estimate
+    const nextT = T.map((c, ch) => {
+      const f = forward[ch];
+      const bw = backward[ch];
+      const out = new Float32Array(size);
+      for (let i = 0; i < size; i++) {
+        const num = f.meanA[i] * gray[i] + f.meanB[i]
+          + bw.meanA[i] * gray[i] - bw.meanAB[i]
+          + targetFidelity * T0[ch][i];
+        out[i] = num / (1 + bw.meanAA[i] + targetFidelity);
+      }
+      return out;
+    });
+
+    // Solve G with T fixed at the previous estimate, summing all channel pairs
+    const nextG = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      let num = T.length * guidanceFidelity * G0[0][i];
+      let den = T.length * (1 + guidanceFidelity);
+      for (let ch = 0; ch < T.length; ch++) {
+        const f = forward[ch];
+        const bw = backward[ch];
+        num += bw.meanA[i] * T[ch][i] + bw.meanB[i]
+          + f.meanA[i] * T[ch][i] - f.meanAB[i];
+        den += f.meanAA[i];
+      }
+      nextG[i] = num / den;
+    }
+
+    T = nextT;
+    G = [nextG];
+  }
+
+  if (blend) {
+    // Structure-weighted blending: pull pixels on mutual structure back to the inputs
+    const confidence = mutualStructureConfidence(
+      T0.length === 3 ? luminance({ r: T0[0], g: T0[1], b: T0[2] }) : T0[0], luminance(guidance),
+      width, height, radius, epsilon,
+      tracker(iterations - 1, 'Y', 'confidence'), mask
+    );
+    const restore = (X: Float32Array[], X0: Float32Array[]) => {
+      for (let ch = 0; ch < X.length; ch++) {
+        for (let i = 0; i < size; i++) {
+          const w = 1 - (1 - weight) * confidence[i];
+          X[ch][i] = X0[ch][i] + w * (X[ch][i] - X0[ch][i]);
+        }
+      }
+    };
+    restore(T, T0);
+    restore(G, G0);
+  }
+
+  if (mask) {
+    // Pixels outside the mask keep their input values
+    for (const [X, X0] of [[T, T0], [G, G0]]) {
+      for (let ch = 0; ch < X.length; ch++) {
+        for (let i = 0; i < size; i++) X[ch][i] = X0[ch][i] + mask[i] * (X[ch][i] - X0[ch][i]);
+      }
+    }
   }
 
-  onProgress(100);
-  return { r: currentR, g: currentG, b: currentB, width, height };
+  return { T, G };
 }
@@ -0,0 +1,74 @@
+import { ImageDataRGB } from '../types';
+import { extractRGB } from './filters';
+import { loadImageRGB } from './imageLoader';
+import { compareFrameNames, FrameSource, MAX_SEQUENCE_FRAMES } from './sequence';
+
+/** Frames per second a video is sampled at when no rate is given. */
+export const DEFAULT_VIDEO_FPS = 10;
+
+/** A numbered image series, in natural name order. */
+export function fileSequenceSource(files: File[]): FrameSource {
+  const ordered = [...files].sort((a, b) => compareFrameNames(a.name, b.name)).slice(0, MAX_SEQUENCE_FRAMES);
+  return {
+    count: ordered.length,
+    name: index => ordered[index].name,
+    async load(index) {
+      const url = URL.createObjectURL(ordered[index]);
+      try {
+        return await loadImageRGB(url);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  };
+}
+
+/** A single image standing in for every frame, e.g. a fixed guidance shot. */
+export function stillSource(src: string, name = 'still'): FrameSource {
+  return { count: 1, name: () => name, load: () => loadImageRGB(src) };
+}
+
+/**
+ * A video file decoded by the browser at `fps` frames per second, by seeking
+ * to the middle of each frame interval. Frames are 8-bit and decoded on
+ * demand, one at a time.
+ */
+export async function videoSource(file: File, fps = DEFAULT_VIDEO_FPS): Promise<FrameSource> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = URL.createObjectURL(file);
+  await new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve();
+    video.onerror = () => reject(new Error(`The browser cannot decode ${file.name}`));
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const count = Math.min(MAX_SEQUENCE_FRAMES, Math.max(1, Math.floor(video.duration * fps)));
+  const stem = file.name.replace(/\.[^.]+$/, '');
+  return {
+    count,
+    dispose: () => URL.revokeObjectURL(video.src),
+    name: index => `${stem}_${String(index + 1).padStart(4, '0')}`,
+    async load(index): Promise<ImageDataRGB> {
+      await new Promise<void>((resolve, reject) => {
+        video.onseeked = () => resolve();
+        video.onerror = () => reject(new Error(`Could not decode frame ${index + 1} of ${file.name}`));
+        video.currentTime = Math.min(video.duration, (index + 0.5) / fps);
+      });
+      ctx.drawImage(video, 0, 0);
+      return extractRGB(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    }
+  };
+}
+
+/** A video when given one video file, otherwise an image series. */
+export async function frameSourceFor(files: File[], fps?: number): Promise<FrameSource> {
+  if (files.length === 1 && files[0].type.startsWith('video/')) return videoSource(files[0], fps);
+  return fileSequenceSource(files);
+}
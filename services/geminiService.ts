@@ -1,25 +1,77 @@
-
 import { GoogleGenAI } from "@google/genai";
+import { AnalysisRequest, AnalysisResult, ImageDescriptor } from '../types';
+import { AnalysisProvider } from './analysis';
+import { validateParams } from './presets';
+
+const MODEL = 'gemini-3-flash-preview';
+
+/** Descriptor without its thumbnail, which is sent as an image part instead. */
+const statistics = ({ thumbnail: _thumbnail, ...stats }: ImageDescriptor) => stats;
+
+const inlinePNG = (dataURL: string) => ({
+  inlineData: { mimeType: 'image/png', data: dataURL.slice(dataURL.indexOf(',') + 1) }
+});
 
-export class GeminiService {
+/**
+ * Remote provider: sends the two thumbnails and their statistics to Gemini
+ * and asks for a short assessment plus parameter changes as JSON. Only
+ * offered when an API key was configured at build time.
+ */
+export class GeminiService implements AnalysisProvider {
+  readonly name = 'gemini';
+  readonly label = 'Gemini';
+  readonly remote = true;
   private ai: GoogleGenAI;
 
+  static isConfigured(): boolean {
+    return Boolean(process.env.API_KEY);
+  }
+
   constructor() {
     this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
   }
 
-  async explainMutualStructure(targetDesc: string, guidanceDesc: string) {
+  async analyse(request: AnalysisRequest): Promise<AnalysisResult> {
     const response = await this.ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Explain how "Mutual Structure-preserving Texture Filtering" would benefit these two images: 
-      1. Target: ${targetDesc}
-      2. Guidance: ${guidanceDesc}
-      
-      The goal is to keep edges present in both while removing texture. Keep it brief and professional.`,
+      model: MODEL,
+      contents: [{
+        role: 'user',
+        parts: [
+          {
+            text: `You tune a mutual-structure joint filter (iterated guided filtering in both directions) that keeps edges present in both images and removes texture.
+Mode: ${request.mode}. Current parameters: ${JSON.stringify(request.params)}.
+Epsilon ranges 0.0001-0.05 (larger smooths more), radius 1-20 pixels at full resolution.
+Target statistics: ${JSON.stringify(statistics(request.target))}.
+Guidance statistics: ${JSON.stringify(statistics(request.guidance))}.
+Gradient correlation between them: ${request.gradientCorrelation.toFixed(3)}.
+The first image is the target thumbnail, the second the guidance thumbnail.
+Reply with JSON: {"summary": two or three sentences about these specific images, "params": only the parameters you would change, "rationale": one sentence}.`
+          },
+          inlinePNG(request.target.thumbnail),
+          inlinePNG(request.guidance.thumbnail)
+        ]
+      }],
       config: {
+        responseMimeType: 'application/json',
         thinkingConfig: { thinkingBudget: 0 }
       }
     });
-    return response.text;
+
+    const reply = JSON.parse(response.text ?? '{}') as { summary?: unknown; params?: unknown; rationale?: unknown };
+    const result: AnalysisResult = {
+      provider: 'gemini',
+      summary: typeof reply.summary === 'string' ? reply.summary : 'No assessment returned.'
+    };
+    if (reply.params && typeof reply.params === 'object') {
+      try {
+        result.suggestion = {
+          params: validateParams({ ...request.params, ...reply.params }),
+          rationale: typeof reply.rationale === 'string' ? reply.rationale : ''
+        };
+      } catch (err) {
+        console.warn("Ignoring invalid suggested parameters", err);
+      }
+    }
+    return result;
   }
 }
@@ -0,0 +1,80 @@
+import { ImageDataGray, ImageDataRGB } from '../types';
+import { decodeGray, decodeImage, sniffFormat } from './codecs';
+import { combineRGB, extractRGB, luminance } from './filters';
+
+/** Fetches the bytes behind a data or object URL. */
+export async function readBytes(src: string): Promise<Uint8Array> {
+  return new Uint8Array(await (await fetch(src)).arrayBuffer());
+}
+
+/** Base64 data URL of `bytes`; the inverse of `readBytes`. */
+export function bytesToDataURL(bytes: Uint8Array, type: string): string {
+  let binary = '';
+  // Chunked so the argument list stays within engine limits
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${type};base64,${btoa(binary)}`;
+}
+
+/**
+ * Draws a browser-decodable image into an 8-bit canvas buffer.
+ */
+async function decodeWithCanvas(src: string): Promise<ImageDataRGB> {
+  const img = new Image();
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = reject;
+    img.src = src;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0);
+  return extractRGB(ctx.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+/**
+ * Loads an image from a data or object URL at full precision: PNG (up to
+ * 16-bit), PFM and Netpbm go through our own decoders, anything else through
+ * the browser's 8-bit canvas path.
+ */
+export async function loadImageRGB(src: string): Promise<ImageDataRGB> {
+  const bytes = await readBytes(src);
+  const format = sniffFormat(bytes);
+  return format ? decodeImage(bytes, format) : decodeWithCanvas(src);
+}
+
+/**
+ * Single-channel counterpart of `loadImageRGB`, reducing color to luminance.
+ */
+export async function loadImageGray(src: string): Promise<ImageDataGray> {
+  const bytes = await readBytes(src);
+  const format = sniffFormat(bytes);
+  if (format) return decodeGray(bytes, format).image;
+
+  const rgb = await decodeWithCanvas(src);
+  return { data: luminance(rgb), width: rgb.width, height: rgb.height };
+}
+
+/**
+ * Returns a URL an `<img>` can show: the source itself for formats browsers
+ * display, otherwise an 8-bit PNG rendering of the decoded image.
+ */
+export async function previewURL(src: string): Promise<string> {
+  const bytes = await readBytes(src);
+  const format = sniffFormat(bytes);
+  if (format === null || format === 'png') return src;
+
+  const rgb = decodeImage(bytes, format);
+  const canvas = document.createElement('canvas');
+  canvas.width = rgb.width;
+  canvas.height = rgb.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.putImageData(combineRGB(rgb), 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,345 @@
+import { FilterParams, FilterProgress, ImageDataGray, ImageDataRGB, KernelName, KernelParamSpec, KernelSettings, KernelValue } from '../types';
+import { cpuBackend } from './backend';
+import { applyMutualStructureFilter, luminance } from './filters';
+import { DEFAULT_PARAMS, validateParams } from './presets';
+import { ParamError } from './errors';
+import { checkFilterImages } from './validation';
+
+/**
+ * An edge-preserving filter behind a common interface, so the app and the CLI
+ * can run MSJF and the baselines reviewers compare it with interchangeably.
+ * `params` is the schema the Parameters panel renders; `apply` checks its
+ * values against it as `validateKernelValues` does, filling in defaults and
+ * throwing a `ParamError` for any out of range.
+ */
+export interface FilterKernel {
+  name: KernelName;
+  label: string;
+  description: string;
+  params: KernelParamSpec[];
+  defaults: Record<string, KernelValue>;
+  apply(
+    target: ImageDataRGB,
+    guidance: ImageDataRGB,
+    values: Record<string, KernelValue>,
+    onProgress: (p: number, detail?: FilterProgress) => void,
+    signal?: AbortSignal,
+    mask?: ImageDataGray
+  ): Promise<ImageDataRGB>;
+}
+
+/** Intensity steps of the range-kernel lookup table over [0, 1]. */
+const RANGE_LUT_SIZE = 1024;
+
+/** Histogram bins per channel for the weighted median. */
+const MEDIAN_BINS = 256;
+
+/** Rows filtered between progress reports and abort checks. */
+const ROWS_PER_REPORT = 16;
+
+const CHANNELS = ['r', 'g', 'b'] as const;
+
+/** exp(−d² / 2σ²) sampled at |d| = i / (RANGE_LUT_SIZE − 1). */
+function rangeTable(sigma: number): Float32Array {
+  const table = new Float32Array(RANGE_LUT_SIZE);
+  for (let i = 0; i < RANGE_LUT_SIZE; i++) {
+    const d = i / (RANGE_LUT_SIZE - 1);
+    table[i] = Math.exp(-(d * d) / (2 * sigma * sigma));
+  }
+  return table;
+}
+
+const rangeWeight = (table: Float32Array, d: number) =>
+  table[Math.min(RANGE_LUT_SIZE - 1, Math.round(Math.abs(d) * (RANGE_LUT_SIZE - 1)))];
+
+/**
+ * Reports row progress as a share of `total` rows across all passes, and
+ * throws when `signal` is aborted.
+ */
+function rowReporter(height: number, passes: number, onProgress: (p: number) => void, signal?: AbortSignal) {
+  return (pass: number, y: number) => {
+    if (y % ROWS_PER_REPORT !== 0) return;
+    signal?.throwIfAborted();
+    onProgress(((pass * height + y) / (passes * height)) * 100);
+  };
+}
+
+/**
+ * Joint bilateral filter of `channels` with range weights taken from the
+ * single-channel `guide` (Petschnigg et al. 2004; Kopf et al. 2007). Brute
+ * force over a window of radius ⌈2σs⌉.
+ */
+function bilateral(
+  channels: Float32Array[],
+  guide: Float32Array,
+  width: number,
+  height: number,
+  sigmaSpatial: number,
+  sigmaRange: number,
+  onRow: (y: number) => void
+): Float32Array[] {
+  const r = Math.max(1, Math.ceil(2 * sigmaSpatial));
+  const side = 2 * r + 1;
+  const spatial = new Float32Array(side * side);
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      spatial[(dy + r) * side + dx + r] = Math.exp(-(dx * dx + dy * dy) / (2 * sigmaSpatial * sigmaSpatial));
+    }
+  }
+  const range = rangeTable(sigmaRange);
+  const out = channels.map(() => new Float32Array(width * height));
+  const sums = new Float64Array(channels.length);
+
+  for (let y = 0; y < height; y++) {
+    onRow(y);
+    const y0 = Math.max(0, y - r);
+    const y1 = Math.min(height - 1, y + r);
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const x0 = Math.max(0, x - r);
+      const x1 = Math.min(width - 1, x + r);
+      const gp = guide[p];
+      let total = 0;
+      sums.fill(0);
+      for (let qy = y0; qy <= y1; qy++) {
+        const row = (qy - y + r) * side - x + r;
+        for (let qx = x0; qx <= x1; qx++) {
+          const q = qy * width + qx;
+          const w = spatial[row + qx] * rangeWeight(range, guide[q] - gp);
+          total += w;
+          for (let c = 0; c < channels.length; c++) sums[c] += w * channels[c][q];
+        }
+      }
+      for (let c = 0; c < channels.length; c++) out[c][p] = sums[c] / total;
+    }
+  }
+  return out;
+}
+
+/** Gaussian blur of standard deviation `sigma`, approximated by three box passes. */
+function gaussianBlur(data: Float32Array, width: number, height: number, sigma: number): Float32Array {
+  const r = Math.max(1, Math.round((Math.sqrt(4 * sigma * sigma + 1) - 1) / 2));
+  let out = data;
+  for (let pass = 0; pass < 3; pass++) out = cpuBackend.boxFilter(out, width, height, r);
+  return out;
+}
+
+/** Packs filtered channels as RGB, keeping the target's alpha and leaving pixels outside `mask` unchanged. */
+function finish(target: ImageDataRGB, channels: Float32Array[], mask?: ImageDataGray): ImageDataRGB {
+  if (mask) {
+    for (let c = 0; c < 3; c++) {
+      const input = target[CHANNELS[c]];
+      for (let i = 0; i < input.length; i++) channels[c][i] = input[i] + mask.data[i] * (channels[c][i] - input[i]);
+    }
+  }
+  const out: ImageDataRGB = { r: channels[0], g: channels[1], b: channels[2], width: target.width, height: target.height };
+  if (target.a) out.a = new Float32Array(target.a);
+  return out;
+}
+
+const number = (values: Record<string, KernelValue>, key: string) => Number(values[key]);
+
+const SIGMA_SPATIAL: KernelParamSpec = {
+  key: 'sigmaSpatial', label: 'Spatial Sigma', type: 'range', min: 0.5, max: 10, step: 0.5, format: v => `${v}px`
+};
+const SIGMA_RANGE: KernelParamSpec = {
+  key: 'sigmaRange', label: 'Range Sigma', type: 'range', min: 0.01, max: 0.5, step: 0.01, format: v => v.toFixed(2),
+  hint: 'Intensity difference in the guide at which a neighbour\'s weight falls to 0.6.'
+};
+
+const msjf: FilterKernel = {
+  name: 'msjf',
+  label: 'Mutual Structure',
+  description: 'Mutual-structure joint filtering (Shen et al. 2015): both images are filtered towards the structure they share.',
+  params: [
+    { key: 'radius', label: 'Radius', type: 'range', min: 1, max: 20, step: 1, format: v => `${v}px` },
+    { key: 'epsilon', label: 'Smoothness', type: 'range', min: 0.0001, max: 0.05, step: 0.0001, format: v => v.toFixed(4) },
+    { key: 'iterations', label: 'Iterations', type: 'range', min: 1, max: 15, step: 1 },
+    { key: 'targetFidelity', label: 'Target Fidelity', type: 'range', min: 0, max: 1, step: 0.01, format: v => v.toFixed(2) },
+    { key: 'guidanceFidelity', label: 'Guidance Fidelity', type: 'range', min: 0, max: 1, step: 0.01, format: v => v.toFixed(2) },
+    {
+      key: 'subsample', label: 'Subsampling', type: 'range', min: 1, max: 8, step: 1,
+      format: v => (v === 1 ? 'Exact' : `${v}x`),
+      hint: 'Fast guided filter: coefficients are computed on a coarser grid, trading edge accuracy for speed.'
+    },
+    {
+      key: 'weight', label: 'Structure Weight', type: 'range', min: 0, max: 1, step: 0.01, format: v => v.toFixed(2),
+      hint: 'Share of the filtered result kept on edges shared by both images. At 1 the output is fully filtered; lower values restore original detail along mutual structure.'
+    },
+    {
+      key: 'guidanceMode', label: 'Guidance', type: 'choice',
+      options: [{ value: 'luminance', label: 'Luminance' }, { value: 'color', label: 'Full Color' }]
+    }
+  ],
+  defaults: { ...DEFAULT_PARAMS },
+  async apply(target, guidance, values, onProgress, signal, mask) {
+    const params: FilterParams = validateParams({ ...DEFAULT_PARAMS, ...values });
+    return (await applyMutualStructureFilter(target, guidance, params, onProgress, signal, mask)).target;
+  }
+};
+
+const jointBilateral: FilterKernel = {
+  name: 'joint-bilateral',
+  label: 'Joint Bilateral',
+  description: 'Joint bilateral filter: a Gaussian average of the target weighted by similarity in the guidance luminance.',
+  params: [SIGMA_SPATIAL, SIGMA_RANGE],
+  defaults: { sigmaSpatial: 3, sigmaRange: 0.1 },
+  async apply(target, guidance, raw, onProgress, signal, mask) {
+    const { values } = validateKernelValues('joint-bilateral', raw);
+    checkFilterImages(target, guidance, mask);
+    const { width, height } = target;
+    const report = rowReporter(height, 1, onProgress, signal);
+    const channels = bilateral(
+      CHANNELS.map(c => target[c]), luminance(guidance), width, height,
+      number(values, 'sigmaSpatial'), number(values, 'sigmaRange'), y => report(0, y)
+    );
+    onProgress(100);
+    return finish(target, channels, mask);
+  }
+};
+
+const weightedMedian: FilterKernel = {
+  name: 'weighted-median',
+  label: 'Weighted Median',
+  description: `Joint weighted median (Zhang et al. 2014): each pixel takes the median of its window, weighted by guidance similarity; values are quantised to ${MEDIAN_BINS} levels per channel.`,
+  params: [
+    { key: 'radius', label: 'Radius', type: 'range', min: 1, max: 10, step: 1, format: v => `${v}px` },
+    SIGMA_RANGE
+  ],
+  defaults: { radius: 3, sigmaRange: 0.1 },
+  async apply(target, guidance, raw, onProgress, signal, mask) {
+    const { values } = validateKernelValues('weighted-median', raw);
+    checkFilterImages(target, guidance, mask);
+    const { width, height } = target;
+    const r = number(values, 'radius');
+    const range = rangeTable(number(values, 'sigmaRange'));
+    const guide = luminance(guidance);
+    const report = rowReporter(height, 1, onProgress, signal);
+
+    // Each channel is binned over its own value range
+    const bins = CHANNELS.map(c => {
+      const data = target[c];
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 0; i < data.length; i++) {
+        min = Math.min(min, data[i]);
+        max = Math.max(max, data[i]);
+      }
+      const scale = max > min ? (MEDIAN_BINS - 1) / (max - min) : 0;
+      const index = new Uint16Array(data.length);
+      for (let i = 0; i < data.length; i++) index[i] = Math.round((data[i] - min) * scale);
+      return { index, min, step: scale > 0 ? 1 / scale : 0 };
+    });
+
+    const channels = CHANNELS.map(() => new Float32Array(width * height));
+    const histograms = CHANNELS.map(() => new Float64Array(MEDIAN_BINS));
+    for (let y = 0; y < height; y++) {
+      report(0, y);
+      const y0 = Math.max(0, y - r);
+      const y1 = Math.min(height - 1, y + r);
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const x0 = Math.max(0, x - r);
+        const x1 = Math.min(width - 1, x + r);
+        histograms.forEach(h => h.fill(0));
+        let total = 0;
+        for (let qy = y0; qy <= y1; qy++) {
+          for (let qx = x0; qx <= x1; qx++) {
+            const q = qy * width + qx;
+            const w = rangeWeight(range, guide[q] - guide[p]);
+            total += w;
+            for (let c = 0; c < 3; c++) histograms[c][bins[c].index[q]] += w;
+          }
+        }
+        for (let c = 0; c < 3; c++) {
+          let acc = 0;
+          let bin = 0;
+          while (bin < MEDIAN_BINS - 1 && (acc += histograms[c][bin]) < total / 2) bin++;
+          channels[c][p] = bins[c].min + bin * bins[c].step;
+        }
+      }
+    }
+    onProgress(100);
+    return finish(target, channels, mask);
+  }
+};
+
+const rollingGuidance: FilterKernel = {
+  name: 'rolling-guidance',
+  label: 'Rolling Guidance',
+  description: 'Rolling guidance filter (Zhang et al. 2014): small structures are removed by a Gaussian, then large edges are recovered by joint bilateral passes guided by the previous result. It uses the target only.',
+  params: [
+    SIGMA_SPATIAL,
+    SIGMA_RANGE,
+    { key: 'iterations', label: 'Iterations', type: 'range', min: 1, max: 10, step: 1 }
+  ],
+  defaults: { sigmaSpatial: 3, sigmaRange: 0.1, iterations: 4 },
+  async apply(target, guidance, raw, onProgress, signal, mask) {
+    const { values } = validateKernelValues('rolling-guidance', raw);
+    checkFilterImages(target, guidance, mask);
+    const { width, height } = target;
+    const sigmaSpatial = number(values, 'sigmaSpatial');
+    const iterations = number(values, 'iterations');
+    const report = rowReporter(height, iterations, onProgress, signal);
+    const input = CHANNELS.map(c => target[c]);
+
+    let guide = input.map(c => gaussianBlur(c, width, height, sigmaSpatial));
+    for (let iter = 0; iter < iterations; iter++) {
+      const J = luminance({ r: guide[0], g: guide[1], b: guide[2] });
+      guide = bilateral(input, J, width, height, sigmaSpatial, number(values, 'sigmaRange'), y => report(iter, y));
+    }
+    onProgress(100);
+    return finish(target, guide, mask);
+  }
+};
+
+export const KERNELS: Record<KernelName, FilterKernel> = {
+  msjf,
+  'joint-bilateral': jointBilateral,
+  'weighted-median': weightedMedian,
+  'rolling-guidance': rollingGuidance
+};
+
+export function getKernel(name: KernelName): FilterKernel {
+  return KERNELS[name];
+}
+
+export function isKernelName(name: string): name is KernelName {
+  return Object.prototype.hasOwnProperty.call(KERNELS, name);
+}
+
+/**
+ * Checks `values` against the kernel's schema, filling missing keys from its
+ * defaults. Throws a `ParamError` naming the first value out of range.
+ */
+export function validateKernelValues(name: KernelName, values: Record<string, KernelValue>): KernelSettings {
+  const kernel = KERNELS[name];
+  const out: Record<string, KernelValue> = { ...kernel.defaults };
+  for (const spec of kernel.params) {
+    const value = values[spec.key] ?? kernel.defaults[spec.key];
+    if (spec.type === 'range') {
+      const n = Number(value);
+      if (!Number.isFinite(n) || n < spec.min || n > spec.max) {
+        throw new ParamError('INVALID_PARAM', spec.key, `${kernel.label}: ${spec.key} must be between ${spec.min} and ${spec.max}, got ${JSON.stringify(value)}`);
+      }
+      out[spec.key] = n;
+    } else {
+      if (!spec.options.some(option => option.value === value)) {
+        throw new ParamError('INVALID_PARAM', spec.key, `${kernel.label}: ${spec.key} must be one of ${spec.options.map(o => o.value).join(', ')}`);
+      }
+      out[spec.key] = value;
+    }
+  }
+  return { name, values: out };
+}
+
+/** One-line description of a kernel run, e.g. "Joint Bilateral · Spatial Sigma 3px · Range Sigma 0.10". */
+export function kernelSummary({ name, values }: KernelSettings): string {
+  const kernel = KERNELS[name];
+  const parts = kernel.params.map(spec => {
+    const value = values[spec.key];
+    if (spec.type === 'choice') return spec.options.find(o => o.value === value)?.label ?? String(value);
+    return `${spec.label} ${spec.format ? spec.format(Number(value)) : value}`;
+  });
+  return [kernel.label, ...parts].join(' · ');
+}
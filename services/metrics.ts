@@ -0,0 +1,160 @@
+import { FilterMetrics, ImageDataRGB } from '../types';
+import { cpuBackend } from './backend';
+import { luminance } from './filters';
+import { ImageError } from './errors';
+
+/** Window radius for SSIM and relative total variation (7x7 windows). */
+const WINDOW_RADIUS = 3;
+
+/** SSIM stabilisers for a dynamic range of 1 (Wang et al. 2004). */
+const SSIM_C1 = 0.01 ** 2;
+const SSIM_C2 = 0.03 ** 2;
+
+/** Keeps relative total variation finite on flat regions (Xu et al. 2012). */
+const RTV_EPSILON = 1e-3;
+
+const mean = (data: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i];
+  return sum / data.length;
+};
+
+const product = (x: Float32Array, y: Float32Array) => {
+  const out = new Float32Array(x.length);
+  for (let i = 0; i < x.length; i++) out[i] = x[i] * y[i];
+  return out;
+};
+
+/** Forward differences, zero on the last column and row. */
+function gradients(data: Float32Array, width: number, height: number) {
+  const dx = new Float32Array(data.length);
+  const dy = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x + 1 < width) dx[i] = data[i + 1] - data[i];
+      if (y + 1 < height) dy[i] = data[i + width] - data[i];
+    }
+  }
+  return { dx, dy };
+}
+
+/** Per-pixel magnitude of the forward-difference gradient. */
+export function gradientMagnitude(data: Float32Array, width: number, height: number): Float32Array {
+  const { dx, dy } = gradients(data, width, height);
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < out.length; i++) out[i] = Math.hypot(dx[i], dy[i]);
+  return out;
+}
+
+function pearson(x: Float32Array, y: Float32Array): number {
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    const a = x[i] - mx;
+    const b = y[i] - my;
+    sxy += a * b;
+    sxx += a * a;
+    syy += b * b;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+function assertSameSize(a: ImageDataRGB, b: ImageDataRGB) {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new ImageError('SIZE_MISMATCH', 'image', `Images differ in size: ${a.width}x${a.height} and ${b.width}x${b.height}`);
+  }
+}
+
+/** Peak signal-to-noise ratio over all three channels, in dB for a peak of 1. */
+export function psnr(a: ImageDataRGB, b: ImageDataRGB): number {
+  assertSameSize(a, b);
+  let sse = 0;
+  for (const c of ['r', 'g', 'b'] as const) {
+    for (let i = 0; i < a[c].length; i++) {
+      const d = a[c][i] - b[c][i];
+      sse += d * d;
+    }
+  }
+  const mse = sse / (3 * a.width * a.height);
+  return mse === 0 ? Infinity : 10 * Math.log10(1 / mse);
+}
+
+/** Mean structural similarity of the luminance, over 7x7 uniform windows. */
+export function ssim(a: ImageDataRGB, b: ImageDataRGB): number {
+  assertSameSize(a, b);
+  const { width, height } = a;
+  const box = (data: Float32Array) => cpuBackend.boxFilter(data, width, height, WINDOW_RADIUS);
+  const x = luminance(a);
+  const y = luminance(b);
+  const mx = box(x);
+  const my = box(y);
+  const mxx = box(product(x, x));
+  const myy = box(product(y, y));
+  const mxy = box(product(x, y));
+
+  let total = 0;
+  for (let i = 0; i < x.length; i++) {
+    const vx = mxx[i] - mx[i] * mx[i];
+    const vy = myy[i] - my[i] * my[i];
+    const cov = mxy[i] - mx[i] * my[i];
+    total += ((2 * mx[i] * my[i] + SSIM_C1) * (2 * cov + SSIM_C2))
+      / ((mx[i] * mx[i] + my[i] * my[i] + SSIM_C1) * (vx + vy + SSIM_C2));
+  }
+  return total / x.length;
+}
+
+/**
+ * Pearson correlation between the luminance gradient magnitudes of two
+ * images. Between a filter result and its guidance it measures how much of
+ * the shared structure survived: 1 means edges line up in strength.
+ */
+export function gradientCorrelation(a: ImageDataRGB, b: ImageDataRGB): number {
+  assertSameSize(a, b);
+  return pearson(gradientMagnitude(luminance(a), a.width, a.height), gradientMagnitude(luminance(b), b.width, b.height));
+}
+
+/**
+ * Mean relative total variation of the luminance (Xu et al. 2012): per pixel,
+ * the windowed sum of absolute gradients divided by the absolute windowed sum
+ * of gradients, in x and y. Texture oscillates, so its gradients cancel in the
+ * sum and the ratio is large; a clean edge scores about 1 per axis. Lower
+ * values mean less texture.
+ */
+export function relativeTotalVariation(image: ImageDataRGB): number {
+  const { width, height } = image;
+  const box = (data: Float32Array) => cpuBackend.boxFilter(data, width, height, WINDOW_RADIUS);
+  const { dx, dy } = gradients(luminance(image), width, height);
+
+  let total = 0;
+  for (const d of [dx, dy]) {
+    const absolute = new Float32Array(d.length);
+    for (let i = 0; i < d.length; i++) absolute[i] = Math.abs(d[i]);
+    const variation = box(absolute);
+    const inherent = box(d);
+    for (let i = 0; i < d.length; i++) total += variation[i] / (Math.abs(inherent[i]) + RTV_EPSILON);
+  }
+  return total / (width * height);
+}
+
+/**
+ * All quality measures of a filter run: fidelity of `result` to the
+ * unfiltered `target`, structure shared with `guidance` and the texture left,
+ * with the last two also taken on the target for reference. The three images
+ * must have the same size.
+ */
+export function computeMetrics(target: ImageDataRGB, guidance: ImageDataRGB, result: ImageDataRGB): FilterMetrics {
+  return {
+    psnr: psnr(target, result),
+    ssim: ssim(target, result),
+    gradientCorrelation: gradientCorrelation(result, guidance),
+    relativeTotalVariation: relativeTotalVariation(result),
+    input: {
+      gradientCorrelation: gradientCorrelation(target, guidance),
+      relativeTotalVariation: relativeTotalVariation(target)
+    }
+  };
+}
@@ -0,0 +1,130 @@
+import { FilterParams, Preset } from '../types';
+import { ParamError } from './errors';
+
+/** Parameters the app and the CLI start from. */
+export const DEFAULT_PARAMS: FilterParams = {
+  radius: 4,
+  epsilon: 0.005,
+  iterations: 3,
+  weight: 1,
+  targetFidelity: 0.1,
+  guidanceFidelity: 0.1,
+  subsample: 1,
+  guidanceMode: 'luminance'
+};
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  { name: 'Default', params: DEFAULT_PARAMS, builtIn: true },
+  {
+    // Flash/no-flash or RGB/NIR: small windows, and the clean guidance is kept close to its input
+    name: 'Joint denoising',
+    params: { ...DEFAULT_PARAMS, radius: 3, epsilon: 0.002, iterations: 2, targetFidelity: 0.2, guidanceFidelity: 0.5, guidanceMode: 'color' },
+    mode: 'filter',
+    builtIn: true
+  },
+  {
+    // Large windows and weak fidelity flatten texture while shared edges survive
+    name: 'Texture removal',
+    params: { ...DEFAULT_PARAMS, radius: 8, epsilon: 0.02, iterations: 5, targetFidelity: 0.05, guidanceFidelity: 0.05 },
+    mode: 'filter',
+    builtIn: true
+  },
+  {
+    // Depth edges should snap to image edges, so epsilon stays small
+    name: 'Depth upsampling',
+    params: { ...DEFAULT_PARAMS, radius: 6, epsilon: 0.0005, iterations: 3, guidanceFidelity: 0.3 },
+    mode: 'upsample',
+    builtIn: true
+  }
+];
+
+const STORAGE_KEY = 'msjf:presets';
+
+/** Version written by `exportPresets`; `parsePresets` also accepts a bare array. */
+const EXPORT_VERSION = 1;
+
+/**
+ * Checks that `value` is a complete, in-range `FilterParams` and returns a
+ * clean copy. Throws a `ParamError` naming the first bad field.
+ */
+export function validateParams(value: unknown): FilterParams {
+  if (typeof value !== 'object' || value === null) throw new ParamError('INVALID_PARAM', 'params', 'params must be an object');
+  const p = value as Record<string, unknown>;
+  const number = (key: keyof FilterParams, valid: (n: number) => boolean, rule: string) => {
+    const n = p[key];
+    if (typeof n !== 'number' || !Number.isFinite(n) || !valid(n)) {
+      const code = key === 'epsilon' ? 'INVALID_EPSILON' : 'INVALID_PARAM';
+      throw new ParamError(code, key, `${key} must be ${rule}, got ${JSON.stringify(n)}`);
+    }
+    return n;
+  };
+  const integer = (n: number) => Number.isInteger(n) && n >= 1;
+  const unit = (n: number) => n >= 0 && n <= 1;
+
+  if (p.guidanceMode !== 'luminance' && p.guidanceMode !== 'color') {
+    throw new ParamError('INVALID_PARAM', 'guidanceMode', `guidanceMode must be "luminance" or "color", got ${JSON.stringify(p.guidanceMode)}`);
+  }
+  return {
+    radius: number('radius', integer, 'a whole number of at least 1'),
+    epsilon: number('epsilon', n => n > 0, 'positive'),
+    iterations: number('iterations', integer, 'a whole number of at least 1'),
+    weight: number('weight', unit, 'between 0 and 1'),
+    targetFidelity: number('targetFidelity', n => n >= 0, 'non-negative'),
+    guidanceFidelity: number('guidanceFidelity', n => n >= 0, 'non-negative'),
+    subsample: number('subsample', integer, 'a whole number of at least 1'),
+    guidanceMode: p.guidanceMode
+  };
+}
+
+/** Serialises user presets for download. */
+export function exportPresets(presets: Preset[]): string {
+  return JSON.stringify(
+    { version: EXPORT_VERSION, presets: presets.map(({ name, params, mode }) => ({ name, params, mode })) },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads presets written by `exportPresets` (or a bare array of them). Throws
+ * a SyntaxError for malformed JSON and otherwise an Error saying which preset
+ * is malformed or named twice.
+ */
+export function parsePresets(json: string): Preset[] {
+  const data: unknown = JSON.parse(json);
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(list)) throw new Error('Expected a list of presets');
+
+  const seen = new Set<string>();
+  return list.map((entry: unknown, index): Preset => {
+    const { name, params, mode } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) throw new Error(`Preset ${index + 1} has no name`);
+    if (seen.has(name.trim())) throw new Error(`Preset "${name.trim()}" appears more than once`);
+    seen.add(name.trim());
+    if (mode !== undefined && mode !== 'filter' && mode !== 'upsample') {
+      throw new Error(`Preset "${name}": mode must be "filter" or "upsample"`);
+    }
+    try {
+      const preset: Preset = { name: name.trim(), params: validateParams(params) };
+      if (mode === 'filter' || mode === 'upsample') preset.mode = mode;
+      return preset;
+    } catch (err) {
+      throw new Error(`Preset "${name}": ${err instanceof Error ? err.message : err}`);
+    }
+  });
+}
+
+/** User presets saved in this browser; unreadable storage yields none. */
+export function loadPresets(): Preset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresets(stored) : [];
+  } catch (err) {
+    console.warn('Ignoring stored presets', err);
+    return [];
+  }
+}
+
+export function savePresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, exportPresets(presets));
+}
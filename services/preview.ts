@@ -0,0 +1,88 @@
+import { FilterParams, ImageDataGray, ImageDataRGB, PreviewProxy } from '../types';
+
+/** Longest edge of a live-preview proxy, in pixels. */
+export const PREVIEW_MAX_SIZE = 640;
+
+/** Quiet time after the last parameter change before a preview runs. */
+export const PREVIEW_DEBOUNCE_MS = 150;
+
+/** Averages `factor` x `factor` blocks; edge blocks average the pixels they have. */
+function downscaleChannel(src: Float32Array, width: number, height: number, factor: number): Float32Array {
+  const w = Math.ceil(width / factor);
+  const h = Math.ceil(height / factor);
+  const sum = new Float32Array(w * h);
+  const count = new Float32Array(w * h);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / factor) * w;
+    for (let x = 0; x < width; x++) {
+      const i = row + Math.floor(x / factor);
+      sum[i] += src[y * width + x];
+      count[i]++;
+    }
+  }
+  for (let i = 0; i < sum.length; i++) sum[i] /= count[i];
+  return sum;
+}
+
+function downscaleRGB(rgb: ImageDataRGB, factor: number): ImageDataRGB {
+  const d = (src: Float32Array) => downscaleChannel(src, rgb.width, rgb.height, factor);
+  const out: ImageDataRGB = {
+    r: d(rgb.r), g: d(rgb.g), b: d(rgb.b),
+    width: Math.ceil(rgb.width / factor), height: Math.ceil(rgb.height / factor)
+  };
+  if (rgb.a) out.a = d(rgb.a);
+  return out;
+}
+
+/** Area-averages `rgb` by the smallest integer factor that fits it within `maxSize`. */
+export function downscaleToFit(rgb: ImageDataRGB, maxSize: number): ImageDataRGB {
+  const factor = Math.ceil(Math.max(rgb.width, rgb.height) / maxSize);
+  return factor > 1 ? downscaleRGB(rgb, factor) : rgb;
+}
+
+/**
+ * Builds the live-preview proxy of a pair already aligned to the target's
+ * size: both images (and the mask) are area-averaged by the smallest integer
+ * factor that brings the longest edge within `maxSize`.
+ */
+export function createPreviewProxy(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  mask?: ImageDataGray,
+  maxSize: number = PREVIEW_MAX_SIZE
+): PreviewProxy {
+  const { width, height } = target;
+  const factor = Math.max(1, Math.ceil(Math.max(width, height) / maxSize));
+  return {
+    target: downscaleRGB(target, factor),
+    guidance: downscaleRGB(guidance, factor),
+    mask: mask && {
+      data: downscaleChannel(mask.data, width, height, factor),
+      width: Math.ceil(width / factor),
+      height: Math.ceil(height / factor)
+    },
+    factor
+  };
+}
+
+/**
+ * Filter parameters that make the proxy behave like the full-resolution run.
+ *
+ * A full-resolution window of 2r + 1 pixels spans (2r + 1) / factor proxy
+ * pixels, so the proxy radius is that width's radius, rounded to a whole
+ * pixel; subsampling shrinks the same way. Epsilon is a threshold on the
+ * variance of intensities, which area averaging keeps, so it carries over
+ * unchanged.
+ */
+export function proxyParams(params: FilterParams, proxy: PreviewProxy): FilterParams {
+  const { factor } = proxy;
+  if (factor === 1) return params;
+
+  const exact = ((2 * params.radius + 1) / factor - 1) / 2;
+  const radius = Math.max(1, Math.round(exact));
+  return {
+    ...params,
+    radius,
+    subsample: Math.max(1, Math.round(params.subsample / factor))
+  };
+}
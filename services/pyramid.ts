@@ -0,0 +1,210 @@
+import { FilterParams, FilterProgress, ImageDataGray, ImageDataRGB, MutualFilterResult, PyramidLevel, PyramidParams } from '../types';
+import { resampleRGB } from './filters';
+import { applyMutualStructureFilterTiled, DEFAULT_TILE_SIZE } from './tiling';
+import { ParamError } from './errors';
+import { checkFilterInputs } from './validation';
+
+/** Most levels a pyramid run may use, the full-resolution one included. */
+export const MAX_PYRAMID_LEVELS = 5;
+
+/** Smallest edge a level may have; coarser levels would be mostly border. */
+const MIN_LEVEL_SIZE = 16;
+
+/** Separable binomial kernel approximating a Gaussian of sigma 1. */
+const BINOMIAL = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+
+export const DEFAULT_PYRAMID: PyramidParams = {
+  enabled: false,
+  levels: [
+    { radius: 3, epsilon: 0.005 },
+    { radius: 3, epsilon: 0.005 },
+    { radius: 3, epsilon: 0.01 }
+  ],
+  keepLevels: false
+};
+
+/**
+ * Blurs `data` with the binomial kernel and keeps every second pixel, giving
+ * a ⌈w/2⌉ x ⌈h/2⌉ level. Borders are clamped.
+ */
+function downsampleChannel(data: Float32Array, width: number, height: number): Float32Array {
+  const w = Math.ceil(width / 2);
+  const h = Math.ceil(height / 2);
+  const rows = new Float32Array(w * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        const sx = Math.min(width - 1, Math.max(0, 2 * x + k));
+        sum += BINOMIAL[k + 2] * data[y * width + sx];
+      }
+      rows[y * w + x] = sum;
+    }
+  }
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        const sy = Math.min(height - 1, Math.max(0, 2 * y + k));
+        sum += BINOMIAL[k + 2] * rows[sy * w + x];
+      }
+      out[y * w + x] = sum;
+    }
+  }
+  return out;
+}
+
+function downsampleRGB(image: ImageDataRGB): ImageDataRGB {
+  const { width, height } = image;
+  const down = (c: Float32Array) => downsampleChannel(c, width, height);
+  return { r: down(image.r), g: down(image.g), b: down(image.b), width: Math.ceil(width / 2), height: Math.ceil(height / 2) };
+}
+
+/**
+ * Gaussian pyramid of `image` with `count` levels, fine to coarse; level 0 is
+ * the image itself and each further level halves the size.
+ */
+export function gaussianPyramid(image: ImageDataRGB, count: number): ImageDataRGB[] {
+  const levels = [image];
+  while (levels.length < count) levels.push(downsampleRGB(levels[levels.length - 1]));
+  return levels;
+}
+
+/**
+ * Number of `levels` that an image of `width` x `height` can hold while every
+ * level keeps at least `MIN_LEVEL_SIZE` pixels per edge and a window no wider
+ * than itself.
+ */
+export function usableLevels(width: number, height: number, levels: PyramidLevel[]): number {
+  let count = 1;
+  let w = width;
+  let h = height;
+  const fits = (w: number, h: number, level: PyramidLevel) =>
+    w >= MIN_LEVEL_SIZE && h >= MIN_LEVEL_SIZE && 2 * level.radius + 1 <= Math.max(w, h);
+  while (count < levels.length && fits(Math.ceil(w / 2), Math.ceil(h / 2), levels[count])) {
+    w = Math.ceil(w / 2);
+    h = Math.ceil(h / 2);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Checks pyramid levels from untrusted input (sessions, CLI flags). Throws a
+ * `ParamError` naming the first invalid level.
+ */
+export function validatePyramidLevels(levels: unknown): PyramidLevel[] {
+  if (!Array.isArray(levels) || levels.length < 1 || levels.length > MAX_PYRAMID_LEVELS) {
+    throw new ParamError('INVALID_PARAM', 'pyramid', `Pyramid needs 1 to ${MAX_PYRAMID_LEVELS} levels`);
+  }
+  return levels.map((level: Partial<PyramidLevel> | null, k) => {
+    const radius = Number(level?.radius);
+    const epsilon = Number(level?.epsilon);
+    if (!Number.isInteger(radius) || radius < 1) {
+      throw new ParamError('INVALID_PARAM', 'pyramid', `Pyramid level ${k}: radius must be a whole number of at least 1, got ${JSON.stringify(level?.radius)}`);
+    }
+    if (!(epsilon > 0 && Number.isFinite(epsilon))) {
+      throw new ParamError('INVALID_EPSILON', 'pyramid', `Pyramid level ${k}: epsilon must be positive, got ${JSON.stringify(level?.epsilon)}`);
+    }
+    return { radius, epsilon };
+  });
+}
+
+/**
+ * Starting estimate for a level from the coarser level's result: the level's
+ * input minus the upsampled change the coarser level made,
+ * input - up(coarseInput - coarseResult). Upsampling the coarse result
+ * directly would also blur every edge the finer level then has to recover.
+ */
+function withCoarseCorrection(input: ImageDataRGB, coarseInput: ImageDataRGB, coarseResult: ImageDataRGB): ImageDataRGB {
+  const { width, height } = input;
+  const change = (c: 'r' | 'g' | 'b') => {
+    const diff = new Float32Array(coarseInput[c].length);
+    for (let i = 0; i < diff.length; i++) diff[i] = coarseInput[c][i] - coarseResult[c][i];
+    return diff;
+  };
+  const up = resampleRGB(
+    { r: change('r'), g: change('g'), b: change('b'), width: coarseInput.width, height: coarseInput.height },
+    width,
+    height
+  );
+  for (const c of ['r', 'g', 'b'] as const) {
+    for (let i = 0; i < up[c].length; i++) up[c][i] = input[c][i] - up[c][i];
+  }
+  return up;
+}
+
+/**
+ * Coarse-to-fine mutual-structure filtering.
+ *
+ * Target, guidance and mask are reduced to a Gaussian pyramid with one level
+ * per entry of `levels` (fine to coarse), capped so no level falls below
+ * `MIN_LEVEL_SIZE` pixels or its own window width (see `usableLevels`). The
+ * coarsest level is filtered from its inputs. Every finer level starts from
+ * its own input minus the bilinearly upsampled change the level below made
+ * (see `withCoarseCorrection`), so coarse texture is already gone while the
+ * level's edges keep their full sharpness. It is then filtered with its own
+ * radius and epsilon, the fidelity terms anchoring it to that level's inputs.
+ * Large textures are thus removed with small windows at coarse scales, and
+ * fine shared edges survive at the finer ones. All other settings come from
+ * `params`.
+ *
+ * Returns the full-resolution result and, fine to coarse, the target results
+ * of the coarser levels at their own sizes.
+ */
+export async function applyPyramidFilter(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  levels: PyramidLevel[],
+  onProgress: (p: number, detail?: FilterProgress) => void,
+  signal?: AbortSignal,
+  mask?: ImageDataGray,
+  tileSize: number = DEFAULT_TILE_SIZE
+): Promise<{ result: MutualFilterResult; levels: ImageDataRGB[] }> {
+  validatePyramidLevels(levels);
+  checkFilterInputs(target, guidance, { ...params, ...levels[0] }, mask);
+  const count = usableLevels(target.width, target.height, levels);
+  const targets = gaussianPyramid(target, count);
+  const guidances = gaussianPyramid(guidance, count);
+  const masks: (ImageDataGray | undefined)[] = [mask];
+  for (let k = 1; k < count; k++) {
+    const finer = masks[k - 1];
+    masks.push(finer && {
+      data: downsampleChannel(finer.data, finer.width, finer.height),
+      width: targets[k].width,
+      height: targets[k].height
+    });
+  }
+
+  // Progress is shared out by pixel count, so the full-resolution level dominates
+  const weights = targets.map(t => t.width * t.height);
+  const total = weights.reduce((a, b) => a + b, 0);
+  let done = 0;
+
+  const results: MutualFilterResult[] = [];
+  let previous: MutualFilterResult | undefined;
+  for (let k = count - 1; k >= 0; k--) {
+    const { width, height } = targets[k];
+    const initial = previous && {
+      target: withCoarseCorrection(targets[k], targets[k + 1], previous.target),
+      guidance: withCoarseCorrection(guidances[k], guidances[k + 1], previous.guidance)
+    };
+    const level = { index: k, count };
+    previous = await applyMutualStructureFilterTiled(
+      targets[k],
+      guidances[k],
+      { ...params, radius: levels[k].radius, epsilon: levels[k].epsilon },
+      (p, detail) => onProgress(((done + (p / 100) * weights[k]) / total) * 100, detail && { ...detail, level }),
+      signal,
+      masks[k],
+      tileSize,
+      initial
+    );
+    results[k] = previous;
+    done += weights[k];
+  }
+
+  return { result: results[0], levels: results.slice(1).map(r => r.target) };
+}
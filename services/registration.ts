@@ -0,0 +1,451 @@
+import { ImageDataRGB, Registration, RegistrationModel, RegistrationNudge } from '../types';
+import { luminance, resampleChannel } from './filters';
+
+/** Longest side of the grid the transform is estimated on. */
+const WORK_SIZE = 256;
+
+/** Pyramid levels stop halving below this size. */
+const MIN_LEVEL_SIZE = 32;
+
+/** Gauss-Newton steps per pyramid level. */
+const MAX_STEPS = 40;
+
+/** Largest shift tried by the initial translation search, as a fraction of the coarsest level. */
+const MAX_SHIFT = 0.2;
+
+type Matrix3 = number[];
+
+export const NO_NUDGE: RegistrationNudge = { dx: 0, dy: 0, rotation: 0, scale: 1 };
+
+/** Range of each manual nudge control, inclusive. */
+export const NUDGE_RANGES: Record<keyof RegistrationNudge, [number, number]> = {
+  dx: [-50, 50],
+  dy: [-50, 50],
+  rotation: [-10, 10],
+  scale: [0.9, 1.1]
+};
+
+/**
+ * Checks a nudge from untrusted input (sessions) against `NUDGE_RANGES` and
+ * returns a clean copy. Throws an Error naming the first bad field.
+ */
+export function validateNudge(value: unknown): RegistrationNudge {
+  if (typeof value !== 'object' || value === null) throw new Error('Nudge must be an object');
+  const n = value as Record<string, unknown>;
+  const field = (key: keyof RegistrationNudge) => {
+    const [min, max] = NUDGE_RANGES[key];
+    const v = n[key];
+    if (typeof v !== 'number' || !(v >= min && v <= max)) {
+      throw new Error(`Nudge ${key} must be a number between ${min} and ${max}, got ${JSON.stringify(v)}`);
+    }
+    return v;
+  };
+  return { dx: field('dx'), dy: field('dy'), rotation: field('rotation'), scale: field('scale') };
+}
+
+function multiply(A: Matrix3, B: Matrix3): Matrix3 {
+  const out = new Array(9).fill(0);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      for (let k = 0; k < 3; k++) out[i * 3 + j] += A[i * 3 + k] * B[k * 3 + j];
+    }
+  }
+  return out;
+}
+
+function invert(M: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = M;
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) throw new Error('Registration transform is singular');
+  return [
+    A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    C / det, (b * g - a * h) / det, (a * e - b * d) / det
+  ];
+}
+
+/** Maps pixel centres of a `from`-sized grid onto a `to`-sized grid covering the same extent. */
+function gridScale(fromW: number, fromH: number, toW: number, toH: number): Matrix3 {
+  const kx = toW / fromW;
+  const ky = toH / fromH;
+  return [kx, 0, 0.5 * kx - 0.5, 0, ky, 0.5 * ky - 0.5, 0, 0, 1];
+}
+
+/**
+ * The registration the app used before alignment existed: the guidance simply
+ * stretched over the target.
+ */
+export function scaleRegistration(
+  targetWidth: number,
+  targetHeight: number,
+  guidanceWidth: number,
+  guidanceHeight: number
+): Registration {
+  return { model: 'similarity', matrix: gridScale(targetWidth, targetHeight, guidanceWidth, guidanceHeight) };
+}
+
+/**
+ * Applies a manual nudge on top of `registration`: the guidance is shifted by
+ * (dx, dy), rotated and scaled about the centre of a `width` x `height` target.
+ */
+export function nudgeMatrix(
+  registration: Registration,
+  nudge: RegistrationNudge,
+  width: number,
+  height: number
+): Matrix3 {
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const theta = (-nudge.rotation * Math.PI) / 180;
+  const cos = Math.cos(theta) / nudge.scale;
+  const sin = Math.sin(theta) / nudge.scale;
+  // Sample the guidance at R(-theta) S^-1 (x - c - d) + c
+  const tx = -nudge.dx - cx;
+  const ty = -nudge.dy - cy;
+  const M = [cos, -sin, cos * tx - sin * ty + cx, sin, cos, sin * tx + cos * ty + cy, 0, 0, 1];
+  return multiply(registration.matrix, M);
+}
+
+/**
+ * Resamples `image` onto a `width` x `height` grid through `matrix` (output
+ * pixel to source pixel), bilinearly with edges clamped. Alpha is warped too.
+ */
+export function warpRGB(image: ImageDataRGB, matrix: Matrix3, width: number, height: number): ImageDataRGB {
+  const planes = image.a ? [image.r, image.g, image.b, image.a] : [image.r, image.g, image.b];
+  const out = planes.map(() => new Float32Array(width * height));
+  const [h0, h1, h2, h3, h4, h5, h6, h7, h8] = matrix;
+  const maxX = image.width - 1;
+  const maxY = image.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = h6 * x + h7 * y + h8;
+      const sx = Math.min(Math.max((h0 * x + h1 * y + h2) / d, 0), maxX);
+      const sy = Math.min(Math.max((h3 * x + h4 * y + h5) / d, 0), maxY);
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, maxX);
+      const y1 = Math.min(y0 + 1, maxY);
+      const wx = sx - x0;
+      const wy = sy - y0;
+      const i = y * width + x;
+      for (let c = 0; c < planes.length; c++) {
+        const p = planes[c];
+        const top = p[y0 * image.width + x0] * (1 - wx) + p[y0 * image.width + x1] * wx;
+        const bottom = p[y1 * image.width + x0] * (1 - wx) + p[y1 * image.width + x1] * wx;
+        out[c][i] = top * (1 - wy) + bottom * wy;
+      }
+    }
+  }
+
+  const [r, g, b, a] = out;
+  return a ? { r, g, b, a, width, height } : { r, g, b, width, height };
+}
+
+/**
+ * False-color alignment check at no more than `maxSize` pixels on the long
+ * side: target luminance in magenta, guidance warped through `matrix` in
+ * green. Aligned structure looks gray; misregistration shows as colored
+ * fringes.
+ */
+export function registrationOverlay(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  matrix: Matrix3,
+  maxSize: number = 512
+): ImageDataRGB {
+  const k = Math.min(1, maxSize / Math.max(target.width, target.height));
+  const width = Math.max(1, Math.round(target.width * k));
+  const height = Math.max(1, Math.round(target.height * k));
+  const previewToTarget = gridScale(width, height, target.width, target.height);
+  const warped = warpRGB(guidance, multiply(matrix, previewToTarget), width, height);
+  const t = resampleChannel(luminance(target), target.width, target.height, width, height);
+  return { r: t, g: luminance(warped), b: new Float32Array(t), width, height };
+}
+
+/**
+ * Gradient magnitude of a lightly smoothed image, scaled to unit mean. Edge
+ * strength rather than intensity is matched, so the estimate tolerates the
+ * contrast changes and reversals between sensors (RGB/NIR, flash/no-flash).
+ */
+function structureFeature(data: Float32Array, width: number, height: number): Float32Array {
+  const at = (x: number, y: number) =>
+    data[Math.min(Math.max(y, 0), height - 1) * width + Math.min(Math.max(x, 0), width - 1)];
+  const smooth = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      smooth[y * width + x] = (4 * at(x, y) + 2 * (at(x - 1, y) + at(x + 1, y) + at(x, y - 1) + at(x, y + 1))
+        + at(x - 1, y - 1) + at(x + 1, y - 1) + at(x - 1, y + 1) + at(x + 1, y + 1)) / 16;
+    }
+  }
+
+  const feature = new Float32Array(width * height);
+  let sum = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const gx = smooth[y * width + Math.min(x + 1, width - 1)] - smooth[y * width + Math.max(x - 1, 0)];
+      const gy = smooth[Math.min(y + 1, height - 1) * width + x] - smooth[Math.max(y - 1, 0) * width + x];
+      feature[i] = Math.sqrt(gx * gx + gy * gy);
+      sum += feature[i];
+    }
+  }
+
+  const mean = sum / feature.length || 1;
+  for (let i = 0; i < feature.length; i++) feature[i] /= mean;
+  return feature;
+}
+
+/** Central-difference gradients, per pixel. */
+function gradients(data: Float32Array, width: number, height: number): { gx: Float32Array; gy: Float32Array } {
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      gx[i] = (data[y * width + Math.min(x + 1, width - 1)] - data[y * width + Math.max(x - 1, 0)]) / 2;
+      gy[i] = (data[Math.min(y + 1, height - 1) * width + x] - data[Math.max(y - 1, 0) * width + x]) / 2;
+    }
+  }
+  return { gx, gy };
+}
+
+function sample(data: Float32Array, width: number, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const wx = x - x0;
+  const wy = y - y0;
+  const i = y0 * width + x0;
+  return (data[i] * (1 - wx) + data[i + 1] * wx) * (1 - wy) + (data[i + width] * (1 - wx) + data[i + width + 1] * wx) * wy;
+}
+
+/** Solves `A x = b` (n x n, row-major) by Gaussian elimination with partial pivoting. */
+function solveLinear(A: number[], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.slice();
+  const x = b.slice();
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row * n + col]) > Math.abs(M[pivot * n + col])) pivot = row;
+    }
+    if (Math.abs(M[pivot * n + col]) < 1e-12) return null;
+    if (pivot !== col) {
+      for (let k = 0; k < n; k++) [M[col * n + k], M[pivot * n + k]] = [M[pivot * n + k], M[col * n + k]];
+      [x[col], x[pivot]] = [x[pivot], x[col]];
+    }
+    for (let row = col + 1; row < n; row++) {
+      const f = M[row * n + col] / M[col * n + col];
+      for (let k = col; k < n; k++) M[row * n + k] -= f * M[col * n + k];
+      x[row] -= f * x[col];
+    }
+  }
+  for (let row = n - 1; row >= 0; row--) {
+    for (let k = row + 1; k < n; k++) x[row] -= M[row * n + k] * x[k];
+    x[row] /= M[row * n + row];
+  }
+  return x;
+}
+
+/**
+ * Parameterisations in centred, normalised coordinates, where they are well
+ * conditioned and the same at every pyramid level. Similarity:
+ * [[1 + a, -b, tx], [b, 1 + a, ty]]; homography: identity plus eight free
+ * entries.
+ */
+function modelMatrix(model: RegistrationModel, p: number[]): Matrix3 {
+  if (model === 'similarity') {
+    const [tx, ty, a, b] = p;
+    return [1 + a, -b, tx, b, 1 + a, ty, 0, 0, 1];
+  }
+  return [1 + p[0], p[1], p[2], p[3], 1 + p[4], p[5], p[6], p[7], 1];
+}
+
+/**
+ * Writes d(warped x, y)/dp at normalised point (u, v) into `jx`, `jy`.
+ */
+function warpJacobian(
+  model: RegistrationModel,
+  H: Matrix3,
+  u: number,
+  v: number,
+  jx: number[],
+  jy: number[]
+) {
+  if (model === 'similarity') {
+    jx[0] = 1; jx[1] = 0; jx[2] = u; jx[3] = -v;
+    jy[0] = 0; jy[1] = 1; jy[2] = v; jy[3] = u;
+    return;
+  }
+  const d = H[6] * u + H[7] * v + 1;
+  const wx = (H[0] * u + H[1] * v + H[2]) / d;
+  const wy = (H[3] * u + H[4] * v + H[5]) / d;
+  jx[0] = u / d; jx[1] = v / d; jx[2] = 1 / d; jx[3] = 0; jx[4] = 0; jx[5] = 0; jx[6] = -u * wx / d; jx[7] = -v * wx / d;
+  jy[0] = 0; jy[1] = 0; jy[2] = 0; jy[3] = u / d; jy[4] = v / d; jy[5] = 1 / d; jy[6] = -u * wy / d; jy[7] = -v * wy / d;
+}
+
+/**
+ * Exhaustive integer-shift search on the coarsest level, so the Gauss-Newton
+ * refinement starts inside its capture range. Returns the shift in pixels.
+ */
+function searchTranslation(T: Float32Array, G: Float32Array, width: number, height: number): [number, number] {
+  const maxShift = Math.max(1, Math.round(MAX_SHIFT * Math.max(width, height)));
+  let best: [number, number] = [0, 0];
+  let bestCost = Infinity;
+  for (let dy = -maxShift; dy <= maxShift; dy++) {
+    for (let dx = -maxShift; dx <= maxShift; dx++) {
+      const x0 = Math.max(0, -dx);
+      const x1 = Math.min(width, width - dx);
+      const y0 = Math.max(0, -dy);
+      const y1 = Math.min(height, height - dy);
+      const overlap = (x1 - x0) * (y1 - y0);
+      if (overlap < (width * height) / 2) continue;
+      let cost = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const e = G[(y + dy) * width + x + dx] - T[y * width + x];
+          cost += e * e;
+        }
+      }
+      cost /= overlap;
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = [dx, dy];
+      }
+    }
+  }
+  return best;
+}
+
+type Level = {
+  T: Float32Array;
+  G: Float32Array;
+  gx: Float32Array;
+  gy: Float32Array;
+  width: number;
+  height: number;
+};
+
+/**
+ * Gauss-Newton refinement of the parameters `p` of `model` on one pyramid
+ * level, minimising the squared feature difference over the overlap.
+ */
+function refine(model: RegistrationModel, p: number[], level: Level): number[] {
+  const { T, G, gx, gy, width: w, height: h } = level;
+  const nParams = p.length;
+  const jx = new Array(nParams).fill(0);
+  const jy = new Array(nParams).fill(0);
+  const cx = (w - 1) / 2;
+  const cy = (h - 1) / 2;
+  const sc = Math.max(w, h) / 2;
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const H = modelMatrix(model, p);
+    const JtJ = new Array(nParams * nParams).fill(0);
+    const Jte = new Array(nParams).fill(0);
+    let count = 0;
+
+    // Features within two pixels of a border are distorted by edge clamping
+    for (let y = 2; y < h - 2; y++) {
+      const v = (y - cy) / sc;
+      for (let x = 2; x < w - 2; x++) {
+        const u = (x - cx) / sc;
+        const d = H[6] * u + H[7] * v + 1;
+        const sx = ((H[0] * u + H[1] * v + H[2]) / d) * sc + cx;
+        const sy = ((H[3] * u + H[4] * v + H[5]) / d) * sc + cy;
+        if (!(sx >= 2 && sy >= 2 && sx < w - 3 && sy < h - 3)) continue;
+
+        const e = sample(G, w, sx, sy) - T[y * w + x];
+        // Image gradient in normalised units
+        const dgx = sample(gx, w, sx, sy) * sc;
+        const dgy = sample(gy, w, sx, sy) * sc;
+        warpJacobian(model, H, u, v, jx, jy);
+        for (let a = 0; a < nParams; a++) {
+          const ja = dgx * jx[a] + dgy * jy[a];
+          Jte[a] += ja * e;
+          for (let b = a; b < nParams; b++) JtJ[a * nParams + b] += ja * (dgx * jx[b] + dgy * jy[b]);
+        }
+        count++;
+      }
+    }
+    if (count < nParams * 10) break;
+
+    for (let a = 0; a < nParams; a++) {
+      for (let b = 0; b < a; b++) JtJ[a * nParams + b] = JtJ[b * nParams + a];
+      // Light Levenberg-Marquardt damping keeps flat images from diverging
+      JtJ[a * nParams + a] = JtJ[a * nParams + a] * 1.001 + 1e-9;
+    }
+    const delta = solveLinear(JtJ, Jte.map(v => -v));
+    if (!delta) break;
+    p = p.map((value, a) => value + delta[a]);
+    if (Math.hypot(...delta) < 1e-5) break;
+  }
+
+  return p;
+}
+
+/**
+ * Estimates the transform that aligns `guidance` to `target`, for images of
+ * the same scene taken with different sensors or from slightly different
+ * positions.
+ *
+ * Intensity based: both images are reduced to edge-strength features on a
+ * grid of at most `WORK_SIZE` pixels and a coarse translation search
+ * initialises the transform. Gauss-Newton then refines a similarity from
+ * coarse to fine pyramid levels; for a homography its eight parameters are
+ * refined from that similarity on the two finest levels, where there is
+ * enough detail to constrain perspective. The returned matrix maps target
+ * pixels to guidance pixels at full resolution, ready for `warpRGB`.
+ */
+export function estimateRegistration(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  model: RegistrationModel
+): Registration {
+  const k = Math.min(1, WORK_SIZE / Math.max(target.width, target.height));
+  const workW = Math.max(1, Math.round(target.width * k));
+  const workH = Math.max(1, Math.round(target.height * k));
+  // The guidance is stretched onto the same grid, so both share one normalisation
+  const targetLum = resampleChannel(luminance(target), target.width, target.height, workW, workH);
+  const guidanceLum = resampleChannel(luminance(guidance), guidance.width, guidance.height, workW, workH);
+
+  const sizes: [number, number][] = [[workW, workH]];
+  while (Math.min(...sizes[0]) / 2 >= MIN_LEVEL_SIZE) {
+    const [w, h] = sizes[0];
+    sizes.unshift([Math.round(w / 2), Math.round(h / 2)]);
+  }
+  const levels: Level[] = sizes.map(([width, height]) => {
+    const G = structureFeature(resampleChannel(guidanceLum, workW, workH, width, height), width, height);
+    return {
+      T: structureFeature(resampleChannel(targetLum, workW, workH, width, height), width, height),
+      G,
+      ...gradients(G, width, height),
+      width,
+      height
+    };
+  });
+
+  const coarsest = levels[0];
+  const [dx, dy] = searchTranslation(coarsest.T, coarsest.G, coarsest.width, coarsest.height);
+  const coarseScale = Math.max(coarsest.width, coarsest.height) / 2;
+  let p = [dx / coarseScale, dy / coarseScale, 0, 0];
+  for (const level of levels) p = refine('similarity', p, level);
+
+  if (model === 'homography') {
+    const [tx, ty, a, b] = p;
+    p = [a, -b, tx, b, a, ty, 0, 0];
+    for (const level of levels.slice(-2)) p = refine('homography', p, level);
+  }
+
+  // Normalised coordinates -> work grid pixels -> full-resolution pixels
+  const sc = Math.max(workW, workH) / 2;
+  const N = [sc, 0, (workW - 1) / 2, 0, sc, (workH - 1) / 2, 0, 0, 1];
+  const work = multiply(multiply(N, modelMatrix(model, p)), invert(N));
+  const targetToWork = gridScale(target.width, target.height, workW, workH);
+  const workToGuidance = gridScale(workW, workH, guidance.width, guidance.height);
+  const matrix = multiply(multiply(workToGuidance, work), targetToWork);
+  return { model, matrix: matrix.map(v => v / matrix[8]) };
+}
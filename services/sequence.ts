@@ -0,0 +1,134 @@
+import { ImageDataRGB, TemporalParams } from '../types';
+import { cpuBackend } from './backend';
+import { resampleRGB } from './filters';
+
+/** Frames read one at a time, so a sequence never has to fit in memory at once. */
+export interface FrameSource {
+  count: number;
+  name(index: number): string;
+  load(index: number): Promise<ImageDataRGB>;
+  /** Releases decoder resources once the sequence is done. */
+  dispose?(): void;
+}
+
+export const DEFAULT_TEMPORAL: TemporalParams = { strength: 0.6, sigma: 0.04 };
+
+/** Longest sequence the app filters in one go. */
+export const MAX_SEQUENCE_FRAMES = 600;
+
+/** Window radius over which frame differences are averaged, so noise alone does not read as motion. */
+const CHANGE_RADIUS = 2;
+
+/**
+ * Orders frame file names the way a numbered series reads: digit runs compare
+ * by value, so frame_9 sorts before frame_10.
+ */
+export function compareFrameNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Blends a filtered frame towards the previous stabilised output where the
+ * input did not change. Per pixel, with D the windowed mean squared change of
+ * the target since the last frame,
+ *
+ *   w = strength · exp(−D / sigma²),   out = filtered + w · (previous − filtered)
+ *
+ * so static regions stop flickering while moving ones follow the new frame.
+ * `filtered` is updated in place and returned.
+ */
+export function stabiliseFrame(
+  filtered: ImageDataRGB,
+  previousResult: ImageDataRGB,
+  previousTarget: ImageDataRGB,
+  target: ImageDataRGB,
+  { strength, sigma }: TemporalParams
+): ImageDataRGB {
+  const { width, height } = filtered;
+  if (strength <= 0) return filtered;
+
+  const change = new Float32Array(width * height);
+  for (const c of ['r', 'g', 'b'] as const) {
+    for (let i = 0; i < change.length; i++) {
+      const d = target[c][i] - previousTarget[c][i];
+      change[i] += d * d / 3;
+    }
+  }
+  const meanChange = cpuBackend.boxFilter(change, width, height, CHANGE_RADIUS);
+
+  const scale = 1 / (sigma * sigma);
+  for (let i = 0; i < meanChange.length; i++) {
+    const w = strength * Math.exp(-meanChange[i] * scale);
+    for (const c of ['r', 'g', 'b'] as const) {
+      filtered[c][i] += w * (previousResult[c][i] - filtered[c][i]);
+    }
+  }
+  return filtered;
+}
+
+/** Mean absolute per-channel difference between consecutive frames, a flicker measure. */
+export function frameChange(a: ImageDataRGB, b: ImageDataRGB): number {
+  let total = 0;
+  for (const c of ['r', 'g', 'b'] as const) {
+    for (let i = 0; i < a[c].length; i++) total += Math.abs(a[c][i] - b[c][i]);
+  }
+  return total / (3 * a.width * a.height);
+}
+
+export interface SequenceFrame {
+  index: number;
+  name: string;
+  /** The frame as read, before filtering. */
+  target: ImageDataRGB;
+  /** Filtered and stabilised output. */
+  result: ImageDataRGB;
+  /** `frameChange` of the output against the previous frame's; 0 for the first. */
+  change: number;
+}
+
+/**
+ * Filters a sequence frame by frame with `filterFrame`, stabilising each
+ * result against the last (see `stabiliseFrame`), and hands every frame to
+ * `onFrame` before reading the next. The guidance is either a stream of the
+ * same length or a single still used for every frame; aligning it to the
+ * target is up to `filterFrame`, which may take ownership of its arguments.
+ */
+export async function filterSequence(
+  targets: FrameSource,
+  guidances: FrameSource,
+  temporal: TemporalParams,
+  filterFrame: (target: ImageDataRGB, guidance: ImageDataRGB, index: number) => Promise<ImageDataRGB>,
+  onFrame: (frame: SequenceFrame) => void | Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  if (targets.count === 0) throw new Error('The target sequence has no frames');
+  if (guidances.count !== 1 && guidances.count !== targets.count) {
+    throw new Error(`The guidance has ${guidances.count} frames but the target has ${targets.count}`);
+  }
+
+  let still: ImageDataRGB | null = null;
+  let previous: { target: ImageDataRGB; result: ImageDataRGB } | null = null;
+  for (let index = 0; index < targets.count; index++) {
+    signal?.throwIfAborted();
+    const target = await targets.load(index);
+    if (previous && (target.width !== previous.target.width || target.height !== previous.target.height)) {
+      throw new Error(`Frame ${targets.name(index)} is ${target.width}x${target.height}; earlier frames are ${previous.target.width}x${previous.target.height}`);
+    }
+    if (guidances.count === 1) still ??= await guidances.load(0);
+    const guidance = still ? resampleRGB(still, still.width, still.height) : await guidances.load(index);
+
+    // Copies, since filterFrame may transfer or overwrite its inputs
+    const kept = resampleRGB(target, target.width, target.height);
+    let result = await filterFrame(target, guidance, index);
+    if (previous) result = stabiliseFrame(result, previous.result, previous.target, kept, temporal);
+
+    await onFrame({
+      index,
+      name: targets.name(index),
+      target: kept,
+      result,
+      change: previous ? frameChange(result, previous.result) : 0
+    });
+    previous = { target: kept, result };
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  AlgorithmMode,
+  BackendPreference,
+  FilterParams,
+  ImageDataGray,
+  ImageDataRGB,
+  KernelSettings,
+  PyramidLevel,
+  Registration,
+  RegistrationNudge,
+  SessionBundle,
+  SessionImage
+} from '../types';
+import { encodeGrayPFM, encodePNG } from './codecs';
+import { bytesToDataURL, readBytes } from './imageLoader';
+import { isKernelName, validateKernelValues } from './kernels';
+import { validatePyramidLevels } from './pyramid';
+import { validateNudge } from './registration';
+import { DEFAULT_PARAMS, validateParams } from './presets';
+
+const SESSION_FORMAT = 'msjf-session';
+const SESSION_VERSION = 1;
+
+/** Lower-case hex SHA-256 of `bytes`. */
+export async function sha256(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Serialises a result exactly as a session stores it: RGB as a 16-bit PNG,
+ * single-channel maps as PFM so values outside [0, 1] survive.
+ */
+function encodeResult(result: ImageDataRGB | ImageDataGray): { bytes: Uint8Array; type: string } {
+  return 'data' in result
+    ? { bytes: encodeGrayPFM(result), type: 'application/octet-stream' }
+    : { bytes: encodePNG(result, 16), type: 'image/png' };
+}
+
+/**
+ * Hash of a result in its session encoding; equal hashes mean a run
+ * reproduced a session's result to 16-bit (or float) precision.
+ */
+export async function resultHash(result: ImageDataRGB | ImageDataGray): Promise<string> {
+  return sha256(encodeResult(result).bytes);
+}
+
+async function storedImage(bytes: Uint8Array, type: string): Promise<SessionImage> {
+  return { dataURL: bytesToDataURL(bytes, type), sha256: await sha256(bytes) };
+}
+
+export interface SessionState {
+  mode: AlgorithmMode;
+  params: FilterParams;
+  /** Baseline kernel of the run; null for the mutual-structure filter. */
+  kernel: KernelSettings | null;
+  /** Levels of a pyramid run; null for a single full-resolution pass. */
+  pyramid: PyramidLevel[] | null;
+  backend: BackendPreference;
+  registration: Registration | null;
+  nudge: RegistrationNudge;
+  /** Data URLs of the input files as loaded. */
+  target: string;
+  guidance: string;
+  mask: ImageDataGray | null;
+  result: ImageDataRGB | ImageDataGray | null;
+}
+
+/** Packs the current session, hashing every image it embeds. */
+export async function createSession(state: SessionState): Promise<SessionBundle> {
+  const input = async (src: string): Promise<SessionImage> => ({ dataURL: src, sha256: await sha256(await readBytes(src)) });
+  const [target, guidance] = await Promise.all([input(state.target), input(state.guidance)]);
+
+  const bundle: SessionBundle = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    createdAt: new Date().toISOString(),
+    mode: state.mode,
+    params: state.params,
+    backend: state.backend,
+    target,
+    guidance
+  };
+  if (state.kernel) bundle.kernel = state.kernel;
+  if (state.pyramid) bundle.pyramid = state.pyramid;
+  if (state.registration) {
+    bundle.registration = state.registration;
+    bundle.nudge = state.nudge;
+  }
+  // PFM keeps the painted weights bit-exact, so a rerun sees the same mask
+  if (state.mask) bundle.mask = await storedImage(encodeGrayPFM(state.mask), 'application/octet-stream');
+  if (state.result) {
+    const { bytes, type } = encodeResult(state.result);
+    bundle.result = await storedImage(bytes, type);
+  }
+  return bundle;
+}
+
+/**
+ * Parses a session file, checks every field and every embedded image against
+ * its hash, and returns only the checked fields. Throws an Error describing
+ * the first problem found.
+ */
+export async function readSession(json: string): Promise<SessionBundle> {
+  const data = JSON.parse(json) as Partial<SessionBundle> | null;
+  if (data?.format !== SESSION_FORMAT) throw new Error('Not a session file');
+  if (data.version !== SESSION_VERSION) throw new Error(`Unsupported session version ${data.version}`);
+  if (data.mode !== 'filter' && data.mode !== 'upsample') throw new Error(`Unknown mode "${data.mode}"`);
+  const backend = data.backend ?? 'auto';
+  if (backend !== 'auto' && backend !== 'cpu' && backend !== 'webgl') throw new Error(`Unknown backend "${backend}"`);
+  const registration = data.registration;
+  if (registration && registration.model !== 'similarity' && registration.model !== 'homography') {
+    throw new Error(`Unknown registration model "${registration.model}"`);
+  }
+  if (registration && (!Array.isArray(registration.matrix) || registration.matrix.length !== 9 ||
+    !registration.matrix.every(Number.isFinite))) {
+    throw new Error('Registration must hold a 3x3 matrix of finite numbers');
+  }
+  const nudge = data.nudge === undefined ? undefined : validateNudge(data.nudge);
+  const kernel = data.kernel;
+  if (kernel && !isKernelName(kernel.name)) throw new Error(`Unknown kernel "${kernel.name}"`);
+
+  /** The image as stored, once its hash checks out; undefined when absent. */
+  const checkedImage = async (name: string, image: SessionImage | undefined): Promise<SessionImage | undefined> => {
+    if (!image) return undefined;
+    if (typeof image.dataURL !== 'string' || typeof image.sha256 !== 'string') {
+      throw new Error(`Session ${name} image is malformed`);
+    }
+    if (await sha256(await readBytes(image.dataURL)) !== image.sha256) {
+      throw new Error(`Session ${name} image does not match its hash`);
+    }
+    return { dataURL: image.dataURL, sha256: image.sha256 };
+  };
+  const target = await checkedImage('target', data.target);
+  if (!target) throw new Error('Session has no target image');
+  const guidance = await checkedImage('guidance', data.guidance);
+  if (!guidance) throw new Error('Session has no guidance image');
+  const mask = await checkedImage('mask', data.mask);
+  const result = await checkedImage('result', data.result);
+
+  // Only the checked fields are kept; anything else in the file is dropped
+  const bundle: SessionBundle = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    createdAt: String(data.createdAt ?? ''),
+    mode: data.mode,
+    params: validateParams(data.params),
+    backend,
+    target,
+    guidance
+  };
+  if (kernel) bundle.kernel = validateKernelValues(kernel.name, kernel.values ?? {});
+  if (data.pyramid !== undefined) bundle.pyramid = validatePyramidLevels(data.pyramid);
+  if (registration) bundle.registration = { model: registration.model, matrix: [...registration.matrix] };
+  if (nudge) bundle.nudge = nudge;
+  if (mask) bundle.mask = mask;
+  if (result) bundle.result = result;
+  return bundle;
+}
+
+const HASH_MODE = 'mode';
+
+/** URL hash (without '#') carrying the parameters and mode, for links without images. */
+export function paramsToHash(params: FilterParams, mode: AlgorithmMode): string {
+  const query = new URLSearchParams({ [HASH_MODE]: mode });
+  for (const [key, value] of Object.entries(params)) query.set(key, String(value));
+  return query.toString();
+}
+
+/**
+ * Reads parameters written by `paramsToHash`. Missing keys fall back to the
+ * defaults; returns null when the hash holds no parameters or invalid ones.
+ */
+export function paramsFromHash(hash: string): { params: FilterParams; mode?: AlgorithmMode } | null {
+  const query = new URLSearchParams(hash.replace(/^#/, ''));
+  const keys = Object.keys(DEFAULT_PARAMS) as (keyof FilterParams)[];
+  if (!keys.some(key => query.has(key))) return null;
+
+  const raw: Record<string, unknown> = { ...DEFAULT_PARAMS };
+  for (const key of keys) {
+    const value = query.get(key);
+    if (value !== null) raw[key] = key === 'guidanceMode' ? value : Number(value);
+  }
+  try {
+    const mode = query.get(HASH_MODE);
+    return {
+      params: validateParams(raw),
+      ...(mode === 'filter' || mode === 'upsample' ? { mode } : {})
+    };
+  } catch (err) {
+    console.warn('Ignoring parameters in the URL', err);
+    return null;
+  }
+}
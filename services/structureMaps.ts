@@ -0,0 +1,76 @@
+import { Colormap, ImageDataGray, ImageDataRGB, MapScale, StructureMapName } from '../types';
+
+/** Share of values allowed past the ends of an automatic map scale. */
+const SCALE_PERCENTILE = 0.99;
+
+/** Colormap stops, evenly spaced from the minimum to the maximum. */
+const COLORMAP_STOPS: Record<Colormap, [number, number, number][]> = {
+  // Matplotlib's viridis at t = k / 8, k = 0..8
+  viridis: [
+    [0.267, 0.004, 0.329], [0.278, 0.176, 0.482], [0.231, 0.322, 0.545],
+    [0.173, 0.447, 0.557], [0.129, 0.569, 0.549], [0.153, 0.678, 0.506],
+    [0.361, 0.784, 0.388], [0.667, 0.863, 0.196], [0.992, 0.906, 0.145]
+  ],
+  // Blue through white to red, for signed quantities centred on 0
+  diverging: [
+    [0.230, 0.299, 0.754], [0.552, 0.690, 0.996], [0.865, 0.865, 0.865],
+    [0.958, 0.604, 0.484], [0.706, 0.016, 0.150]
+  ]
+};
+
+export const STRUCTURE_MAPS: Record<StructureMapName, { label: string; description: string }> = {
+  a: { label: 'a', description: 'Coefficient a: local edge strength carried from the guidance to the target' },
+  varI: { label: 'varI', description: 'Local variance of the guidance' },
+  covIP: { label: 'covIP', description: 'Local covariance of guidance and target' },
+  mutual: { label: 'Mutual', description: 'Red: edges in both images · blue: edges in only one' }
+};
+
+/** |values| at the `SCALE_PERCENTILE` quantile, so a few outliers do not flatten the map. */
+function robustMagnitude(values: Float32Array): number {
+  const sorted = Float32Array.from(values, Math.abs).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(SCALE_PERCENTILE * sorted.length))] || 1;
+}
+
+/**
+ * Display scale of a structure map: signed maps are centred on 0 in the
+ * diverging colormap, variances start at 0 in viridis.
+ */
+export function structureMapScale(name: StructureMapName, map: ImageDataGray): MapScale {
+  if (name === 'mutual') return { colormap: 'diverging', min: -1, max: 1 };
+  const magnitude = robustMagnitude(map.data);
+  return name === 'varI'
+    ? { colormap: 'viridis', min: 0, max: magnitude }
+    : { colormap: 'diverging', min: -magnitude, max: magnitude };
+}
+
+/** Color of `t` in [0, 1], interpolated between the colormap's stops. */
+function colormapAt(stops: [number, number, number][], t: number): [number, number, number] {
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const k = Math.min(stops.length - 2, Math.floor(x));
+  const f = x - k;
+  const [p, q] = [stops[k], stops[k + 1]];
+  return [p[0] + f * (q[0] - p[0]), p[1] + f * (q[1] - p[1]), p[2] + f * (q[2] - p[2])];
+}
+
+/** Renders a single-channel map through `scale`'s colormap. */
+export function applyColormap(map: ImageDataGray, scale: MapScale): ImageDataRGB {
+  const { width, height, data } = map;
+  const stops = COLORMAP_STOPS[scale.colormap];
+  const span = scale.max - scale.min || 1;
+  const r = new Float32Array(data.length);
+  const g = new Float32Array(data.length);
+  const b = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    [r[i], g[i], b[i]] = colormapAt(stops, (data[i] - scale.min) / span);
+  }
+  return { r, g, b, width, height };
+}
+
+/** CSS gradient of a colormap from left to right, for legends. */
+export function colormapGradient(colormap: Colormap): string {
+  const stops = COLORMAP_STOPS[colormap];
+  const css = stops.map(([r, g, b], k) =>
+    `rgb(${Math.round(r * 255)} ${Math.round(g * 255)} ${Math.round(b * 255)}) ${(k / (stops.length - 1)) * 100}%`
+  );
+  return `linear-gradient(to right, ${css.join(', ')})`;
+}
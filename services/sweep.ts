@@ -0,0 +1,35 @@
+import { FilterParams, SweepAxes } from '../types';
+import { validateParams } from './presets';
+
+/** Largest number of parameter combinations one sweep may run. */
+export const MAX_SWEEP_CELLS = 36;
+
+/** Longest edge of the images a sweep filters; each cell is a thumbnail. */
+export const SWEEP_MAX_SIZE = 384;
+
+/** Parses a comma-separated list such as "2, 4, 8"; throws on anything else. */
+export function parseSweepValues(text: string, name: string): number[] {
+  const values = text.split(',').map(v => v.trim()).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`${name} must be a comma-separated list of numbers`);
+  }
+  return [...new Set(values)];
+}
+
+/**
+ * Every combination of the swept values on top of `base`, ordered by
+ * iterations, then radius, then epsilon: each run of `axes.epsilon.length`
+ * entries is one row of a contact sheet. Throws if a combination is invalid
+ * or there are more than `MAX_SWEEP_CELLS`.
+ */
+export function sweepGrid(base: FilterParams, axes: SweepAxes): FilterParams[] {
+  const count = axes.radius.length * axes.epsilon.length * axes.iterations.length;
+  if (count > MAX_SWEEP_CELLS) {
+    throw new Error(`A sweep may have at most ${MAX_SWEEP_CELLS} combinations, got ${count}`);
+  }
+  return axes.iterations.flatMap(iterations =>
+    axes.radius.flatMap(radius =>
+      axes.epsilon.map(epsilon => validateParams({ ...base, radius, epsilon, iterations }))
+    )
+  );
+}
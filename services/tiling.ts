@@ -0,0 +1,127 @@
+import { FilterParams, FilterProgress, ImageDataGray, ImageDataRGB, MutualFilterResult } from '../types';
+import { applyMutualStructureFilter } from './filters';
+
+/** Default edge length of the part of a tile that is kept. */
+export const DEFAULT_TILE_SIZE = 1024;
+
+/**
+ * Overlap needed around a tile for its interior to match the untiled result.
+ * Each iteration box-filters the images into coefficients and box-filters the
+ * coefficients again, so a pixel depends on inputs up to 2 r away per
+ * iteration; the structure-weighted blend needs r more of the inputs, which
+ * the iterations already cover. With subsampling the coefficient grids also
+ * reach one coarse pixel further per box pass, and the margin is rounded to a
+ * whole number of coarse pixels.
+ */
+export function tileMargin(params: FilterParams): number {
+  const s = Math.max(1, Math.round(params.subsample));
+  const perIteration = s > 1 ? 2 * (Math.max(1, Math.round(params.radius / s)) + 1) * s : 2 * params.radius;
+  const margin = Math.max(1, params.iterations) * perIteration;
+  return Math.ceil(margin / s) * s;
+}
+
+function crop(src: Float32Array, width: number, x0: number, y0: number, w: number, h: number): Float32Array {
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    out.set(src.subarray((y0 + y) * width + x0, (y0 + y) * width + x0 + w), y * w);
+  }
+  return out;
+}
+
+function cropRGB(image: ImageDataRGB, x0: number, y0: number, w: number, h: number): ImageDataRGB {
+  const c = (src: Float32Array) => crop(src, image.width, x0, y0, w, h);
+  return { r: c(image.r), g: c(image.g), b: c(image.b), width: w, height: h };
+}
+
+/**
+ * `applyMutualStructureFilter` for images too large to filter in one piece.
+ *
+ * The image is cut into tiles of `tileSize` pixels (grown if needed so the
+ * overlap stays a modest share of each tile), each filtered with a
+ * `tileMargin` border of real neighbours, and only the interior is written
+ * back. Working memory is then bounded by the tile size instead of the image
+ * size: apart from the inputs and the output, only one padded tile is alive at
+ * a time. The result matches the untiled filter to floating-point rounding
+ * when `params.subsample` is 1, and with subsampling when both image sides
+ * are multiples of it. Otherwise the coarse coefficient grid of the whole
+ * image is stretched slightly and a tile's grid is not, so tiles agree with
+ * the untiled result only to within the fast filter's own approximation.
+ *
+ * Images that fit in a single tile are filtered directly. `initial` starting
+ * estimates are cropped along with the inputs.
+ */
+export async function applyMutualStructureFilterTiled(
+  target: ImageDataRGB,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  onProgress: (p: number, detail?: FilterProgress) => void,
+  signal?: AbortSignal,
+  mask?: ImageDataGray,
+  tileSize: number = DEFAULT_TILE_SIZE,
+  initial?: MutualFilterResult
+): Promise<MutualFilterResult> {
+  const { width, height } = target;
+  const s = Math.max(1, Math.round(params.subsample));
+  const margin = tileMargin(params);
+  // Keep tiles aligned to the subsampling grid and at least twice the margin
+  const step = Math.ceil(Math.max(tileSize, 2 * margin) / s) * s;
+
+  if (width <= step && height <= step) {
+    return applyMutualStructureFilter(target, guidance, params, onProgress, signal, mask, initial);
+  }
+
+  const size = width * height;
+  const plane = () => new Float32Array(size);
+  const result: MutualFilterResult = {
+    target: { r: plane(), g: plane(), b: plane(), width, height },
+    guidance: { r: plane(), g: plane(), b: plane(), width, height }
+  };
+  if (target.a) result.target.a = new Float32Array(target.a);
+  if (guidance.a) result.guidance.a = new Float32Array(guidance.a);
+
+  const columns = Math.ceil(width / step);
+  const rows = Math.ceil(height / step);
+  const count = columns * rows;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const index = row * columns + column;
+      // Kept region, then the padded region actually filtered
+      const kx0 = column * step;
+      const ky0 = row * step;
+      const kx1 = Math.min(width, kx0 + step);
+      const ky1 = Math.min(height, ky0 + step);
+      const px0 = Math.max(0, kx0 - margin);
+      const py0 = Math.max(0, ky0 - margin);
+      const pw = Math.min(width, kx1 + margin) - px0;
+      const ph = Math.min(height, ky1 + margin) - py0;
+
+      const tile = await applyMutualStructureFilter(
+        cropRGB(target, px0, py0, pw, ph),
+        cropRGB(guidance, px0, py0, pw, ph),
+        params,
+        (p, detail) => onProgress(
+          ((index + p / 100) / count) * 100,
+          detail && { ...detail, tile: { index, count } }
+        ),
+        signal,
+        mask && { data: crop(mask.data, width, px0, py0, pw, ph), width: pw, height: ph },
+        initial && {
+          target: cropRGB(initial.target, px0, py0, pw, ph),
+          guidance: cropRGB(initial.guidance, px0, py0, pw, ph)
+        }
+      );
+
+      for (const [out, part] of [[result.target, tile.target], [result.guidance, tile.guidance]]) {
+        for (const c of ['r', 'g', 'b'] as const) {
+          for (let y = ky0; y < ky1; y++) {
+            const from = (y - py0) * pw + (kx0 - px0);
+            out[c].set(part[c].subarray(from, from + (kx1 - kx0)), y * width + kx0);
+          }
+        }
+      }
+    }
+  }
+
+  return result;
+}
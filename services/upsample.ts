@@ -0,0 +1,63 @@
+import { FilterParams, FilterProgress, ImageDataGray, ImageDataRGB } from '../types';
+import { applyMutualStructureFilterGray, resampleChannel } from './filters';
+import { checkImage } from './validation';
+
+/**
+ * Joint upsampling of a low-resolution scalar map (depth, segmentation
+ * confidence, thermal) onto the grid of a high-resolution guidance image.
+ *
+ * The map is stretched to [0, 1] over its own value range so that `epsilon`
+ * means the same for a 16-bit depth map occupying a few percent of full scale
+ * as for an 8-bit image, bilinearly upsampled as the initial estimate, then
+ * refined with the mutual structure filter so its edges snap to the edges it
+ * shares with the guidance. The result is returned in the input's units.
+ * A map with NaN or infinite samples is rejected with an `ImageError`.
+ */
+export async function upsampleWithGuidance(
+  lowRes: ImageDataGray,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  onProgress: (p: number, detail?: FilterProgress) => void,
+  signal?: AbortSignal
+): Promise<{ target: ImageDataGray; guidance: ImageDataRGB }> {
+  checkImage(lowRes, 'target', 'gray');
+  const [min, max] = valueRange(lowRes.data);
+  const span = max - min || 1;
+
+  const normalized = lowRes.data.map(v => (v - min) / span);
+  const initial = resampleChannel(normalized, lowRes.width, lowRes.height, guidance.width, guidance.height);
+
+  const result = await applyMutualStructureFilterGray(
+    { data: initial, width: guidance.width, height: guidance.height },
+    guidance,
+    params,
+    onProgress,
+    signal
+  );
+
+  const data = result.target.data;
+  for (let i = 0; i < data.length; i++) data[i] = min + data[i] * span;
+
+  return result;
+}
+
+/**
+ * Maps a scalar image onto a gray RGB image stretched over its value range,
+ * for display.
+ */
+export function grayToDisplay(image: ImageDataGray): ImageDataRGB {
+  const [min, max] = valueRange(image.data);
+  const span = max - min || 1;
+  const r = image.data.map(v => (v - min) / span);
+  return { r, g: new Float32Array(r), b: new Float32Array(r), width: image.width, height: image.height };
+}
+
+function valueRange(data: Float32Array): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] < min) min = data[i];
+    if (data[i] > max) max = data[i];
+  }
+  return [min, max];
+}
@@ -0,0 +1,105 @@
+import { FilterParams, ImageDataGray, ImageDataRGB } from '../types';
+import { ImageError, ParamError } from './errors';
+import { validateParams } from './presets';
+
+/**
+ * Checks that `image` has whole, positive dimensions, the channels of `kind`
+ * (r, g, b and an optional a, or data) as Float32Arrays of exactly
+ * width x height samples, and no NaN or infinite samples. `name` ('target',
+ * 'guidance', 'mask') is used in the message of the `ImageError` thrown.
+ */
+export function checkImage(image: ImageDataRGB | ImageDataGray, name: string, kind: 'rgb' | 'gray'): void {
+  if (typeof image !== 'object' || image === null) {
+    throw new ImageError('INVALID_IMAGE', name, `The ${name} image is missing`);
+  }
+  const { width, height } = image;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new ImageError('INVALID_IMAGE', name, `The ${name} image is ${width}x${height}; both sides must be whole numbers of at least 1`);
+  }
+  // Read loosely: the image may lack the channels its type promises
+  const { r, g, b, a, data: grayData } = image as Partial<ImageDataRGB & ImageDataGray>;
+  const channels: [string, unknown][] = kind === 'rgb'
+    ? [['red', r], ['green', g], ['blue', b], ...(a !== undefined ? [['alpha', a] as [string, unknown]] : [])]
+    : [['gray', grayData]];
+  for (const [channel, data] of channels) {
+    if (!(data instanceof Float32Array)) {
+      throw new ImageError(
+        'INVALID_IMAGE', name,
+        `The ${name} image has no ${channel} channel; expected ${kind === 'rgb' ? 'r, g and b' : 'data'} as Float32Arrays`
+      );
+    }
+    if (data.length !== width * height) {
+      throw new ImageError(
+        'INVALID_IMAGE', name,
+        `The ${name} image's ${channel} channel has ${data.length} samples, expected ${width}x${height}`
+      );
+    }
+    for (let i = 0; i < data.length; i++) {
+      if (!Number.isFinite(data[i])) {
+        throw new ImageError(
+          'NON_FINITE_PIXELS', name,
+          `The ${name} image has a ${data[i]} ${channel} sample at (${i % width}, ${Math.floor(i / width)})`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Checks the images of a filter call: both well formed, the target RGB
+ * unless `targetKind` is 'gray', the guidance RGB and at the target's size,
+ * and the mask, if any, gray and at that size too.
+ */
+export function checkFilterImages(
+  target: ImageDataRGB | ImageDataGray,
+  guidance: ImageDataRGB,
+  mask?: ImageDataGray,
+  targetKind: 'rgb' | 'gray' = 'rgb'
+): void {
+  checkImage(target, 'target', targetKind);
+  checkImage(guidance, 'guidance', 'rgb');
+  const sameSize = (image: ImageDataRGB | ImageDataGray, name: string) => {
+    if (image.width !== target.width || image.height !== target.height) {
+      throw new ImageError(
+        'SIZE_MISMATCH', name,
+        `The ${name} is ${image.width}x${image.height} but the target is ${target.width}x${target.height}`
+      );
+    }
+  };
+  sameSize(guidance, 'guidance');
+  if (mask) {
+    checkImage(mask, 'mask', 'gray');
+    sameSize(mask, 'mask');
+  }
+}
+
+/**
+ * Checks that `radius` leaves a window no larger than a `width` x `height`
+ * image along its longer side. Wider windows make every pixel's regression
+ * the same global fit, which is never what was meant.
+ */
+export function checkRadius(radius: number, width: number, height: number, param = 'radius'): void {
+  if (2 * radius + 1 > Math.max(width, height)) {
+    throw new ParamError(
+      'RADIUS_TOO_LARGE', param,
+      `${param} ${radius} gives a ${2 * radius + 1}px window, larger than the ${width}x${height} image`
+    );
+  }
+}
+
+/**
+ * All checks of a mutual-structure filter call: the images as in
+ * `checkFilterImages`, `params` as in `validateParams`, and the radius
+ * against the image size. Throws the `MsjfError` of the first problem.
+ */
+export function checkFilterInputs(
+  target: ImageDataRGB | ImageDataGray,
+  guidance: ImageDataRGB,
+  params: FilterParams,
+  mask?: ImageDataGray,
+  targetKind: 'rgb' | 'gray' = 'rgb'
+): void {
+  validateParams(params);
+  checkFilterImages(target, guidance, mask, targetKind);
+  checkRadius(params.radius, target.width, target.height);
+}
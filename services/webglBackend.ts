@@ -0,0 +1,238 @@
+import type { FilterBackend } from './backend';
+
+const VERTEX_SHADER = `#version 300 es
+void main() {
+  // One triangle covering the viewport
+  vec2 p = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+/** One separable box pass along `dir`, edges clamped like the CPU filter. */
+const BOX_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+uniform highp sampler2D src;
+uniform ivec2 dir;
+uniform int radius;
+out vec4 outColor;
+void main() {
+  ivec2 size = textureSize(src, 0);
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  float sum = 0.0;
+  for (int k = -radius; k <= radius; k++) {
+    sum += texelFetch(src, clamp(p + dir * k, ivec2(0), size - 1), 0).r;
+  }
+  outColor = vec4(sum / float(2 * radius + 1));
+}`;
+
+const PRODUCT_SHADER = `#version 300 es
+precision highp float;
+uniform highp sampler2D x;
+uniform highp sampler2D y;
+out vec4 outColor;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  outColor = vec4(texelFetch(x, p, 0).r * texelFetch(y, p, 0).r);
+}`;
+
+/** a = cov(I, P) / (var(I) + eps), b = mean(P) - a mean(I), packed as (a, b). */
+const COEFFICIENT_SHADER = `#version 300 es
+precision highp float;
+uniform highp sampler2D meanI;
+uniform highp sampler2D meanP;
+uniform highp sampler2D corrII;
+uniform highp sampler2D corrIP;
+uniform float eps;
+out vec4 outColor;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  float mI = texelFetch(meanI, p, 0).r;
+  float mP = texelFetch(meanP, p, 0).r;
+  float varI = texelFetch(corrII, p, 0).r - mI * mI;
+  float covIP = texelFetch(corrIP, p, 0).r - mI * mP;
+  float a = covIP / (varI + eps);
+  outColor = vec4(a, mP - a * mI, 0.0, 0.0);
+}`;
+
+type Program = { program: WebGLProgram; uniforms: Map<string, WebGLUniformLocation | null> };
+
+/**
+ * WebGL2 implementation of `FilterBackend`: planes are uploaded as R32F
+ * textures, every box filter is two separable shader passes, and the
+ * coefficient stage (products, four box filters, a and b) stays on the GPU
+ * until a single read-back. Returns null when WebGL2 or float render targets
+ * are unavailable. Works in workers through OffscreenCanvas.
+ *
+ * Planes larger than the GPU's texture limit are handed to `fallback`.
+ */
+export function createWebGLBackend(fallback?: FilterBackend): FilterBackend | null {
+  let canvas: OffscreenCanvas | HTMLCanvasElement;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(1, 1);
+  } else if (typeof document !== 'undefined') {
+    canvas = document.createElement('canvas');
+  } else {
+    return null;
+  }
+
+  const gl = canvas.getContext('webgl2', { antialias: false, depth: false, stencil: false }) as WebGL2RenderingContext | null;
+  if (!gl || !gl.getExtension('EXT_color_buffer_float')) return null;
+
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Could not create shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader compilation failed: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  };
+
+  const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const link = (source: string, names: string[]): Program => {
+    const program = gl.createProgram();
+    if (!program) throw new Error('Could not create program');
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, source));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    return { program, uniforms: new Map(names.map(name => [name, gl.getUniformLocation(program, name)])) };
+  };
+
+  let box: Program;
+  let product: Program;
+  let coefficient: Program;
+  try {
+    box = link(BOX_SHADER, ['src', 'dir', 'radius']);
+    product = link(PRODUCT_SHADER, ['x', 'y']);
+    coefficient = link(COEFFICIENT_SHADER, ['meanI', 'meanP', 'corrII', 'corrIP', 'eps']);
+  } catch (err) {
+    console.warn('WebGL filter backend unavailable', err);
+    return null;
+  }
+
+  const framebuffer = gl.createFramebuffer();
+  const vao = gl.createVertexArray();
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+
+  const texture = (width: number, height: number, data: Float32Array | null, rgba = false) => {
+    const tex = gl.createTexture();
+    if (!tex) throw new Error('Could not create texture');
+    gl.bindTexture(gl.TEXTURE_2D, tex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, rgba ? gl.RGBA32F : gl.R32F, width, height, 0,
+      rgba ? gl.RGBA : gl.RED, gl.FLOAT, data
+    );
+    return tex;
+  };
+
+  /** Draws `program` into `target`, binding `inputs` to consecutive texture units. */
+  const draw = (
+    { program, uniforms }: Program,
+    target: WebGLTexture,
+    width: number,
+    height: number,
+    inputs: [string, WebGLTexture][],
+    setUniforms: (uniforms: Map<string, WebGLUniformLocation | null>) => void = () => {}
+  ) => {
+    gl.useProgram(program);
+    inputs.forEach(([name, tex], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.uniform1i(uniforms.get(name) ?? null, unit);
+    });
+    setUniforms(uniforms);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target, 0);
+    gl.viewport(0, 0, width, height);
+    gl.bindVertexArray(vao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  };
+
+  const readRGBA = (target: WebGLTexture, width: number, height: number) => {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target, 0);
+    const pixels = new Float32Array(width * height * 4);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.FLOAT, pixels);
+    return pixels;
+  };
+
+  /** Two-pass box filter of `src` into a new texture; the intermediate is freed. */
+  const boxInto = (src: WebGLTexture, width: number, height: number, r: number, rgba = false) => {
+    const temp = texture(width, height, null);
+    const out = texture(width, height, null, rgba);
+    draw(box, temp, width, height, [['src', src]], u => {
+      gl.uniform2i(u.get('dir') ?? null, 1, 0);
+      gl.uniform1i(u.get('radius') ?? null, r);
+    });
+    draw(box, out, width, height, [['src', temp]], u => {
+      gl.uniform2i(u.get('dir') ?? null, 0, 1);
+      gl.uniform1i(u.get('radius') ?? null, r);
+    });
+    gl.deleteTexture(temp);
+    return out;
+  };
+
+  const fits = (width: number, height: number) => width <= maxSize && height <= maxSize;
+
+  return {
+    name: 'webgl',
+
+    boxFilter(data, width, height, r) {
+      if (!fits(width, height) && fallback) return fallback.boxFilter(data, width, height, r);
+      const src = texture(width, height, data);
+      const out = boxInto(src, width, height, r, true);
+      const pixels = readRGBA(out, width, height);
+      gl.deleteTexture(src);
+      gl.deleteTexture(out);
+
+      const result = new Float32Array(width * height);
+      for (let i = 0; i < result.length; i++) result[i] = pixels[i * 4];
+      return result;
+    },
+
+    linearCoefficients(P, I, width, height, r, eps) {
+      if (!fits(width, height) && fallback) return fallback.linearCoefficients(P, I, width, height, r, eps);
+      const texP = texture(width, height, P);
+      const texI = texture(width, height, I);
+      const texII = texture(width, height, null);
+      const texIP = texture(width, height, null);
+      draw(product, texII, width, height, [['x', texI], ['y', texI]]);
+      draw(product, texIP, width, height, [['x', texI], ['y', texP]]);
+
+      const means = [texI, texP, texII, texIP].map(tex => boxInto(tex, width, height, r));
+      const out = texture(width, height, null, true);
+      draw(
+        coefficient, out, width, height,
+        [['meanI', means[0]], ['meanP', means[1]], ['corrII', means[2]], ['corrIP', means[3]]],
+        u => gl.uniform1f(u.get('eps') ?? null, eps)
+      );
+      const pixels = readRGBA(out, width, height);
+      for (const tex of [texP, texI, texII, texIP, out, ...means]) gl.deleteTexture(tex);
+
+      const a = new Float32Array(width * height);
+      const b = new Float32Array(width * height);
+      for (let i = 0; i < a.length; i++) {
+        a[i] = pixels[i * 4];
+        b[i] = pixels[i * 4 + 1];
+      }
+      return { a, b };
+    },
+
+    dispose() {
+      for (const { program } of [box, product, coefficient]) gl.deleteProgram(program);
+      gl.deleteShader(vertex);
+      gl.deleteFramebuffer(framebuffer);
+      gl.deleteVertexArray(vao);
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Minimal ZIP writer for exporting image sequences. Entries are stored
+ * uncompressed: PNG and PFM frames gain little from deflate, and storing
+ * keeps this dependency-free.
+ */
+
+/** MS-DOS date 1980-01-01, the earliest valid one; a fixed stamp keeps archives reproducible. */
+const DOS_DATE = 0x0021;
+const DOS_TIME = 0;
+
+/** Entries a ZIP archive without ZIP64 can count. */
+const MAX_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export interface ZipEntry {
+  name: string;
+  bytes: Uint8Array;
+}
+
+/** Packs `entries` into a ZIP archive (stored, no ZIP64, so under 4 GB and 65535 entries). */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  if (entries.length > MAX_ENTRIES) throw new Error(`A ZIP archive holds at most ${MAX_ENTRIES} files, got ${entries.length}`);
+  const encoder = new TextEncoder();
+  const records = entries.map(entry => ({ ...entry, path: encoder.encode(entry.name), crc: crc32(entry.bytes) }));
+  const localSize = records.reduce((sum, r) => sum + 30 + r.path.length + r.bytes.length, 0);
+  const centralSize = records.reduce((sum, r) => sum + 46 + r.path.length, 0);
+  if (localSize + centralSize + 22 > 0xffffffff) throw new Error('Sequence too large for a ZIP archive');
+
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  const offsets: number[] = [];
+
+  for (const r of records) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed
+    view.setUint16(offset + 6, 0x0800, true); // UTF-8 names
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, DOS_TIME, true);
+    view.setUint16(offset + 12, DOS_DATE, true);
+    view.setUint32(offset + 14, r.crc, true);
+    view.setUint32(offset + 18, r.bytes.length, true);
+    view.setUint32(offset + 22, r.bytes.length, true);
+    view.setUint16(offset + 26, r.path.length, true);
+    out.set(r.path, offset + 30);
+    out.set(r.bytes, offset + 30 + r.path.length);
+    offset += 30 + r.path.length + r.bytes.length;
+  }
+
+  const centralStart = offset;
+  records.forEach((r, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, DOS_TIME, true);
+    view.setUint16(offset + 14, DOS_DATE, true);
+    view.setUint32(offset + 16, r.crc, true);
+    view.setUint32(offset + 20, r.bytes.length, true);
+    view.setUint32(offset + 24, r.bytes.length, true);
+    view.setUint16(offset + 28, r.path.length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    out.set(r.path, offset + 46);
+    offset += 46 + r.path.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return out;
+}
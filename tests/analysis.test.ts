@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeInputs, localProvider } from '../services/analysis';
+import { estimateParams, percentile } from '../services/autoParams';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { grayRGB, noiseRGB, texturedStep } from './helpers';
+
+describe('analysis', () => {
+  it('takes percentiles of unsorted values', () => {
+    const values = Float32Array.from([5, 1, 4, 2, 3]);
+    assert.equal(percentile(values, 0), 1);
+    assert.equal(percentile(values, 0.5), 3);
+    assert.equal(percentile(values, 1), 5);
+  });
+
+  it('has the local provider suggest what Auto estimates', async () => {
+    const target = grayRGB(64, 48, texturedStep(32));
+    const guidance = grayRGB(64, 48, texturedStep(32, 0));
+    const { suggestion } = await localProvider.analyse(describeInputs(target, guidance, 'filter', DEFAULT_PARAMS));
+    const auto = estimateParams(target, guidance, DEFAULT_PARAMS);
+    assert.deepEqual(suggestion, { params: auto.params, rationale: auto.rationale });
+  });
+
+  it('estimates an upsampling pair on the target stretched to the guidance', () => {
+    const request = describeInputs(grayRGB(16, 12, () => 0.5), noiseRGB(64, 48, 3), 'upsample', DEFAULT_PARAMS);
+    assert.equal(request.target.width, 16);
+    assert.ok(request.estimate.params.epsilon > 0);
+  });
+});
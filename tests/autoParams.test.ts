@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EPSILON_RANGE, estimateParams } from '../services/autoParams';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { grayRGB, noiseRGB, step, texturedStep } from './helpers';
+
+describe('estimateParams', () => {
+  it('explains an epsilon taken from the local variance', () => {
+    const { params, rationale } = estimateParams(grayRGB(64, 48, texturedStep(32, 0.02)), grayRGB(64, 48, step(32)), DEFAULT_PARAMS);
+    assert.ok(params.epsilon > EPSILON_RANGE[0] && params.epsilon < EPSILON_RANGE[1]);
+    assert.match(rationale, new RegExp(`so epsilon is ${params.epsilon}\\.`));
+    assert.doesNotMatch(rationale, /usable range/);
+  });
+
+  it('says when the range holds epsilon at its lower limit', () => {
+    const flat = grayRGB(64, 48, () => 0.5);
+    const { params, rationale } = estimateParams(flat, flat, DEFAULT_PARAMS);
+    assert.equal(params.epsilon, EPSILON_RANGE[0]);
+    assert.match(rationale, /below the usable range, so epsilon is held at its lower limit 0\.0001\./);
+  });
+
+  it('says when the range holds epsilon at its upper limit', () => {
+    const noise = noiseRGB(64, 48, 7);
+    const { params, rationale } = estimateParams(noise, noise, DEFAULT_PARAMS);
+    assert.equal(params.epsilon, EPSILON_RANGE[1]);
+    assert.match(rationale, /raised to .* to clear the noise/);
+    assert.match(rationale, /above the usable range, so epsilon is held at its upper limit 0\.05\./);
+  });
+});
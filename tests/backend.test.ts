@@ -0,0 +1,96 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BACKEND_TOLERANCE, cpuBackend, createFilterBackend, FilterBackend, getFilterBackend, matchesReference, setFilterBackend
+} from '../services/backend';
+import { applyMutualStructureFilter, guidedFilterChannel } from '../services/filters';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { maxDiff, maxDiffRGB, noiseRGB, noProgress, random } from './helpers';
+
+const W = 19;
+const H = 13;
+const next = random(11);
+const P = Float32Array.from({ length: W * H }, next);
+const I = Float32Array.from(P, p => 0.6 * p + 0.4 * next());
+
+/** Window mean with clamped edges, summed pixel by pixel. */
+function bruteBox(data: Float32Array, r: number): Float32Array {
+  const out = new Float32Array(data.length);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      let sum = 0;
+      for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+          const sx = Math.min(W - 1, Math.max(0, x + dx));
+          const sy = Math.min(H - 1, Math.max(0, y + dy));
+          sum += data[sy * W + sx];
+        }
+      }
+      out[y * W + x] = sum / (2 * r + 1) ** 2;
+    }
+  }
+  return out;
+}
+
+/** He et al.'s guided filter written out directly from its definition. */
+function bruteGuided(r: number, eps: number): Float32Array {
+  const mul = (x: Float32Array, y: Float32Array) => x.map((v, i) => v * y[i]);
+  const meanI = bruteBox(I, r);
+  const meanP = bruteBox(P, r);
+  const varI = bruteBox(mul(I, I), r).map((v, i) => v - meanI[i] ** 2);
+  const covIP = bruteBox(mul(I, P), r).map((v, i) => v - meanI[i] * meanP[i]);
+  const a = covIP.map((v, i) => v / (varI[i] + eps));
+  const b = meanP.map((v, i) => v - a[i] * meanI[i]);
+  const meanA = bruteBox(a, r);
+  const meanB = bruteBox(b, r);
+  return I.map((v, i) => meanA[i] * v + meanB[i]);
+}
+
+/** `cpuBackend` with `offset` added to every box-filter output, standing in for an imprecise GPU. */
+const offsetBackend = (offset: number): FilterBackend => ({
+  ...cpuBackend,
+  name: 'webgl',
+  boxFilter: (data, width, height, r) => cpuBackend.boxFilter(data, width, height, r).map(v => v + offset)
+});
+
+describe('CPU reference backend', () => {
+  it('box-filters like a direct window sum, edges clamped', () => {
+    for (const r of [1, 3, 12]) assert.ok(maxDiff(cpuBackend.boxFilter(P, W, H, r), bruteBox(P, r)) < 1e-5, `r = ${r}`);
+  });
+
+  it('computes the guided filter of the solver in filters.ts', () => {
+    for (const [r, eps] of [[2, 0.01], [4, 0.001]]) {
+      assert.ok(maxDiff(guidedFilterChannel(P, I, W, H, r, eps), bruteGuided(r, eps)) < 1e-4, `r = ${r}`);
+    }
+  });
+
+  it('is what headless runs get for every preference', () => {
+    for (const preference of ['auto', 'cpu', 'webgl'] as const) assert.equal(createFilterBackend(preference), cpuBackend);
+  });
+});
+
+describe('matchesReference', () => {
+  afterEach(() => setFilterBackend(cpuBackend));
+
+  it('accepts the reference and backends within BACKEND_TOLERANCE', () => {
+    assert.ok(matchesReference(cpuBackend));
+    assert.ok(matchesReference(offsetBackend(BACKEND_TOLERANCE / 4)));
+  });
+
+  it('rejects backends beyond the tolerance or producing NaN', () => {
+    assert.ok(!matchesReference(offsetBackend(BACKEND_TOLERANCE * 2)));
+    assert.ok(!matchesReference(offsetBackend(NaN)));
+  });
+
+  it('keeps filter output within tolerance of the CPU for a backend that passes', async () => {
+    const target = noiseRGB(24, 16, 3);
+    const guidance = noiseRGB(24, 16, 4);
+    const reference = await applyMutualStructureFilter(target, guidance, DEFAULT_PARAMS, noProgress);
+    const candidate = offsetBackend(BACKEND_TOLERANCE / 4);
+    assert.ok(matchesReference(candidate));
+    setFilterBackend(candidate);
+    assert.equal(getFilterBackend(), candidate);
+    const result = await applyMutualStructureFilter(target, guidance, DEFAULT_PARAMS, noProgress);
+    assert.ok(maxDiffRGB(result.target, reference.target) < BACKEND_TOLERANCE * 100);
+  });
+});
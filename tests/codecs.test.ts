@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeGray, decodeImage, decodePFM, decodePNM, encodeGrayPFM, encodeGrayPNG, encodeImage, formatFromFileName, sniffFormat
+} from '../services/codecs';
+import { gray, maxDiff, maxDiffRGB, noiseRGB } from './helpers';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+describe('codecs', () => {
+  it('picks the codec from the extension or the leading bytes', () => {
+    assert.equal(formatFromFileName('a/b.PNG'), 'png');
+    assert.equal(formatFromFileName('x.pgm'), 'ppm');
+    assert.equal(formatFromFileName('x.jpg'), null);
+    assert.equal(sniffFormat(encodeImage(noiseRGB(2, 2, 1), 'png')), 'png');
+    assert.equal(sniffFormat(ascii('P6\n1 1\n255\n')), 'ppm');
+    assert.equal(sniffFormat(new Uint8Array([0xff, 0xd8, 0xff])), null);
+  });
+
+  it('round-trips 8-bit PNG and PPM to within one quantisation step', () => {
+    const image = noiseRGB(7, 5, 2);
+    for (const format of ['png', 'ppm'] as const) {
+      const decoded = decodeImage(encodeImage(image, format), format);
+      assert.equal(decoded.width, 7);
+      assert.equal(decoded.height, 5);
+      assert.ok(maxDiffRGB(decoded, image) <= 0.5 / 255 + 1e-6, format);
+    }
+  });
+
+  it('reads ASCII Netpbm with comments', () => {
+    const gray = decodePNM(ascii('P2\n# a comment\n2 1\n4\n0 4\n'));
+    assert.deepEqual([...gray.r], [0, 1]);
+    assert.deepEqual([...gray.b], [0, 1]);
+    const color = decodePNM(ascii('P3 1 1 255 255 0 51'));
+    assert.deepEqual([color.r[0], color.g[0]], [1, 0]);
+    assert.ok(Math.abs(color.b[0] - 0.2) < 1e-6);
+  });
+
+  it('rejects unsupported and truncated Netpbm files', () => {
+    assert.throws(() => decodePNM(ascii('P4\n1 1\n')), /Unsupported Netpbm type/);
+    assert.throws(() => decodePNM(ascii('P6\n0 1\n255\n')), /Malformed Netpbm header/);
+    assert.throws(() => decodePNM(ascii('P6\n2 2\n255\nabc')), /Truncated Netpbm raster/);
+  });
+
+  it('round-trips 16-bit PNG to within 1/65535', () => {
+    const image = noiseRGB(6, 4, 3);
+    const decoded = decodeImage(encodeImage(image, 'png', 16), 'png');
+    assert.ok(maxDiffRGB(decoded, image) <= 0.5 / 65535 + 1e-7);
+    // Steps an 8-bit file could not tell apart survive
+    const fine = gray(2, 1, x => 0.25 + x / 65535);
+    const { image: back, maxValue } = decodeGray(encodeGrayPNG(fine, 16), 'png');
+    assert.equal(maxValue, 65535);
+    assert.ok(back.data[1] > back.data[0]);
+  });
+
+  it('round-trips PFM exactly, keeping HDR values and row order', () => {
+    const image = noiseRGB(5, 3, 4);
+    image.r[0] = 7.25;
+    image.g[14] = -0.5;
+    const decoded = decodeImage(encodeImage(image, 'pfm'), 'pfm');
+    assert.equal(maxDiffRGB(decoded, image), 0);
+    const map = gray(4, 3, (x, y) => x + 10 * y);
+    assert.deepEqual([...decodeGray(encodeGrayPFM(map), 'pfm').image.data], [...map.data]);
+  });
+
+  it('reads big-endian PFM written top row last', () => {
+    const header = ascii('Pf\n1 2\n1.0\n');
+    const bytes = new Uint8Array(header.length + 8);
+    bytes.set(header);
+    const view = new DataView(bytes.buffer, header.length);
+    view.setFloat32(0, 0.25, false); // bottom row
+    view.setFloat32(4, 0.75, false); // top row
+    assert.deepEqual([...decodePFM(bytes).r], [0.75, 0.25]);
+  });
+
+  it('reads 16-bit binary Netpbm', () => {
+    const header = ascii('P5\n2 1\n65535\n');
+    const bytes = new Uint8Array(header.length + 4);
+    bytes.set(header);
+    bytes.set([0x80, 0x00, 0xff, 0xff], header.length);
+    const { image, maxValue } = decodeGray(bytes, 'ppm');
+    assert.equal(maxValue, 65535);
+    assert.ok(maxDiff(image.data, [0x8000 / 65535, 1]) < 1e-7);
+  });
+
+  it('keeps alpha in PNG at either depth', () => {
+    const image = noiseRGB(4, 4, 5);
+    image.a = Float32Array.from({ length: 16 }, (_, i) => i / 15);
+    for (const depth of [8, 16] as const) {
+      const decoded = decodeImage(encodeImage(image, 'png', depth), 'png');
+      assert.ok(decoded.a && maxDiff(decoded.a, image.a) <= 0.5 / 255 + 1e-6, `${depth}-bit`);
+    }
+  });
+});
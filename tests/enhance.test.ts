@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { enhanceDetail, shoulderWidths, softClip } from '../services/enhance';
+import { grayRGB, maxDiffRGB } from './helpers';
+
+describe('softClip', () => {
+  it('is the identity without shoulders', () => {
+    for (const v of [0, 0.05, 0.5, 0.95, 1]) assert.equal(softClip(v, 0, 0), v);
+  });
+
+  it('keeps overshoot inside [0, 1] and preserves order', () => {
+    const values = [-0.5, -0.1, 0, 0.5, 0.95, 1, 1.2, 3];
+    const clipped = values.map(v => softClip(v, 0.1, 0.1));
+    for (const v of clipped) assert.ok(v >= 0 && v <= 1);
+    for (let k = 1; k < clipped.length; k++) assert.ok(clipped[k] > clipped[k - 1]);
+  });
+
+  it('sizes shoulders from the actual overshoot', () => {
+    assert.deepEqual(shoulderWidths([new Float32Array([0, 0.5, 1])]), { low: 0, high: 0 });
+    const { low, high } = shoulderWidths([new Float32Array([-0.02, 1.5])]);
+    assert.ok(Math.abs(low - 0.02) < 1e-6);
+    assert.equal(high, 0.1);
+  });
+});
+
+describe('enhanceDetail', () => {
+  // Black-to-white ramp with pure black and white ends, and a blurred copy as the base
+  const original = grayRGB(16, 4, x => Math.min(1, Math.max(0, (x - 3) / 9)));
+  const base = grayRGB(16, 4, x => 0.25 + 0.5 * (x / 15));
+
+  it('reproduces the original at gain 1, white and black included', () => {
+    const { enhanced } = enhanceDetail(original, [base], { enabled: true, gains: [1] });
+    assert.ok(maxDiffRGB(enhanced, original) < 1e-6);
+    assert.equal(enhanced.r[15], 1);
+    assert.equal(enhanced.r[0], 0);
+  });
+
+  it('amplifies detail and soft-clips the overshoot', () => {
+    const { detail, enhanced } = enhanceDetail(original, [base], { enabled: true, gains: [3] });
+    assert.ok(Math.abs(detail.r[15] - (0.5 + 3 * (1 - base.r[15]))) < 1e-6);
+    for (const v of enhanced.r) assert.ok(v >= 0 && v <= 1);
+    // 1.5 before clipping: compressed into the shoulder, not clamped
+    assert.ok(enhanced.r[15] > 0.9 && enhanced.r[15] < 1);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyMutualStructureFilter, structureMaps } from '../services/filters';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { gray, grayRGB, maxDiffRGB, noProgress, regionMean, regionStd, step, texturedStep } from './helpers';
+
+const W = 48;
+const H = 32;
+const column = (data: Float32Array, x: number) => regionMean(data, W, xx => xx === x);
+
+describe('applyMutualStructureFilter', () => {
+  it('leaves constant images unchanged', async () => {
+    const { target, guidance } = await applyMutualStructureFilter(
+      grayRGB(W, H, () => 0.3), grayRGB(W, H, () => 0.6), DEFAULT_PARAMS, noProgress
+    );
+    for (const v of target.r) assert.ok(Math.abs(v - 0.3) < 1e-6);
+    for (const v of guidance.r) assert.ok(Math.abs(v - 0.6) < 1e-6);
+  });
+
+  it('removes texture but keeps an edge both images share', async () => {
+    const { target } = await applyMutualStructureFilter(
+      grayRGB(W, H, texturedStep(24)), grayRGB(W, H, step(24)), DEFAULT_PARAMS, noProgress
+    );
+    // The checkerboard has a standard deviation of 0.1 on either side of the edge
+    assert.ok(regionStd(target.r, W, x => x < 18) < 0.02);
+    assert.ok(regionStd(target.r, W, x => x >= 30) < 0.02);
+    // The step from 0.2 to 0.8 stays a one-pixel step
+    assert.ok(column(target.r, 24) - column(target.r, 23) > 0.5);
+  });
+
+  it('smooths an edge that only the target has', async () => {
+    const { target } = await applyMutualStructureFilter(
+      grayRGB(W, H, step(24)), grayRGB(W, H, () => 0.5), DEFAULT_PARAMS, noProgress
+    );
+    assert.ok(column(target.r, 24) - column(target.r, 23) < 0.2);
+  });
+
+  it('reports progress up to 100 and leaves its inputs untouched', async () => {
+    const input = grayRGB(W, H, texturedStep(24));
+    const copy = new Float32Array(input.r);
+    let last = 0;
+    await applyMutualStructureFilter(input, grayRGB(W, H, step(24)), DEFAULT_PARAMS, p => { last = p; });
+    assert.equal(Math.round(last), 100);
+    assert.deepEqual(input.r, copy);
+  });
+
+  it('stops with the signal\'s reason when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('stop'));
+    await assert.rejects(
+      applyMutualStructureFilter(grayRGB(W, H, step(24)), grayRGB(W, H, step(24)), DEFAULT_PARAMS, noProgress, controller.signal),
+      /stop/
+    );
+  });
+
+  it('approximates the exact result with subsampled coefficients', async () => {
+    const target = grayRGB(W, H, texturedStep(24));
+    const guidance = grayRGB(W, H, step(24));
+    const exact = await applyMutualStructureFilter(target, guidance, DEFAULT_PARAMS, noProgress);
+    const fast = await applyMutualStructureFilter(target, guidance, { ...DEFAULT_PARAMS, subsample: 2 }, noProgress);
+    assert.ok(maxDiffRGB(exact.target, fast.target) < 0.1);
+    assert.ok(regionStd(fast.target.r, W, x => x < 18) < 0.02);
+  });
+
+  it('keeps an edge that differs only in chroma in color mode', async () => {
+    // Red falls while green rises so that luminance stays flat across x = 24
+    const image = grayRGB(W, H, () => 0.5);
+    for (let i = 0; i < W * H; i++) {
+      const right = i % W >= 24;
+      image.r[i] = right ? 0.2 : 0.8;
+      image.g[i] = right ? 0.3 + (0.299 * 0.6) / 0.587 : 0.3;
+    }
+    const contrast = async (guidanceMode: 'luminance' | 'color') => {
+      const { target } = await applyMutualStructureFilter(image, image, { ...DEFAULT_PARAMS, guidanceMode }, noProgress);
+      return column(target.r, 23) - column(target.r, 24);
+    };
+    assert.ok(await contrast('luminance') < 0.2);
+    assert.ok(await contrast('color') > 0.5);
+  });
+
+  it('restores original detail on mutual structure as weight drops', async () => {
+    const image = grayRGB(W, H, texturedStep(24));
+    const change = async (weight: number) => {
+      const { target } = await applyMutualStructureFilter(image, image, { ...DEFAULT_PARAMS, weight }, noProgress);
+      const diff = target.r.map((v, i) => Math.abs(v - image.r[i]));
+      return regionMean(diff, W, x => x === 23 || x === 24);
+    };
+    assert.ok(await change(0) < (await change(1)) / 4);
+  });
+
+  it('carries alpha through unchanged', async () => {
+    const target = grayRGB(W, H, texturedStep(24));
+    target.a = Float32Array.from({ length: W * H }, (_, i) => (i % W) / W);
+    const { target: out } = await applyMutualStructureFilter(target, grayRGB(W, H, step(24)), DEFAULT_PARAMS, noProgress);
+    assert.deepEqual(out.a, target.a);
+  });
+
+  it('filters only inside the mask, without bleeding from outside it', async () => {
+    // Textured left half, bright flat right half; only the left half is masked in
+    const target = grayRGB(W, H, (x, y) => (x < 24 ? 0.3 + ((x + y) % 2 ? 0.1 : -0.1) : 1));
+    const guidance = grayRGB(W, H, () => 0.5);
+    const mask = gray(W, H, x => (x < 24 ? 1 : 0));
+    const { target: out } = await applyMutualStructureFilter(target, guidance, DEFAULT_PARAMS, noProgress, undefined, mask);
+    for (let i = 0; i < W * H; i++) if (i % W >= 24) assert.equal(out.r[i], target.r[i]);
+    assert.ok(regionStd(out.r, W, x => x < 24) < 0.02);
+    // Next to the mask edge the result still averages the region, not the bright outside
+    assert.ok(Math.abs(regionMean(out.r, W, x => x === 23) - 0.3) < 0.02);
+  });
+});
+
+describe('structureMaps', () => {
+  const W = 64;
+  // Edges at x = 16 in both images and at x = 44 in the target only
+  const target = grayRGB(W, 24, x => (x < 16 ? 0.2 : x < 44 ? 0.8 : 0.4));
+  const guidance = grayRGB(W, 24, step(16));
+  const column = (data: Float32Array, x: number) => regionMean(data, W, cx => cx === x);
+
+  it('marks shared edges positive, one-sided edges negative and flat regions near 0', () => {
+    const { mutual } = structureMaps(target, guidance, 3, 1e-3);
+    assert.ok(column(mutual.data, 16) > 0.5);
+    assert.ok(column(mutual.data, 44) < -0.5);
+    assert.ok(Math.abs(column(mutual.data, 4)) < 0.05);
+  });
+
+  it('spreads each edge over the window given', () => {
+    const near = (r: number) => column(structureMaps(target, guidance, r, 1e-3).mutual.data, 21);
+    assert.ok(Math.abs(near(2)) < 0.05);
+    assert.ok(near(6) > 0.5);
+  });
+});
@@ -0,0 +1,77 @@
+import { ImageDataGray, ImageDataRGB } from '../types';
+
+/** Seeded uniform generator in [0, 1) (mulberry32), so fixtures are the same on every run. */
+export function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** An RGB image whose three channels are `f(x, y)`. */
+export function grayRGB(width: number, height: number, f: (x: number, y: number) => number): ImageDataRGB {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) data[y * width + x] = f(x, y);
+  return { r: data, g: new Float32Array(data), b: new Float32Array(data), width, height };
+}
+
+export function gray(width: number, height: number, f: (x: number, y: number) => number): ImageDataGray {
+  return { data: grayRGB(width, height, f).r, width, height };
+}
+
+/** Vertical step edge at `edge`, from `low` to `high`. */
+export const step = (edge: number, low = 0.2, high = 0.8) => (x: number) => (x < edge ? low : high);
+
+/** Step edge at `edge` plus a fine checkerboard of amplitude `amplitude` (texture). */
+export const texturedStep = (edge: number, amplitude = 0.1) =>
+  (x: number, y: number) => step(edge)(x) + ((x + y) % 2 === 0 ? amplitude : -amplitude);
+
+/** A full-range random RGB image. */
+export function noiseRGB(width: number, height: number, seed: number): ImageDataRGB {
+  const next = random(seed);
+  const plane = () => Float32Array.from({ length: width * height }, next);
+  return { r: plane(), g: plane(), b: plane(), width, height };
+}
+
+export function maxDiff(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) d = Math.max(d, Math.abs(a[i] - b[i]));
+  return d;
+}
+
+export function maxDiffRGB(a: ImageDataRGB, b: ImageDataRGB): number {
+  return Math.max(maxDiff(a.r, b.r), maxDiff(a.g, b.g), maxDiff(a.b, b.b));
+}
+
+/** Mean of `data` over the pixels of a `width`-wide image where `inside(x, y)` holds. */
+export function regionMean(data: Float32Array, width: number, inside: (x: number, y: number) => boolean): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (inside(i % width, Math.floor(i / width))) {
+      sum += data[i];
+      count++;
+    }
+  }
+  return sum / count;
+}
+
+/** Standard deviation of `data` over the pixels where `inside(x, y)` holds. */
+export function regionStd(data: Float32Array, width: number, inside: (x: number, y: number) => boolean): number {
+  const mean = regionMean(data, width, inside);
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (inside(i % width, Math.floor(i / width))) {
+      sum += (data[i] - mean) ** 2;
+      count++;
+    }
+  }
+  return Math.sqrt(sum / count);
+}
+
+export const noProgress = () => {};
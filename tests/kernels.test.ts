@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KernelName } from '../types';
+import { getKernel, isKernelName, KERNELS, validateKernelValues } from '../services/kernels';
+import { gray, grayRGB, maxDiff, noProgress, regionMean, regionStd, step } from './helpers';
+
+const BASELINES: KernelName[] = ['joint-bilateral', 'weighted-median', 'rolling-guidance'];
+
+/** Step edge with dots of ±0.1 on a quarter of the pixels each, so a median removes them too. */
+const dottedStep = (edge: number) => (x: number, y: number) =>
+  step(edge)(x) + (x % 2 === 0 && y % 2 === 0 ? 0.1 : x % 2 === 1 && y % 2 === 1 ? -0.1 : 0);
+
+describe('baseline kernels', () => {
+  const width = 48;
+  const height = 32;
+  const target = grayRGB(width, height, dottedStep(24));
+  const guidance = grayRGB(width, height, step(24));
+  const left = (x: number) => x >= 4 && x < 18;
+  const right = (x: number) => x >= 30 && x < 44;
+
+  for (const name of BASELINES) {
+    it(`${name} removes texture and keeps the edge`, async () => {
+      const kernel = getKernel(name);
+      const out = await kernel.apply(target, guidance, kernel.defaults, noProgress);
+      assert.ok(regionStd(out.r, width, left) < 0.3 * regionStd(target.r, width, left));
+      assert.ok(regionStd(out.r, width, right) < 0.3 * regionStd(target.r, width, right));
+      assert.ok(Math.abs(regionMean(out.r, width, left) - 0.2) < 0.03);
+      assert.ok(Math.abs(regionMean(out.r, width, right) - 0.8) < 0.03);
+    });
+
+    it(`${name} leaves pixels outside the mask unchanged`, async () => {
+      const kernel = getKernel(name);
+      const mask = gray(width, height, (_, y) => (y < height / 2 ? 1 : 0));
+      const out = await kernel.apply(target, guidance, kernel.defaults, noProgress, undefined, mask);
+      const half = (width * height) / 2;
+      assert.equal(maxDiff(out.r.subarray(half), target.r.subarray(half)), 0);
+      assert.ok(maxDiff(out.r.subarray(0, half), target.r.subarray(0, half)) > 0.05);
+    });
+  }
+
+  it('fills missing values from the defaults and rejects out-of-range ones', () => {
+    assert.deepEqual(validateKernelValues('joint-bilateral', {}), { name: 'joint-bilateral', values: KERNELS['joint-bilateral'].defaults });
+    assert.throws(() => validateKernelValues('joint-bilateral', { sigmaRange: 0.6 }), { code: 'INVALID_PARAM', subject: 'sigmaRange' });
+    assert.throws(() => validateKernelValues('weighted-median', { radius: 0 }), { code: 'INVALID_PARAM', subject: 'radius' });
+    assert.throws(() => validateKernelValues('rolling-guidance', { iterations: 'many' }), { code: 'INVALID_PARAM' });
+    assert.throws(() => validateKernelValues('msjf', { guidanceMode: 'hue' }), { code: 'INVALID_PARAM', subject: 'guidanceMode' });
+  });
+
+  it('checks the values it is given before filtering', async () => {
+    const apply = (name: KernelName, values: Record<string, number>) => getKernel(name).apply(target, guidance, values, noProgress);
+    await assert.rejects(apply('joint-bilateral', { sigmaSpatial: NaN }), { name: 'ParamError', code: 'INVALID_PARAM', subject: 'sigmaSpatial' });
+    await assert.rejects(apply('weighted-median', { radius: 50 }), { code: 'INVALID_PARAM', subject: 'radius' });
+    await assert.rejects(apply('rolling-guidance', { iterations: -1 }), { code: 'INVALID_PARAM', subject: 'iterations' });
+    // Missing values take the defaults
+    assert.equal((await apply('joint-bilateral', {})).width, width);
+  });
+
+  it('recognises kernel names only', () => {
+    assert.ok(isKernelName('weighted-median'));
+    assert.ok(!isKernelName('toString'));
+  });
+});
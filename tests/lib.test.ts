@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { filter, ImageError, MsjfError, OptionsError, ParamError, upsample, validateFilterOptions } from '../lib';
+import { gray, grayRGB, step } from './helpers';
+
+const target = grayRGB(24, 16, step(12));
+const guidance = grayRGB(24, 16, step(12));
+
+describe('library entry point', () => {
+  it('filters with the defaults filled in', async () => {
+    const out = await filter({ target, guidance, params: { radius: 2 } });
+    assert.equal(out.target.width, 24);
+    assert.deepEqual(out.levels, []);
+    assert.equal(validateFilterOptions({ target, guidance, params: { radius: 2 } }).params.radius, 2);
+  });
+
+  it('rejects unusable options with INVALID_OPTIONS', () => {
+    for (const options of [null, { target, guidance, radius: 2 }, { target, guidance, onProgress: 1 }, { target, guidance, tileSize: 8 },
+      { target, guidance, kernel: { name: 'box' } }]) {
+      assert.throws(() => validateFilterOptions(options), (err: unknown) => err instanceof OptionsError && err.code === 'INVALID_OPTIONS');
+    }
+  });
+
+  it('rejects parameters out of range with INVALID_PARAM, INVALID_EPSILON and RADIUS_TOO_LARGE', () => {
+    const code = (params: object) => {
+      try {
+        validateFilterOptions({ target, guidance, params });
+      } catch (err) {
+        assert.ok(err instanceof ParamError);
+        return err.code;
+      }
+      return undefined;
+    };
+    assert.equal(code({ iterations: 0 }), 'INVALID_PARAM');
+    assert.equal(code({ epsilon: 0 }), 'INVALID_EPSILON');
+    assert.equal(code({ radius: 12 }), 'RADIUS_TOO_LARGE');
+    assert.throws(
+      () => validateFilterOptions({ target, guidance, kernel: { name: 'joint-bilateral', values: { sigmaRange: 2 } } }),
+      { code: 'INVALID_PARAM', subject: 'sigmaRange' }
+    );
+  });
+
+  it('rejects malformed images with INVALID_IMAGE, gray ones where RGB is needed included', () => {
+    const grayImage = gray(24, 16, () => 0.5);
+    const cases: [string, object][] = [
+      ['target', { target: grayImage, guidance }],
+      ['guidance', { target, guidance: grayImage }],
+      ['guidance', { target, guidance: grayImage, kernel: { name: 'weighted-median' } }],
+      ['target', { target: { ...target, width: 23 }, guidance }],
+      ['target', { target: { ...target, g: Array.from(target.g) }, guidance }],
+      ['target', { target: { ...target, a: new Float32Array(3) }, guidance }],
+      ['mask', { target, guidance, mask: target }],
+      ['guidance', { target, guidance: undefined }]
+    ];
+    for (const [subject, options] of cases) {
+      assert.throws(() => validateFilterOptions(options), { name: 'ImageError', code: 'INVALID_IMAGE', subject });
+    }
+  });
+
+  it('rejects images of different sizes with SIZE_MISMATCH', () => {
+    assert.throws(() => validateFilterOptions({ target, guidance: grayRGB(20, 16, () => 0) }), { code: 'SIZE_MISMATCH', subject: 'guidance' });
+    assert.throws(() => validateFilterOptions({ target, guidance, mask: gray(24, 8, () => 1) }), { code: 'SIZE_MISMATCH', subject: 'mask' });
+  });
+
+  it('rejects NaN and infinite samples with NON_FINITE_PIXELS', () => {
+    const broken = grayRGB(24, 16, (x, y) => (x === 3 && y === 2 ? NaN : 0.5));
+    assert.throws(() => validateFilterOptions({ target: broken, guidance }), { code: 'NON_FINITE_PIXELS', subject: 'target' });
+    assert.throws(() => validateFilterOptions({ target, guidance, mask: gray(24, 16, () => Infinity) }), { code: 'NON_FINITE_PIXELS' });
+  });
+
+  it('checks upsampling inputs the same way', async () => {
+    const map = gray(6, 4, () => 1);
+    assert.ok((await upsample({ target: map, guidance, params: { radius: 2 } })).target.data.length === 24 * 16);
+    await assert.rejects(upsample({ target: grayRGB(6, 4, () => 1) as never, guidance }), { code: 'INVALID_IMAGE', subject: 'target' });
+    await assert.rejects(upsample({ target: map, guidance: map as never }), { code: 'INVALID_IMAGE', subject: 'guidance' });
+    await assert.rejects(upsample({ target: map, guidance, extra: 1 } as never), OptionsError);
+  });
+
+  it('reports every error as an MsjfError', async () => {
+    await assert.rejects(filter({ target, guidance: gray(24, 16, () => 0) as never }), (err: unknown) => err instanceof MsjfError && err instanceof ImageError);
+  });
+});
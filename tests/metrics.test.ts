@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { gradientCorrelation, psnr, relativeTotalVariation, ssim } from '../services/metrics';
+import { grayRGB, step, texturedStep } from './helpers';
+
+describe('metrics', () => {
+  const clean = grayRGB(32, 24, step(16));
+  const textured = grayRGB(32, 24, texturedStep(16));
+
+  it('scores identical images as perfect', () => {
+    assert.equal(psnr(clean, clean), Infinity);
+    assert.ok(Math.abs(ssim(clean, clean) - 1) < 1e-6);
+    assert.ok(Math.abs(gradientCorrelation(clean, clean) - 1) < 1e-6);
+  });
+
+  it('gives the PSNR of a known uniform error', () => {
+    const offset = grayRGB(32, 24, x => step(16)(x) + 0.1);
+    assert.ok(Math.abs(psnr(clean, offset) - 20) < 1e-3);
+  });
+
+  it('rates texture above a clean edge in relative total variation', () => {
+    assert.ok(relativeTotalVariation(textured) > 2 * relativeTotalVariation(clean));
+  });
+
+  it('rejects images of different sizes', () => {
+    assert.throws(() => psnr(clean, grayRGB(16, 24, () => 0)), { code: 'SIZE_MISMATCH' });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Preset } from '../types';
+import { BUILT_IN_PRESETS, DEFAULT_PARAMS, exportPresets, parsePresets, validateParams } from '../services/presets';
+
+describe('presets', () => {
+  const presets: Preset[] = [
+    { name: 'Soft', params: { ...DEFAULT_PARAMS, radius: 8, epsilon: 0.02 } },
+    { name: 'Depth', params: { ...DEFAULT_PARAMS, guidanceMode: 'color' }, mode: 'upsample' }
+  ];
+
+  it('reads back what it exports', () => {
+    assert.deepEqual(parsePresets(exportPresets(presets)), presets);
+    assert.deepEqual(parsePresets(JSON.stringify(presets)), presets);
+  });
+
+  it('accepts every built-in preset', () => {
+    for (const preset of BUILT_IN_PRESETS) assert.deepEqual(validateParams(preset.params), preset.params);
+  });
+
+  it('rejects malformed files, invalid parameters and repeated names', () => {
+    assert.throws(() => parsePresets('{"presets": ['), SyntaxError);
+    assert.throws(() => parsePresets('{"presets": 3}'), /Expected a list of presets/);
+    assert.throws(() => parsePresets(JSON.stringify([{ params: DEFAULT_PARAMS }])), /Preset 1 has no name/);
+    assert.throws(
+      () => parsePresets(JSON.stringify([{ name: 'Bad', params: { ...DEFAULT_PARAMS, weight: 2 } }])),
+      /Preset "Bad": weight must be between 0 and 1/
+    );
+    assert.throws(
+      () => parsePresets(JSON.stringify([{ name: 'Mode', params: DEFAULT_PARAMS, mode: 'sharpen' }])),
+      /Preset "Mode": mode must be/
+    );
+    assert.throws(() => parsePresets(exportPresets([presets[0], { ...presets[1], name: ' Soft ' }])), /Preset "Soft" appears more than once/);
+  });
+
+  it('names the first invalid parameter', () => {
+    assert.throws(() => validateParams({ ...DEFAULT_PARAMS, radius: 2.5 }), { code: 'INVALID_PARAM', subject: 'radius' });
+    assert.throws(() => validateParams({ ...DEFAULT_PARAMS, epsilon: -1 }), { code: 'INVALID_EPSILON', subject: 'epsilon' });
+    assert.throws(() => validateParams({ ...DEFAULT_PARAMS, guidanceMode: 'hue' }), { code: 'INVALID_PARAM', subject: 'guidanceMode' });
+    assert.throws(() => validateParams(null), { code: 'INVALID_PARAM', subject: 'params' });
+  });
+});
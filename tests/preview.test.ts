@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { createPreviewProxy, proxyParams } from '../services/preview';
+import { gray, grayRGB } from './helpers';
+
+describe('preview proxy', () => {
+  it('area-averages by the smallest factor that fits', () => {
+    const target = grayRGB(10, 4, x => x);
+    const proxy = createPreviewProxy(target, target, gray(10, 4, () => 1), 4);
+    assert.equal(proxy.factor, 3);
+    assert.equal(proxy.target.width, 4);
+    assert.equal(proxy.target.height, 2);
+    assert.deepEqual([...proxy.target.r.subarray(0, 4)], [1, 4, 7, 9]);
+    assert.equal(proxy.mask?.width, 4);
+  });
+
+  it('leaves parameters alone at full size and scales the window, not epsilon, otherwise', () => {
+    const target = grayRGB(8, 8, () => 0);
+    assert.equal(proxyParams(DEFAULT_PARAMS, createPreviewProxy(target, target)), DEFAULT_PARAMS);
+    // A 17px window (radius 8) spans 4.25 proxy pixels at factor 4: radius 2
+    const large = grayRGB(32, 32, () => 0);
+    const params = proxyParams({ ...DEFAULT_PARAMS, radius: 8, subsample: 4 }, createPreviewProxy(large, large, undefined, 8));
+    assert.equal(params.radius, 2);
+    assert.equal(params.subsample, 1);
+    assert.equal(params.epsilon, DEFAULT_PARAMS.epsilon);
+  });
+});
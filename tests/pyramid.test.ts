@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyPyramidFilter, gaussianPyramid, MAX_PYRAMID_LEVELS, usableLevels, validatePyramidLevels } from '../services/pyramid';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { grayRGB, maxDiffRGB, noProgress, regionMean, regionStd, step } from './helpers';
+
+const levels = (count: number, radius = 2, epsilon = 0.01) => Array.from({ length: count }, () => ({ radius, epsilon }));
+
+describe('pyramid', () => {
+  it('halves each level, rounding up', () => {
+    const sizes = gaussianPyramid(grayRGB(70, 45, () => 0.5), 3).map(l => `${l.width}x${l.height}`);
+    assert.deepEqual(sizes, ['70x45', '35x23', '18x12']);
+  });
+
+  it('caps the levels by the smallest level size and by the window', () => {
+    assert.equal(usableLevels(128, 128, levels(5)), 4);
+    assert.equal(usableLevels(70, 45, levels(3)), 2);
+    assert.equal(usableLevels(128, 128, [{ radius: 2, epsilon: 0.01 }, { radius: 40, epsilon: 0.01 }]), 1);
+    assert.equal(usableLevels(128, 128, levels(1)), 1);
+  });
+
+  it('rejects malformed levels', () => {
+    assert.throws(() => validatePyramidLevels([]), { code: 'INVALID_PARAM', subject: 'pyramid' });
+    assert.throws(() => validatePyramidLevels(levels(MAX_PYRAMID_LEVELS + 1)), { code: 'INVALID_PARAM' });
+    assert.throws(() => validatePyramidLevels([{ radius: 1.5, epsilon: 0.01 }]), { code: 'INVALID_PARAM' });
+    assert.throws(() => validatePyramidLevels([{ radius: 2, epsilon: 0 }]), { code: 'INVALID_EPSILON' });
+    assert.deepEqual(validatePyramidLevels([{ radius: '3', epsilon: '0.02' }]), [{ radius: 3, epsilon: 0.02 }]);
+  });
+
+  it('keeps a sharp shared edge through the coarse-level correction', async () => {
+    // Upsampling the coarse result itself would smear the edge over several pixels
+    const image = grayRGB(70, 45, step(35));
+    const { result, levels: coarser } = await applyPyramidFilter(image, image, DEFAULT_PARAMS, levels(3), noProgress);
+    assert.deepEqual(coarser.map(l => [l.width, l.height]), [[35, 23]]);
+    assert.ok(maxDiffRGB(result.target, image) < 0.05);
+  });
+
+  it('removes coarse texture while keeping the edge', async () => {
+    const W = 96;
+    const blocks = (x: number, y: number) => step(48)(x) + ((Math.floor(x / 4) + Math.floor(y / 4)) % 2 === 0 ? 0.1 : -0.1);
+    const target = grayRGB(W, 64, blocks);
+    const { result } = await applyPyramidFilter(target, grayRGB(W, 64, step(48)), DEFAULT_PARAMS, levels(3), noProgress);
+    const left = (x: number) => x >= 8 && x < 40;
+    assert.ok(regionStd(result.target.r, W, left) < 0.2 * regionStd(target.r, W, left));
+    const jump = regionMean(result.target.r, W, x => x === 48) - regionMean(result.target.r, W, x => x === 47);
+    assert.ok(jump > 0.5);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateRegistration, NO_NUDGE, nudgeMatrix, scaleRegistration, warpRGB } from '../services/registration';
+import { grayRGB, random } from './helpers';
+
+const W = 128;
+const H = 96;
+
+// Gaussian blobs at seeded positions, so there is structure to align in every direction
+const next = random(7);
+const blobs = Array.from({ length: 12 }, () => [next() * W, next() * H, 4 + next() * 10, next()]);
+const target = grayRGB(W, H, (x, y) =>
+  blobs.reduce((sum, [bx, by, r, v]) => sum + v * Math.exp(-((x - bx) ** 2 + (y - by) ** 2) / (r * r)), 0)
+);
+
+// Guidance pixel -> target pixel: 3 degree rotation and a (5, -3) shift
+const theta = (3 * Math.PI) / 180;
+const A = [Math.cos(theta), -Math.sin(theta), 5, Math.sin(theta), Math.cos(theta), -3, 0, 0, 1];
+
+const apply = (M: number[], x: number, y: number) => {
+  const d = M[6] * x + M[7] * y + M[8];
+  return [(M[0] * x + M[1] * y + M[2]) / d, (M[3] * x + M[4] * y + M[5]) / d];
+};
+
+/** Largest distance, over points spread across the target, between a point and its round trip through `M` and `A`. */
+function alignmentError(M: number[]): number {
+  let error = 0;
+  for (const [x, y] of [[20, 20], [100, 20], [64, 48], [20, 80], [110, 80]]) {
+    const [tx, ty] = apply(A, ...(apply(M, x, y) as [number, number]));
+    error = Math.max(error, Math.hypot(tx - x, ty - y));
+  }
+  return error;
+}
+
+describe('registration', () => {
+  it('stretches without moving when nothing is estimated', () => {
+    const { matrix } = scaleRegistration(W, H, W, H);
+    assert.deepEqual(apply(matrix, 10, 20), [10, 20]);
+    assert.deepEqual(apply(nudgeMatrix({ model: 'similarity', matrix }, { ...NO_NUDGE, dx: 2 }, W, H), 10, 20), [8, 20]);
+  });
+
+  for (const model of ['similarity', 'homography'] as const) {
+    it(`recovers a known rotation and shift to a fraction of a pixel (${model})`, () => {
+      const guidance = warpRGB(target, A, W, H);
+      assert.ok(alignmentError(estimateRegistration(target, guidance, model).matrix) < 0.25);
+    });
+  }
+
+  it('aligns guidance with inverted contrast', () => {
+    const warped = warpRGB(target, A, W, H);
+    const inverted = { ...warped, r: warped.r.map(v => 1 - v), g: warped.g.map(v => 1 - v), b: warped.b.map(v => 1 - v) };
+    assert.ok(alignmentError(estimateRegistration(target, inverted, 'similarity').matrix) < 0.5);
+  });
+});
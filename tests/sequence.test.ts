@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ImageDataRGB } from '../types';
+import { compareFrameNames, filterSequence, FrameSource, SequenceFrame, stabiliseFrame } from '../services/sequence';
+import { grayRGB, random, regionMean } from './helpers';
+
+const W = 48;
+const H = 32;
+
+/** Frames of a static background with a bright square moving 10 px right per frame. */
+const movingSquare = (index: number) =>
+  grayRGB(W, H, (x, y) => (x >= 4 + 10 * index && x < 12 + 10 * index && y >= 12 && y < 20 ? 0.9 : 0.3));
+
+const source = (frames: ImageDataRGB[]): FrameSource => ({
+  count: frames.length,
+  name: index => `frame_${index}.png`,
+  load: async index => frames[index]
+});
+
+/** A stand-in filter that returns the target with fresh noise, as a flickering filter would. */
+const flickering = (seed: number) => {
+  const next = random(seed);
+  return async (target: ImageDataRGB) => grayRGB(W, H, (x, y) => target.r[y * W + x] + 0.05 * (next() - 0.5));
+};
+
+async function run(strength: number, frames = [0, 1, 2, 3].map(movingSquare)): Promise<SequenceFrame[]> {
+  const out: SequenceFrame[] = [];
+  await filterSequence(source(frames), source([grayRGB(W, H, () => 0.5)]), { strength, sigma: 0.04 }, flickering(5), frame => {
+    out.push(frame);
+  });
+  return out;
+}
+
+describe('sequences', () => {
+  it('sorts frame names by their numbers', () => {
+    const names = ['frame_10.png', 'frame_9.png', 'Frame_1.png', 'frame_100.png', 'frame_2.png'];
+    assert.deepEqual(names.sort(compareFrameNames), ['Frame_1.png', 'frame_2.png', 'frame_9.png', 'frame_10.png', 'frame_100.png']);
+  });
+
+  it('blends static pixels towards the previous result and leaves changed ones alone', () => {
+    const previousTarget = grayRGB(W, H, () => 0.3);
+    const target = grayRGB(W, H, x => (x < 24 ? 0.3 : 0.8));
+    const previousResult = grayRGB(W, H, () => 0.2);
+    const filtered = stabiliseFrame(grayRGB(W, H, () => 0.4), previousResult, previousTarget, target, { strength: 0.5, sigma: 0.04 });
+    assert.ok(Math.abs(regionMean(filtered.r, W, x => x < 20) - 0.3) < 1e-6);
+    assert.ok(Math.abs(regionMean(filtered.r, W, x => x >= 28) - 0.4) < 1e-6);
+  });
+
+  it('reduces flicker in static regions but follows motion', async () => {
+    const flickerOf = (frames: SequenceFrame[]) => {
+      const background = (x: number, y: number) => y < 8 || y >= 24;
+      let total = 0;
+      for (let k = 1; k < frames.length; k++) {
+        const diff = frames[k].result.r.map((v, i) => Math.abs(v - frames[k - 1].result.r[i]));
+        total += regionMean(diff, W, background);
+      }
+      return total / (frames.length - 1);
+    };
+    const plain = await run(0);
+    const stable = await run(0.6);
+    assert.ok(flickerOf(stable) < 0.6 * flickerOf(plain));
+    assert.equal(stable[0].change, 0);
+
+    // Where the square has just arrived, the output shows it rather than the old background
+    const last = stable[stable.length - 1].result;
+    assert.ok(Math.abs(regionMean(last.r, W, (x, y) => x >= 35 && x < 41 && y >= 14 && y < 18) - 0.9) < 0.05);
+  });
+
+  it('rejects frames of another size and guidance of another length', async () => {
+    await assert.rejects(run(0.6, [movingSquare(0), grayRGB(W, H + 1, () => 0.3)]), /Frame frame_1\.png is 48x33; earlier frames are 48x32/);
+    const guidance = source([grayRGB(W, H, () => 0.5), grayRGB(W, H, () => 0.5)]);
+    await assert.rejects(
+      filterSequence(source([0, 1, 2].map(movingSquare)), guidance, { strength: 0.6, sigma: 0.04 }, flickering(1), () => {}),
+      /The guidance has 2 frames but the target has 3/
+    );
+    await assert.rejects(run(0.6, []), /no frames/);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { createSession, paramsFromHash, paramsToHash, readSession, resultHash, SessionState } from '../services/session';
+import { encodePNG } from '../services/codecs';
+import { bytesToDataURL } from '../services/imageLoader';
+import { gray, grayRGB, step } from './helpers';
+
+const png = (edge: number) => bytesToDataURL(encodePNG(grayRGB(12, 8, step(edge)), 8), 'image/png');
+
+const state = (): SessionState => ({
+  mode: 'filter',
+  params: { ...DEFAULT_PARAMS, radius: 3 },
+  kernel: null,
+  pyramid: null,
+  backend: 'cpu',
+  registration: null,
+  nudge: { dx: 0, dy: 0, rotation: 0, scale: 1 },
+  target: png(4),
+  guidance: png(6),
+  mask: gray(12, 8, x => x / 11),
+  result: grayRGB(12, 8, step(5))
+});
+
+describe('sessions', () => {
+  it('round-trips through JSON with every image hash checked', async () => {
+    const bundle = await createSession(state());
+    const read = await readSession(JSON.stringify(bundle));
+    assert.deepEqual(read.params, bundle.params);
+    assert.equal(read.target.sha256, bundle.target.sha256);
+    assert.equal(read.mask?.sha256, bundle.mask?.sha256);
+    assert.equal(read.result?.sha256, await resultHash(grayRGB(12, 8, step(5))));
+  });
+
+  it('rejects an image that does not match its hash', async () => {
+    const bundle = await createSession(state());
+    const tampered = { ...bundle, guidance: { ...bundle.guidance, dataURL: png(7) } };
+    await assert.rejects(readSession(JSON.stringify(tampered)), /guidance image does not match its hash/);
+  });
+
+  it('rejects files that are not sessions and invalid parameters', async () => {
+    await assert.rejects(readSession('{"format":"other"}'), /Not a session file/);
+    const bundle = await createSession(state());
+    await assert.rejects(readSession(JSON.stringify({ ...bundle, params: { ...bundle.params, epsilon: -1 } })));
+  });
+
+  it('hashes the same result to the same value and a changed one to another', async () => {
+    const a = await resultHash(grayRGB(12, 8, step(5)));
+    assert.equal(a, await resultHash(grayRGB(12, 8, step(5))));
+    assert.notEqual(a, await resultHash(grayRGB(12, 8, x => step(5)(x) + 1 / 65535 * 2)));
+  });
+
+  it('reads the parameters and mode back from a URL hash', () => {
+    const params = { ...DEFAULT_PARAMS, radius: 7, guidanceMode: 'color' as const };
+    assert.deepEqual(paramsFromHash('#' + paramsToHash(params, 'upsample')), { params, mode: 'upsample' });
+    assert.equal(paramsFromHash('mode=filter'), null);
+  });
+});
+
+describe('malformed sessions', () => {
+  const withFields = async (fields: object) => JSON.stringify({ ...(await createSession(state())), ...fields });
+
+  it('rejects a nudge of the wrong shape or out of range', async () => {
+    await assert.rejects(readSession(await withFields({ nudge: 'left' })), /Nudge must be an object/);
+    await assert.rejects(readSession(await withFields({ nudge: { dx: 0, dy: 0, rotation: 0 } })), /Nudge scale must be a number/);
+    await assert.rejects(readSession(await withFields({ nudge: { dx: 500, dy: 0, rotation: 0, scale: 1 } })), /Nudge dx must be a number between -50 and 50/);
+    await assert.rejects(readSession(await withFields({ nudge: { dx: 0, dy: 0, rotation: 0, scale: null } })), /Nudge scale/);
+  });
+
+  it('rejects a malformed registration', async () => {
+    const matrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+    await assert.rejects(readSession(await withFields({ registration: { model: 'affine', matrix } })), /Unknown registration model/);
+    await assert.rejects(
+      readSession(await withFields({ registration: { model: 'similarity', matrix: [...matrix.slice(1), 'x'] } })),
+      /3x3 matrix of finite numbers/
+    );
+  });
+
+  it('keeps only the fields it checked', async () => {
+    const nudge = { dx: 1.5, dy: -2, rotation: 0.3, scale: 1.01 };
+    const read = await readSession(await withFields({ nudge, extra: { evil: true } }));
+    assert.deepEqual(read.nudge, nudge);
+    assert.ok(!('extra' in read));
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyColormap, structureMapScale } from '../services/structureMaps';
+import { gray } from './helpers';
+
+describe('colormaps', () => {
+  const viridisAt = (t: number) => {
+    const { r, g, b } = applyColormap(gray(1, 1, () => t), { colormap: 'viridis', min: 0, max: 1 });
+    return [r[0], g[0], b[0]];
+  };
+  const near = (actual: number[], expected: number[]) =>
+    assert.ok(actual.every((v, k) => Math.abs(v - expected[k]) < 0.01), `${actual} is not close to ${expected}`);
+
+  it('follows viridis at its ends, its midpoint and between stops', () => {
+    // Reference values from matplotlib's viridis table
+    near(viridisAt(0), [0.267, 0.005, 0.329]);
+    near(viridisAt(0.3), [0.208, 0.372, 0.553]);
+    near(viridisAt(0.5), [0.128, 0.567, 0.551]);
+    near(viridisAt(1), [0.993, 0.906, 0.144]);
+  });
+
+  it('centres signed maps on 0 and starts variances at 0', () => {
+    const map = gray(10, 1, x => x - 4);
+    assert.deepEqual(structureMapScale('mutual', map), { colormap: 'diverging', min: -1, max: 1 });
+    assert.equal(structureMapScale('varI', map).min, 0);
+    const a = structureMapScale('a', map);
+    assert.equal(a.min, -a.max);
+  });
+});
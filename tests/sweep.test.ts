@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { MAX_SWEEP_CELLS, parseSweepValues, sweepGrid } from '../services/sweep';
+
+describe('parameter sweeps', () => {
+  it('parses comma-separated values, dropping repeats', () => {
+    assert.deepEqual(parseSweepValues(' 2, 4,8, 4 ', 'Radius'), [2, 4, 8]);
+    assert.throws(() => parseSweepValues('2, four', 'Radius'), /Radius must be a comma-separated list of numbers/);
+    assert.throws(() => parseSweepValues(' , ', 'Radius'), /Radius must be/);
+  });
+
+  it('lays out rows by iterations and radius, with epsilon along each row', () => {
+    const grid = sweepGrid(DEFAULT_PARAMS, { radius: [2, 6], epsilon: [0.001, 0.01, 0.1], iterations: [1, 3] });
+    assert.equal(grid.length, 12);
+    assert.deepEqual(
+      grid.map(p => [p.iterations, p.radius, p.epsilon]),
+      [1, 3].flatMap(i => [2, 6].flatMap(r => [0.001, 0.01, 0.1].map(e => [i, r, e])))
+    );
+    assert.ok(grid.every(p => p.weight === DEFAULT_PARAMS.weight && p.guidanceMode === DEFAULT_PARAMS.guidanceMode));
+  });
+
+  it('refuses grids larger than MAX_SWEEP_CELLS and invalid combinations', () => {
+    const radius = Array.from({ length: MAX_SWEEP_CELLS + 1 }, (_, k) => k + 1);
+    assert.throws(() => sweepGrid(DEFAULT_PARAMS, { radius, epsilon: [0.01], iterations: [1] }), /at most 36 combinations, got 37/);
+    assert.equal(sweepGrid(DEFAULT_PARAMS, { radius: radius.slice(1), epsilon: [0.01], iterations: [1] }).length, MAX_SWEEP_CELLS);
+    assert.throws(() => sweepGrid(DEFAULT_PARAMS, { radius: [2], epsilon: [0], iterations: [1] }), { code: 'INVALID_EPSILON' });
+  });
+});
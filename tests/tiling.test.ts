@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FilterParams } from '../types';
+import { applyMutualStructureFilter } from '../services/filters';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { applyMutualStructureFilterTiled, tileMargin } from '../services/tiling';
+import { gray, maxDiffRGB, noiseRGB, noProgress } from './helpers';
+
+/** Untiled and tiled results of the same call, and the number of tiles used. */
+async function both(width: number, height: number, params: FilterParams, tileSize: number, masked = false) {
+  const target = noiseRGB(width, height, 1);
+  const guidance = noiseRGB(width, height, 2);
+  const mask = masked ? gray(width, height, x => (x > width / 2 ? 1 : 0.3)) : undefined;
+  const full = await applyMutualStructureFilter(target, guidance, params, noProgress, undefined, mask);
+  let tiles = 0;
+  const tiled = await applyMutualStructureFilterTiled(
+    target, guidance, params, (_, detail) => { tiles = detail?.tile?.count ?? tiles; }, undefined, mask, tileSize
+  );
+  return { full, tiled, tiles };
+}
+
+describe('applyMutualStructureFilterTiled', () => {
+  it('sizes the margin from radius, iterations and subsampling', () => {
+    assert.equal(tileMargin({ ...DEFAULT_PARAMS, radius: 4, iterations: 3, subsample: 1 }), 24);
+    assert.equal(tileMargin({ ...DEFAULT_PARAMS, radius: 4, iterations: 2, subsample: 2 }), 24);
+  });
+
+  // 70x45 is not a multiple of any of the tile sizes, so edge tiles are partial
+  for (const tileSize of [16, 23, 40]) {
+    for (const [label, params] of [
+      ['luminance', { ...DEFAULT_PARAMS, radius: 2, iterations: 2 }],
+      ['color, weight 0.3', { ...DEFAULT_PARAMS, radius: 3, iterations: 2, guidanceMode: 'color', weight: 0.3 }]
+    ] as [string, FilterParams][]) {
+      it(`matches the untiled result exactly with ${tileSize}px tiles (${label})`, async () => {
+        const { full, tiled, tiles } = await both(70, 45, params, tileSize, true);
+        assert.ok(tiles > 1);
+        assert.equal(maxDiffRGB(full.target, tiled.target), 0);
+        assert.equal(maxDiffRGB(full.guidance, tiled.guidance), 0);
+      });
+    }
+  }
+
+  for (const subsample of [2, 4]) {
+    it(`matches the untiled result exactly at subsample ${subsample} when the sides are multiples of it`, async () => {
+      const params = { ...DEFAULT_PARAMS, radius: subsample, iterations: 2, subsample };
+      const { full, tiled, tiles } = await both(72, 48, params, 23);
+      assert.ok(tiles > 1);
+      assert.equal(maxDiffRGB(full.target, tiled.target), 0);
+      assert.equal(maxDiffRGB(full.guidance, tiled.guidance), 0);
+    });
+  }
+
+  it('stays well within the fast filter\'s own error at other sizes', async () => {
+    const params = { ...DEFAULT_PARAMS, radius: 2, iterations: 2, subsample: 3 };
+    const { full, tiled, tiles } = await both(70, 45, params, 16);
+    const exact = await applyMutualStructureFilter(noiseRGB(70, 45, 1), noiseRGB(70, 45, 2), { ...params, subsample: 1 }, noProgress);
+    assert.ok(tiles > 1);
+    assert.ok(maxDiffRGB(full.target, tiled.target) < maxDiffRGB(exact.target, full.target) / 2);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resampleChannel } from '../services/filters';
+import { DEFAULT_PARAMS } from '../services/presets';
+import { upsampleWithGuidance } from '../services/upsample';
+import { gray, grayRGB, noProgress, regionMean, step } from './helpers';
+
+describe('upsampleWithGuidance', () => {
+  // A 12x8 depth map in millimetres with a step the 48x32 guidance also has
+  const low = gray(12, 8, x => (x < 6 ? 1000 : 3000));
+  const guidance = grayRGB(48, 32, step(24));
+
+  it('returns the map at the guidance size in its own units', async () => {
+    const { target } = await upsampleWithGuidance(low, guidance, DEFAULT_PARAMS, noProgress);
+    assert.equal(target.width, 48);
+    assert.equal(target.height, 32);
+    assert.ok(Math.abs(regionMean(target.data, 48, x => x === 0) - 1000) < 1);
+    assert.ok(Math.abs(regionMean(target.data, 48, x => x === 47) - 3000) < 1);
+  });
+
+  it('snaps the edge to the guidance more sharply than bilinear upsampling', async () => {
+    const { target } = await upsampleWithGuidance(low, guidance, DEFAULT_PARAMS, noProgress);
+    const bilinear = resampleChannel(low.data, 12, 8, 48, 32);
+    const jump = (data: Float32Array) =>
+      regionMean(data, 48, x => x === 24) - regionMean(data, 48, x => x === 23);
+    assert.ok(jump(target.data) > 2 * jump(bilinear));
+  });
+});
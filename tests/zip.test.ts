@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32 } from 'node:zlib';
+import { createZip } from '../services/zip';
+
+/** Reads a stored ZIP archive through its central directory, checking every field against the local headers. */
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let offset = view.getUint32(end + 16, true);
+  assert.equal(offset + centralSize, end);
+
+  const decoder = new TextDecoder();
+  const entries = [];
+  for (let k = 0; k < count; k++) {
+    assert.equal(view.getUint32(offset, true), 0x02014b50);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    assert.equal(view.getUint32(local, true), 0x04034b50);
+    assert.equal(view.getUint16(local + 10, true), time);
+    assert.equal(view.getUint16(local + 12, true), date);
+    assert.equal(view.getUint32(local + 14, true), crc);
+    assert.equal(view.getUint32(local + 18, true), size);
+    assert.equal(view.getUint16(local + 26, true), nameLength);
+    const start = local + 30 + nameLength;
+    const bytes = zip.subarray(start, start + size);
+    assert.equal(crc32(bytes), crc);
+    entries.push({ name, bytes, date });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('round-trips names and contents with matching CRCs and offsets', () => {
+    const entries = [
+      { name: 'frame_1.png', bytes: Uint8Array.from({ length: 300 }, (_, i) => (i * 7) & 0xff) },
+      { name: 'größe/frame_2.png', bytes: new Uint8Array(0) },
+      { name: 'frame_3.pfm', bytes: new TextEncoder().encode('Pf\n1 1\n-1\n\0\0\0\0') }
+    ];
+    const read = readZip(createZip(entries));
+    assert.deepEqual(read.map(e => e.name), entries.map(e => e.name));
+    read.forEach((e, k) => assert.deepEqual(e.bytes, entries[k].bytes));
+  });
+
+  it('stamps a valid MS-DOS date', () => {
+    const [{ date }] = readZip(createZip([{ name: 'a', bytes: new Uint8Array(1) }]));
+    const month = (date >> 5) & 0xf;
+    const day = date & 0x1f;
+    assert.ok(month >= 1 && month <= 12 && day >= 1);
+  });
+
+  it('refuses more entries than the archive can count', () => {
+    const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: `f${i}`, bytes: new Uint8Array(0) }));
+    assert.throws(() => createZip(entries), /at most 65535 files, got 65536/);
+    assert.equal(readZip(createZip(entries.slice(1))).length, 0xffff);
+  });
+});
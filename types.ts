@@ -1,21 +1,370 @@
 
+export type GuidanceMode = 'luminance' | 'color';
+
+export type AlgorithmMode = 'filter' | 'upsample';
+
+/** Where box filtering and coefficient stages run; 'auto' prefers the GPU when it is usable. */
+export type BackendPreference = 'auto' | 'cpu' | 'webgl';
+
+export type BackendName = 'cpu' | 'webgl';
+
+/** Edge-preserving kernels in the registry (see services/kernels.ts); 'msjf' is the mutual-structure filter. */
+export type KernelName = 'msjf' | 'joint-bilateral' | 'weighted-median' | 'rolling-guidance';
+
+export type KernelValue = number | string;
+
+/** One control of a kernel's parameter schema; the Parameters panel renders it. */
+export type KernelParamSpec = {
+  key: string;
+  label: string;
+  hint?: string;
+} & (
+  | {
+      type: 'range';
+      min: number;
+      max: number;
+      step: number;
+      /** Value shown next to the label; defaults to the number as typed. */
+      format?: (value: number) => string;
+    }
+  | {
+      type: 'choice';
+      options: { value: string; label: string }[];
+    }
+);
+
+/** A kernel and its parameter values, as sent to the filter worker. */
+export interface KernelSettings {
+  name: KernelName;
+  values: Record<string, KernelValue>;
+}
+
 export interface FilterParams {
   radius: number;
   epsilon: number;
   iterations: number;
+  /**
+   * Share of the filtered result kept on mutual structure, in [0, 1]. Lower
+   * values restore the original pixels where target and guidance share edges.
+   */
   weight: number;
+  targetFidelity: number;
+  guidanceFidelity: number;
+  subsample: number;
+  guidanceMode: GuidanceMode;
 }
 
 export type ImageDataRGB = {
   r: Float32Array;
   g: Float32Array;
   b: Float32Array;
+  /** Opacity in [0, 1]; absent for fully opaque images. */
+  a?: Float32Array;
   width: number;
   height: number;
 };
 
+export type ImageDataGray = {
+  data: Float32Array;
+  width: number;
+  height: number;
+};
+
+export interface EnhanceParams {
+  enabled: boolean;
+  /** Detail gain per scale, fine to coarse; one filter run per entry. */
+  gains: number[];
+}
+
+/** Window of one pyramid level, in that level's pixels (see `applyPyramidFilter`). */
+export interface PyramidLevel {
+  radius: number;
+  epsilon: number;
+}
+
+export interface PyramidParams {
+  enabled: boolean;
+  /** One entry per level, fine (full resolution) to coarse; each level halves the size. */
+  levels: PyramidLevel[];
+  /** Also return each coarser level's result as a layer. */
+  keepLevels: boolean;
+}
+
+export type RegistrationModel = 'similarity' | 'homography';
+
+export interface Registration {
+  model: RegistrationModel;
+  /** Row-major 3x3 homography mapping target pixel coordinates to guidance pixel coordinates. */
+  matrix: number[];
+}
+
+/** Manual correction applied on top of an estimated registration, in target pixels. */
+export interface RegistrationNudge {
+  dx: number;
+  dy: number;
+  /** Degrees, clockwise on screen about the image centre. */
+  rotation: number;
+  scale: number;
+}
+
+/** Downscaled copy of a target/guidance pair used for live previews. */
+export interface PreviewProxy {
+  target: ImageDataRGB;
+  guidance: ImageDataRGB;
+  mask?: ImageDataGray;
+  /** Full-resolution pixels per proxy pixel along each axis. */
+  factor: number;
+}
+
+/** An image stored in a session file with the SHA-256 of its bytes. */
+export interface SessionImage {
+  dataURL: string;
+  sha256: string;
+}
+
+/** Everything needed to reopen a run and reproduce it (see services/session.ts). */
+export interface SessionBundle {
+  format: 'msjf-session';
+  version: 1;
+  createdAt: string;
+  mode: AlgorithmMode;
+  params: FilterParams;
+  /** Baseline kernel that produced the result; absent for the mutual-structure filter. */
+  kernel?: KernelSettings;
+  /** Pyramid levels of a coarse-to-fine run, fine to coarse. */
+  pyramid?: PyramidLevel[];
+  backend: BackendPreference;
+  registration?: Registration;
+  nudge?: RegistrationNudge;
+  /** Original input files, byte for byte. */
+  target: SessionImage;
+  guidance: SessionImage;
+  /** Region mask as a single-channel PFM. */
+  mask?: SessionImage;
+  /** Filtered target as a 16-bit PNG, or an upsampled map as PFM. */
+  result?: SessionImage;
+}
+
+export type ComparisonMode = 'wipe' | 'side-by-side' | 'difference' | 'flicker';
+
+/** An image offered by the comparison workbench: an input, a run's output layer or a live preview. */
+export interface ComparisonItem {
+  id: string;
+  label: string;
+  src: string;
+  /** Parameters of the run that produced the image; absent for inputs. */
+  params?: FilterParams;
+  /** Raw values behind a colormapped map, read out under the cursor. */
+  readout?: { values: ImageDataGray; scale: MapScale };
+  /** Set when a baseline kernel produced the image; `params` is then absent. */
+  kernel?: KernelSettings;
+  /** Set when a pyramid run produced the image; its levels replace the radius and epsilon in `params`. */
+  pyramid?: PyramidLevel[];
+}
+
+/** Intermediate quantities of the guidance-to-target regression (see `structureMaps`). */
+export type StructureMapName = 'a' | 'varI' | 'covIP' | 'mutual';
+
+export type StructureMaps = Record<StructureMapName, ImageDataGray>;
+
+export type Colormap = 'viridis' | 'diverging';
+
+/** How a single-channel map is colored: values from `min` to `max` span the colormap. */
+export interface MapScale {
+  colormap: Colormap;
+  min: number;
+  max: number;
+}
+
+export interface MutualFilterResult {
+  target: ImageDataRGB;
+  guidance: ImageDataRGB;
+}
+
+/** Named filter settings; built-in presets ship with the app, others live in localStorage. */
+export interface Preset {
+  name: string;
+  params: FilterParams;
+  /** Algorithm the preset is meant for; applying it switches to that mode. */
+  mode?: AlgorithmMode;
+  builtIn?: boolean;
+}
+
+/** Values tried along each axis of a parameter sweep. */
+export interface SweepAxes {
+  radius: number[];
+  epsilon: number[];
+  iterations: number[];
+}
+
+/** One filtered cell of a sweep's contact sheet. */
+export interface SweepCell {
+  params: FilterParams;
+  src: string;
+  /** Absent when the sweep ran without metrics. */
+  metrics?: FilterMetrics;
+}
+
+/** Quality measures of a filter run (see services/metrics.ts). */
+export interface FilterMetrics {
+  /** Fidelity of the result to the unfiltered target, in dB. */
+  psnr: number;
+  ssim: number;
+  /** Correlation of result and guidance gradient magnitudes; mutual structure kept. */
+  gradientCorrelation: number;
+  /** Texture left in the result; lower is smoother. */
+  relativeTotalVariation: number;
+  /** The structure and texture measures of the unfiltered target. */
+  input: { gradientCorrelation: number; relativeTotalVariation: number };
+}
+
+/** Statistics of one input, computed locally and handed to analysis providers. */
+export interface ImageDescriptor {
+  width: number;
+  height: number;
+  /** 8-bit PNG data URL, at most ANALYSIS_MAX_SIZE pixels on its longest edge. */
+  thumbnail: string;
+  meanLuminance: number;
+  /** Standard deviation of the luminance. */
+  contrast: number;
+  /** Median and 99th percentile of the luminance gradient magnitude. */
+  gradientMedian: number;
+  gradientP99: number;
+  /** Fraction of pixels whose gradient magnitude marks an edge. */
+  edgeDensity: number;
+  relativeTotalVariation: number;
+}
+
+/** What an analysis provider sees: both inputs and the current settings. */
+export interface AnalysisRequest {
+  mode: AlgorithmMode;
+  params: FilterParams;
+  target: ImageDescriptor;
+  guidance: ImageDescriptor;
+  /** Gradient-magnitude correlation between target and guidance thumbnails. */
+  gradientCorrelation: number;
+  /** What Auto (`estimateParams`) suggests for the full-resolution pair. */
+  estimate: ParamSuggestion;
+}
+
+export interface ParamSuggestion {
+  params: FilterParams;
+  rationale: string;
+}
+
+/** Image statistics behind an automatic parameter estimate (see services/autoParams.ts). */
+export interface ParamEstimate {
+  /** Standard deviation of the target's noise, in luminance units. */
+  noiseSigma: number;
+  /** Half the period of the dominant texture, in pixels; null when none repeats. */
+  textureScale: number | null;
+  /** Median local variance, covering texture and noise in flat regions. */
+  textureVariance: number;
+  /** 95th percentile local variance, reached at edges. */
+  edgeVariance: number;
+  /** Gradient-magnitude correlation between target and guidance. */
+  sharedStructure: number;
+}
+
+export type AnalysisProviderName = 'off' | 'local' | 'gemini';
+
+export interface AnalysisResult {
+  provider: AnalysisProviderName;
+  summary: string;
+  suggestion?: ParamSuggestion;
+}
+
+/** Temporal stabilisation of a filtered frame sequence (see `stabiliseFrame`). */
+export interface TemporalParams {
+  /** Largest share of the previous output carried into a frame, in [0, 1]; 0 filters frames independently. */
+  strength: number;
+  /** Input change, in intensity units, at which carry-over falls to 1/e of `strength`. */
+  sigma: number;
+}
+
+/** One filtered frame as the sequence viewer shows it. */
+export interface SequenceViewFrame {
+  name: string;
+  /** Image URLs of the frame as read and as filtered. */
+  input: string;
+  result: string;
+  /** Mean absolute change of the output from the previous frame (see `frameChange`). */
+  change: number;
+}
+
+export interface FilterProgress {
+  iteration: number;
+  channel: string;
+  direction: 'guidance-to-target' | 'target-to-guidance' | 'confidence';
+  pass: number;
+  totalPasses: number;
+  /** Set when the image is filtered in tiles (see `applyMutualStructureFilterTiled`). */
+  tile?: { index: number; count: number };
+  /** Set when filtering a frame sequence (see `filterSequence`). */
+  frame?: { index: number; count: number };
+  /** Set in pyramid mode; index 0 is the full-resolution level (see `applyPyramidFilter`). */
+  level?: { index: number; count: number };
+}
+
 export interface ProcessingState {
   isProcessing: boolean;
   progress: number;
+  stage: FilterProgress | null;
   error: string | null;
 }
+
+/**
+ * Reason an `MsjfError` was thrown (see services/errors.ts). Parameter codes
+ * come with the offending parameter's name, image codes with the image's.
+ */
+export type MsjfErrorCode =
+  | 'INVALID_PARAM'
+  | 'INVALID_EPSILON'
+  | 'RADIUS_TOO_LARGE'
+  | 'INVALID_IMAGE'
+  | 'SIZE_MISMATCH'
+  | 'NON_FINITE_PIXELS'
+  | 'INVALID_OPTIONS';
+
+export type FilterWorkerRequest =
+  | {
+      type: 'filter';
+      target: ImageDataRGB;
+      guidance: ImageDataRGB;
+      params: FilterParams;
+      detailScales: number;
+      mask?: ImageDataGray;
+      backend: BackendPreference;
+      /** A baseline kernel to run instead of the mutual-structure filter. */
+      kernel?: KernelSettings;
+      /** Filter coarse to fine over these levels instead of once at full resolution. */
+      pyramid?: PyramidLevel[];
+      /** Also compute the `computeMetrics` of the result. */
+      metrics: boolean;
+      /** Also compute the inputs' `structureMaps`. */
+      maps: boolean;
+    }
+  | {
+      type: 'upsample';
+      target: ImageDataGray;
+      guidance: ImageDataRGB;
+      params: FilterParams;
+      backend: BackendPreference;
+    };
+
+export type FilterWorkerResponse =
+  | { type: 'progress'; progress: number; detail?: FilterProgress }
+  | {
+      type: 'result';
+      result: MutualFilterResult;
+      coarseBases: ImageDataRGB[];
+      /** Set when the request asked for metrics. */
+      metrics?: FilterMetrics;
+      /** Set when the request asked for maps. */
+      maps?: StructureMaps;
+      /** Results of the coarser pyramid levels, fine to coarse, at their own sizes. */
+      levels: ImageDataRGB[];
+      backend: BackendName;
+    }
+  | { type: 'upsampled'; target: ImageDataGray; guidance: ImageDataRGB; backend: BackendName }
+  | { type: 'error'; message: string; code?: MsjfErrorCode; subject?: string };
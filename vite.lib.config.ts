@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Library build of lib/index.ts for `npm run build:lib`; declarations come from tsconfig.lib.json
+export default defineConfig({
+  build: {
+    outDir: 'dist/lib',
+    emptyOutDir: true,
+    sourcemap: true,
+    lib: {
+      entry: 'lib/index.ts',
+      formats: ['es'],
+      fileName: 'index'
+    },
+    rollupOptions: {
+      external: ['fast-png']
+    }
+  }
+});